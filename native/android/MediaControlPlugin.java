@@ -0,0 +1,125 @@
+package app.lovable.warmai;
+
+import android.content.Context;
+import android.media.AudioManager;
+import android.os.SystemClock;
+import android.view.KeyEvent;
+
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+/**
+ * Controls whatever app is playing media - the native side of
+ * src/lib/mediaControl.ts. Media keys go to the active media session the
+ * same way a headset button does, and volume changes the music stream.
+ *
+ * The android/ project is generated by `npx cap add android`, so this lives
+ * outside it. After generating, copy this file next to MainActivity.java
+ * and register it before the bridge starts:
+ *
+ *     public class MainActivity extends BridgeActivity {
+ *         @Override
+ *         public void onCreate(Bundle savedInstanceState) {
+ *             registerPlugin(MediaControlPlugin.class);
+ *             super.onCreate(savedInstanceState);
+ *         }
+ *     }
+ */
+@CapacitorPlugin(name = "MediaControl")
+public class MediaControlPlugin extends Plugin {
+
+    private AudioManager audio() {
+        return (AudioManager) getContext().getSystemService(Context.AUDIO_SERVICE);
+    }
+
+    private double level(AudioManager audio) {
+        int max = audio.getStreamMaxVolume(AudioManager.STREAM_MUSIC);
+        return max > 0 ? (double) audio.getStreamVolume(AudioManager.STREAM_MUSIC) / max : 0;
+    }
+
+    private void resolve(PluginCall call, boolean handled, AudioManager audio) {
+        JSObject result = new JSObject();
+        result.put("handled", handled);
+        result.put("level", level(audio));
+        call.resolve(result);
+    }
+
+    @PluginMethod
+    public void sendMediaKey(PluginCall call) {
+        String key = call.getString("key", "");
+        int code;
+        switch (key) {
+            case "play":
+                code = KeyEvent.KEYCODE_MEDIA_PLAY;
+                break;
+            case "pause":
+                code = KeyEvent.KEYCODE_MEDIA_PAUSE;
+                break;
+            case "next":
+                code = KeyEvent.KEYCODE_MEDIA_NEXT;
+                break;
+            case "previous":
+                code = KeyEvent.KEYCODE_MEDIA_PREVIOUS;
+                break;
+            default:
+                call.reject("Unknown media key: " + key);
+                return;
+        }
+
+        AudioManager audio = audio();
+        // Play is the only key that means something when nothing is playing
+        if (!key.equals("play") && !audio.isMusicActive()) {
+            resolve(call, false, audio);
+            return;
+        }
+
+        long now = SystemClock.uptimeMillis();
+        audio.dispatchMediaKeyEvent(new KeyEvent(now, now, KeyEvent.ACTION_DOWN, code, 0));
+        audio.dispatchMediaKeyEvent(new KeyEvent(now, now, KeyEvent.ACTION_UP, code, 0));
+        resolve(call, true, audio);
+    }
+
+    @PluginMethod
+    public void adjustVolume(PluginCall call) {
+        String direction = call.getString("direction", "");
+        int adjustment;
+        switch (direction) {
+            case "up":
+                adjustment = AudioManager.ADJUST_RAISE;
+                break;
+            case "down":
+                adjustment = AudioManager.ADJUST_LOWER;
+                break;
+            case "mute":
+                adjustment = AudioManager.ADJUST_MUTE;
+                break;
+            case "unmute":
+                adjustment = AudioManager.ADJUST_UNMUTE;
+                break;
+            default:
+                call.reject("Unknown volume direction: " + direction);
+                return;
+        }
+
+        AudioManager audio = audio();
+        audio.adjustStreamVolume(AudioManager.STREAM_MUSIC, adjustment, AudioManager.FLAG_SHOW_UI);
+        resolve(call, true, audio);
+    }
+
+    @PluginMethod
+    public void setVolume(PluginCall call) {
+        Double level = call.getDouble("level");
+        if (level == null || level < 0 || level > 1) {
+            call.reject("Volume level must be between 0 and 1");
+            return;
+        }
+
+        AudioManager audio = audio();
+        int max = audio.getStreamMaxVolume(AudioManager.STREAM_MUSIC);
+        audio.setStreamVolume(AudioManager.STREAM_MUSIC, (int) Math.round(level * max), AudioManager.FLAG_SHOW_UI);
+        resolve(call, true, audio);
+    }
+}
@@ -0,0 +1,101 @@
+import { AlarmClock, AppWindow, Bell, Check, ExternalLink, Mail, MessageSquare, Music, Phone, Timer, Undo2, X, Zap } from "lucide-react";
+import { describePhoneAction, type PhoneAction } from "@/hooks/usePhoneActions";
+
+interface ActionCardProps {
+  action: PhoneAction;
+  undone?: boolean;
+  onUndo?: () => void;
+  onOpen?: () => void;
+  onConfirm?: () => void;
+  onDecline?: () => void;
+}
+
+const ACTION_ICONS: Record<PhoneAction['type'], typeof Zap> = {
+  alarm: AlarmClock,
+  timer: Timer,
+  reminder: Bell,
+  open_app: AppWindow,
+  play_music: Music,
+  media_control: Music,
+  message: MessageSquare,
+  call: Phone,
+  email: Mail,
+  unknown: Zap,
+};
+
+// What the yes button does - anything else is a plain "Yes"
+const CONFIRM_LABELS: Partial<Record<PhoneAction['type'], string>> = {
+  message: "Send",
+  call: "Call",
+  email: "Send",
+};
+
+const ActionCard = ({ action, undone, onUndo, onOpen, onConfirm, onDecline }: ActionCardProps) => {
+  const { title, detail } = describePhoneAction(action);
+  const Icon = ACTION_ICONS[action.type];
+
+  return (
+    <div className="mt-2 p-2.5 rounded-xl bg-surface-2/50 pastel-border">
+      <div className="flex items-center gap-2.5">
+        <div className="w-7 h-7 rounded-lg bg-primary/12 flex items-center justify-center flex-shrink-0">
+          <Icon className="w-3.5 h-3.5 text-primary" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-medium text-foreground">{title}</p>
+          {detail && (
+            <p className={`text-[11px] text-muted-foreground truncate ${undone ? "line-through" : ""}`}>{detail}</p>
+          )}
+        </div>
+        {undone && <span className="text-[10px] text-muted-foreground">Cancelled</span>}
+      </div>
+
+      {!undone && (onConfirm || onDecline) && (
+        <div className="flex justify-end gap-2 mt-2">
+          {onDecline && (
+            <button
+              onClick={onDecline}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-95"
+            >
+              <X className="w-3 h-3" />
+              <span>No</span>
+            </button>
+          )}
+          {onConfirm && (
+            <button
+              onClick={onConfirm}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+            >
+              <Check className="w-3 h-3" />
+              <span>{CONFIRM_LABELS[action.type] ?? "Yes"}</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {!undone && (onUndo || onOpen) && (
+        <div className="flex justify-end gap-2 mt-2">
+          {onUndo && (
+            <button
+              onClick={onUndo}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-95"
+            >
+              <Undo2 className="w-3 h-3" />
+              <span>Undo</span>
+            </button>
+          )}
+          {onOpen && (
+            <button
+              onClick={onOpen}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+            >
+              <ExternalLink className="w-3 h-3" />
+              <span>Open</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActionCard;
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { AppWindow, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useAppRegistry, MAX_CUSTOM_APPS, type AppDraft } from "@/hooks/useAppRegistry";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import type { AppEntry } from "@/lib/commands/apps";
+import { toast } from "sonner";
+
+interface AppForm {
+  name: string;
+  aliases: string;
+  // An Android package ("com.netflix.mediaclient") or a link ("netflix://")
+  target: string;
+  webUrl: string;
+}
+
+const EMPTY_FORM: AppForm = { name: "", aliases: "", target: "", webUrl: "" };
+
+// Anything with a scheme is a link; a bare dotted name is a package
+const isLink = (target: string) => /^[a-z][a-z0-9+.-]*:/i.test(target);
+
+const toDraft = (form: AppForm): AppDraft => {
+  const target = form.target.trim();
+  const aliases = form.aliases.split(",").map((alias) => alias.trim()).filter(Boolean);
+  return {
+    name: form.name.trim(),
+    aliases: aliases.length > 0 ? aliases : [form.name.trim()],
+    packageName: target && !isLink(target) ? target : undefined,
+    uri: target && isLink(target) ? target : undefined,
+    webUrl: form.webUrl.trim() || undefined,
+  };
+};
+
+const toForm = (app: AppEntry): AppForm => ({
+  name: app.name,
+  aliases: app.aliases.join(", "),
+  target: app.uri ?? app.packageName ?? "",
+  webUrl: app.webUrl ?? "",
+});
+
+const AppsSection = () => {
+  const [form, setForm] = useState<AppForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { customApps, builtInApps, addApp, updateApp, removeApp } = useAppRegistry();
+  const { hapticImpact, hapticNotification } = useNativeCapabilities();
+
+  const setField = (field: keyof AppForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    if (!form.target.trim() && !form.webUrl.trim()) {
+      await hapticNotification('error');
+      toast.error("Add a package name, a link or a web address");
+      return;
+    }
+    if (form.webUrl.trim() && !/^https?:\/\//i.test(form.webUrl.trim())) {
+      await hapticNotification('error');
+      toast.error("The web address should start with https://");
+      return;
+    }
+
+    const draft = toDraft(form);
+    const result = editingId ? updateApp(editingId, draft) : addApp(draft);
+    if (result === 'duplicate') {
+      toast(`You already have an app called ${draft.name}`);
+    } else if (result === 'full') {
+      toast.error(`You can add up to ${MAX_CUSTOM_APPS} apps`);
+    } else if (result === 'failed') {
+      toast.error("Couldn't save on this device");
+    } else {
+      await hapticNotification('success');
+      resetForm();
+    }
+  };
+
+  const handleEdit = async (app: AppEntry) => {
+    await hapticImpact('light');
+    setForm(toForm(app));
+    setEditingId(app.id);
+  };
+
+  const handleRemove = async (app: AppEntry) => {
+    await hapticImpact('medium');
+    removeApp(app.id);
+    if (editingId === app.id) resetForm();
+  };
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Apps</h3>
+
+      <form onSubmit={handleSave} className="space-y-2 p-3 rounded-xl bg-surface-2/50 pastel-border">
+        <Input
+          value={form.name}
+          onChange={setField("name")}
+          placeholder="App name, e.g. Netflix"
+          className="h-9 rounded-xl"
+          aria-label="App name"
+        />
+        <Input
+          value={form.aliases}
+          onChange={setField("aliases")}
+          placeholder="Also called, e.g. netflix, movies"
+          className="h-9 rounded-xl"
+          aria-label="Spoken names, separated by commas"
+        />
+        <Input
+          value={form.target}
+          onChange={setField("target")}
+          placeholder="Android package or link, e.g. netflix://"
+          className="h-9 rounded-xl"
+          aria-label="Android package name or link"
+        />
+        <Input
+          value={form.webUrl}
+          onChange={setField("webUrl")}
+          placeholder="Web address, e.g. https://netflix.com"
+          className="h-9 rounded-xl"
+          aria-label="Web address"
+        />
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-95"
+            >
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+          )}
+          <button
+            type="submit"
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+          >
+            <Plus className="w-3 h-3" />
+            <span>{editingId ? "Save" : "Add"}</span>
+          </button>
+        </div>
+      </form>
+
+      {customApps.length > 0 && (
+        <ul className="space-y-2">
+          {customApps.map((app) => (
+            <li
+              key={app.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-xl bg-surface-2/50 pastel-border"
+            >
+              <div className="flex gap-2.5 min-w-0">
+                <AppWindow className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{app.name}</p>
+                  <p className="text-[11px] text-muted-foreground truncate">
+                    {app.aliases.map((alias) => `"${alias}"`).join(", ")}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => handleEdit(app)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                  aria-label={`Edit ${app.name}`}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleRemove(app)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                  aria-label={`Remove ${app.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-muted-foreground leading-relaxed">
+        Say "open" and a name. Jarvis already knows {builtInApps.map((app) => app.name).join(", ")}.
+      </p>
+    </section>
+  );
+};
+
+export default AppsSection;
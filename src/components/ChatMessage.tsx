@@ -1,17 +1,32 @@
-import { User, Sparkles } from "lucide-react";
+import { User, Sparkles, Square } from "lucide-react";
+import ActionCard from "./ActionCard";
+import type { PhoneAction } from "@/hooks/usePhoneActions";
 
 interface ChatMessageProps {
   role: "user" | "assistant";
   content: string;
+  stopped?: boolean;
+  // Phone actions this reply carried out, each shown as a card
+  actions?: ChatMessageAction[];
 }
 
-const ChatMessage = ({ role, content }: ChatMessageProps) => {
+export interface ChatMessageAction {
+  action: PhoneAction;
+  undone?: boolean;
+  onUndo?: () => void;
+  onOpen?: () => void;
+  // Answers to a read-back like "Send 'running late' to Alex?"
+  onConfirm?: () => void;
+  onDecline?: () => void;
+}
+
+const NUMBERED_LINE = /^\d+\.\s+/;
+
+const ChatMessage = ({ role, content, stopped, actions }: ChatMessageProps) => {
   const isUser = role === "user";
 
   // Simple markdown-like formatting for code blocks
-  const formatContent = (text: string) => {
-    if (!text) return "";
-    
+  const formatInline = (text: string) => {
     // Handle inline code
     return text.split('`').map((part, index) => {
       if (index % 2 === 1) {
@@ -28,6 +43,35 @@ const ChatMessage = ({ role, content }: ChatMessageProps) => {
     });
   };
 
+  // Consecutive "1. ..." lines (e.g. math steps) render as an ordered list
+  const formatContent = (text: string) => {
+    if (!text) return "";
+
+    const blocks: { list: boolean; lines: string[] }[] = [];
+    for (const line of text.split('\n')) {
+      const list = NUMBERED_LINE.test(line);
+      const last = blocks[blocks.length - 1];
+      if (last && last.list === list) {
+        last.lines.push(line);
+      } else {
+        blocks.push({ list, lines: [line] });
+      }
+    }
+
+    return blocks.map((block, index) => {
+      if (block.list) {
+        return (
+          <ol key={index} className="list-decimal pl-5 space-y-0.5 whitespace-normal">
+            {block.lines.map((line, i) => (
+              <li key={i}>{formatInline(line.replace(NUMBERED_LINE, ''))}</li>
+            ))}
+          </ol>
+        );
+      }
+      return <span key={index}>{formatInline(block.lines.join('\n'))}</span>;
+    });
+  };
+
   return (
     <div 
       className={`flex gap-2.5 fade-in ${isUser ? "flex-row-reverse" : ""}`}
@@ -57,9 +101,26 @@ const ChatMessage = ({ role, content }: ChatMessageProps) => {
             : "chat-bubble-assistant rounded-bl-md"
         }`}
       >
-        <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+        <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
           {formatContent(content)}
-        </p>
+        </div>
+        {actions?.map(({ action, undone, onUndo, onOpen, onConfirm, onDecline }, index) => (
+          <ActionCard
+            key={index}
+            action={action}
+            undone={undone}
+            onUndo={onUndo}
+            onOpen={onOpen}
+            onConfirm={onConfirm}
+            onDecline={onDecline}
+          />
+        ))}
+        {stopped && (
+          <div className="flex items-center gap-1 mt-1.5 text-[10px] text-muted-foreground">
+            <Square className="w-2.5 h-2.5 fill-current" />
+            <span>Stopped</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Globe, Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useFavoriteCities, MAX_FAVORITE_CITIES } from "@/hooks/useFavoriteCities";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { resolvePlace } from "@/lib/ai/worldClock";
+import { toast } from "sonner";
+
+const formatCityTime = (timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, { timeZone, weekday: "short", hour: "numeric", minute: "2-digit" }).format(new Date());
+
+const FavoriteCitiesSection = () => {
+  const [query, setQuery] = useState("");
+  const { cities, addCity, removeCity } = useFavoriteCities();
+  const { hapticImpact, hapticNotification } = useNativeCapabilities();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    const place = resolvePlace(query);
+    if (!place) {
+      await hapticNotification('error');
+      toast.error(`Couldn't find a time zone for "${query.trim()}"`);
+      return;
+    }
+
+    const result = addCity(place);
+    if (result === 'duplicate') {
+      toast(`${place.name} is already in your world clock`);
+    } else if (result === 'full') {
+      toast.error(`You can keep up to ${MAX_FAVORITE_CITIES} cities`);
+    } else if (result === 'failed') {
+      toast.error("Couldn't save on this device");
+    } else {
+      await hapticNotification('success');
+      setQuery("");
+    }
+  };
+
+  const handleRemove = async (name: string) => {
+    await hapticImpact('medium');
+    removeCity(name);
+  };
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">World clock</h3>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Add a city, e.g. Tokyo"
+          className="h-9 rounded-xl"
+          aria-label="City to add"
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-1.5 px-2.5 rounded-xl text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Add</span>
+        </button>
+      </form>
+
+      {cities.length === 0 ? (
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          Saved cities show up when you ask "what time is it in my cities".
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {cities.map((city) => (
+            <li
+              key={city.name}
+              className="flex items-center justify-between gap-3 p-3 rounded-xl bg-surface-2/50 pastel-border"
+            >
+              <div className="flex gap-2.5 min-w-0">
+                <Globe className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{city.name}</p>
+                  <p className="text-[11px] text-muted-foreground truncate">{formatCityTime(city.timeZone)}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRemove(city.name)}
+                className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                aria-label={`Remove ${city.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default FavoriteCitiesSection;
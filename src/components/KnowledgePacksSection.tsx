@@ -0,0 +1,103 @@
+import { useRef } from "react";
+import { BookOpen, Upload, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { useKnowledgePacks } from "@/hooks/useKnowledgePacks";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { toast } from "sonner";
+
+const KnowledgePacksSection = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { packs, importPack, setPackEnabled, removePack } = useKnowledgePacks();
+  const { hapticImpact, hapticNotification } = useNativeCapabilities();
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    const result = await importPack(file);
+    if (result.ok === false) {
+      await hapticNotification('error');
+      toast.error("Couldn't import knowledge pack", {
+        description: result.errors.slice(0, 3).join("\n") +
+          (result.errors.length > 3 ? `\n…and ${result.errors.length - 3} more` : ""),
+      });
+      return;
+    }
+
+    await hapticNotification('success');
+    toast.success(`${result.replaced ? "Updated" : "Imported"} "${result.pack.name}"`);
+  };
+
+  const handleRemove = async (id: string, name: string) => {
+    await hapticImpact('medium');
+    removePack(id);
+    toast.success(`Removed "${name}"`);
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Knowledge packs</h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+        >
+          <Upload className="w-3 h-3" />
+          <span>Import</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileSelected}
+          aria-label="Import knowledge pack file"
+        />
+      </div>
+
+      {packs.length === 0 ? (
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          Import a knowledge pack (.json) to teach the offline engine new topics.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {packs.map(({ pack, enabled }) => (
+            <li
+              key={pack.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-xl bg-surface-2/50 pastel-border"
+            >
+              <div className="flex gap-2.5 min-w-0">
+                <BookOpen className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{pack.name}</p>
+                  <p className="text-[11px] text-muted-foreground truncate">
+                    {pack.intents.length} topics • {pack.locale}
+                    {pack.metadata.packVersion && ` • v${pack.metadata.packVersion}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Switch
+                  checked={enabled}
+                  onCheckedChange={(checked) => setPackEnabled(pack.id, checked)}
+                  aria-label={`${enabled ? "Disable" : "Enable"} ${pack.name}`}
+                />
+                <button
+                  onClick={() => handleRemove(pack.id, pack.name)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                  aria-label={`Remove ${pack.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default KnowledgePacksSection;
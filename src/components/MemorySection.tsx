@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Brain, Check, Pencil, Trash2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { usePersonalMemory } from "@/hooks/usePersonalMemory";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { describeFact, type MemoryFact } from "@/lib/ai/personalMemory";
+import { toast } from "sonner";
+
+interface Draft {
+  id: string;
+  subject: string;
+  value: string;
+}
+
+const MemorySection = () => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const { facts, updateFact, removeFact, clearFacts } = usePersonalMemory();
+  const { hapticImpact, hapticNotification } = useNativeCapabilities();
+
+  const startEditing = (fact: MemoryFact) => {
+    setDraft({ id: fact.id, subject: fact.subject, value: fact.value });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.subject.trim()) {
+      await hapticNotification('error');
+      toast.error("A memory needs something to remember");
+      return;
+    }
+
+    updateFact(draft.id, { subject: draft.subject.trim(), value: draft.value.trim() });
+    await hapticNotification('success');
+    setDraft(null);
+  };
+
+  const handleRemove = async (id: string) => {
+    await hapticImpact('medium');
+    removeFact(id);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const handleClear = async () => {
+    await hapticImpact('heavy');
+    clearFacts();
+    setDraft(null);
+    toast("Jarvis forgot everything you told it");
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Memory</h3>
+        {facts.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="text-xs text-destructive hover:underline transition-all active:scale-95"
+          >
+            Forget all
+          </button>
+        )}
+      </div>
+
+      {facts.length === 0 ? (
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          Say "remember that my sister's birthday is June 3" and Jarvis will keep it here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {facts.map((fact) =>
+            draft?.id === fact.id ? (
+              <li key={fact.id} className="p-3 rounded-xl bg-surface-2/50 pastel-border">
+                <form onSubmit={handleSave} className="space-y-2">
+                  <Input
+                    value={draft.subject}
+                    onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                    placeholder="What it's about"
+                    className="h-9 rounded-xl"
+                    aria-label="Memory subject"
+                  />
+                  <Input
+                    value={draft.value}
+                    onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                    placeholder="Value (optional)"
+                    className="h-9 rounded-xl"
+                    aria-label="Memory value"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(null)}
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-95"
+                    >
+                      <X className="w-3 h-3" />
+                      <span>Cancel</span>
+                    </button>
+                    <button
+                      type="submit"
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+                    >
+                      <Check className="w-3 h-3" />
+                      <span>Save</span>
+                    </button>
+                  </div>
+                </form>
+              </li>
+            ) : (
+              <li
+                key={fact.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-xl bg-surface-2/50 pastel-border"
+              >
+                <div className="flex gap-2.5 min-w-0">
+                  <Brain className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                  <p className="text-sm text-foreground break-words min-w-0">{describeFact(fact)}</p>
+                </div>
+                <div className="flex flex-shrink-0">
+                  <button
+                    onClick={() => startEditing(fact)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                    aria-label="Edit memory"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(fact.id)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                    aria-label="Delete memory"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default MemorySection;
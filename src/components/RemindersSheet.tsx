@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { AlarmClock, Bell, Check, Pause, Pencil, Play, Timer, Trash2, X } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
+import { useScheduledItems, type ScheduledItemChanges } from "@/hooks/useScheduledItems";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { upcomingItems, type ScheduledItem, type ScheduledKind } from "@/lib/ai/scheduledItems";
+import { describeRecurrence, type Recurrence } from "@/lib/ai/recurrence";
+import { describeReminderTime } from "@/lib/ai/reminderTime";
+import { toast } from "sonner";
+
+const KIND_ICONS: Record<ScheduledKind, typeof Bell> = {
+  timer: Timer,
+  alarm: AlarmClock,
+  reminder: Bell,
+};
+
+const KIND_NAMES: Record<ScheduledKind, string> = {
+  timer: "Timer",
+  alarm: "Alarm",
+  reminder: "Reminder",
+};
+
+const DAY_LETTERS = ["S", "M", "T", "W", "T", "F", "S"];
+const DAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface Draft {
+  id: number;
+  label: string;
+  // "HH:MM" for weekly repeats, "YYYY-MM-DDTHH:MM" for one-offs
+  time: string;
+  weekdays: number[];
+  interval: string;
+  intervalUnit: "minutes" | "hours";
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toTimeInput = (hour: number, minute: number) => `${pad(hour)}:${pad(minute)}`;
+
+const toDateTimeInput = (at: number) => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${toTimeInput(date.getHours(), date.getMinutes())}`;
+};
+
+const draftFor = (item: ScheduledItem): Draft => {
+  const { recurrence } = item;
+  const hours = recurrence?.kind === "interval" && recurrence.seconds % 3600 === 0;
+  return {
+    id: item.id,
+    label: item.label,
+    time: recurrence?.kind === "weekly"
+      ? toTimeInput(recurrence.hour, recurrence.minute)
+      : toDateTimeInput(item.at),
+    weekdays: recurrence?.kind === "weekly" ? recurrence.weekdays : [],
+    interval: recurrence?.kind === "interval" ? String(recurrence.seconds / (hours ? 3600 : 60)) : "",
+    intervalUnit: hours ? "hours" : "minutes",
+  };
+};
+
+// Turns the form back into changes - a string is a validation error
+const changesFor = (item: ScheduledItem, draft: Draft): ScheduledItemChanges | string => {
+  const label = draft.label.trim();
+  if (item.kind === "reminder" && !label) return "A reminder needs something to remind you about";
+
+  if (item.recurrence?.kind === "interval") {
+    const amount = Number(draft.interval);
+    if (!Number.isFinite(amount) || amount <= 0) return "Pick how often it should repeat";
+    const seconds = Math.round(amount * (draft.intervalUnit === "hours" ? 3600 : 60));
+    if (seconds < 60) return "Repeats can't be more often than once a minute";
+    return { label, recurrence: { kind: "interval", seconds } };
+  }
+
+  if (item.recurrence?.kind === "weekly") {
+    const [hour, minute] = draft.time.split(":").map(Number);
+    if (draft.weekdays.length === 0) return "Pick at least one day";
+    if (!Number.isInteger(hour) || !Number.isInteger(minute)) return "Pick a time";
+    const recurrence: Recurrence = { kind: "weekly", weekdays: [...draft.weekdays].sort(), hour, minute };
+    return { label, recurrence };
+  }
+
+  const at = new Date(draft.time);
+  if (Number.isNaN(at.getTime())) return "Pick a time";
+  if (at.getTime() <= Date.now()) return "That time has already passed";
+  return { label, at };
+};
+
+const describeSchedule = (item: ScheduledItem) =>
+  item.recurrence ? describeRecurrence(item.recurrence) : describeReminderTime(new Date(item.at));
+
+const ScheduledItemsList = () => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const { items, cancel, update, setPaused } = useScheduledItems();
+  const { hapticImpact, hapticNotification } = useNativeCapabilities();
+  const pending = upcomingItems(items);
+
+  const handleSave = async (e: React.FormEvent, item: ScheduledItem) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const changes = changesFor(item, draft);
+    if (typeof changes === "string") {
+      await hapticNotification("error");
+      toast.error(changes);
+      return;
+    }
+
+    if (!(await update(item.id, changes))) {
+      toast.error("Couldn't save that change");
+      return;
+    }
+    await hapticNotification("success");
+    setDraft(null);
+  };
+
+  const handleTogglePaused = async (item: ScheduledItem) => {
+    await hapticImpact("light");
+    await setPaused(item.id, !item.paused);
+  };
+
+  const handleRemove = async (item: ScheduledItem) => {
+    await hapticImpact("medium");
+    await cancel(item.id);
+    if (draft?.id === item.id) setDraft(null);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!draft) return;
+    const weekdays = draft.weekdays.includes(day)
+      ? draft.weekdays.filter((d) => d !== day)
+      : [...draft.weekdays, day];
+    setDraft({ ...draft, weekdays });
+  };
+
+  if (pending.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground leading-relaxed">
+        Nothing scheduled. Try "every weekday at 8 take vitamins" or "set an alarm for Mondays at 6:30".
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {pending.map((item) => {
+        const Icon = KIND_ICONS[item.kind];
+
+        if (draft?.id === item.id) {
+          return (
+            <li key={item.id} className="p-3 rounded-xl bg-surface-2/50 pastel-border">
+              <form onSubmit={(e) => handleSave(e, item)} className="space-y-2">
+                <Input
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder={item.kind === "reminder" ? "What to remind you about" : "Name (optional)"}
+                  className="h-9 rounded-xl"
+                  aria-label="Label"
+                />
+
+                {item.recurrence?.kind === "interval" ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Every</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draft.interval}
+                      onChange={(e) => setDraft({ ...draft, interval: e.target.value })}
+                      className="h-9 w-20 rounded-xl"
+                      aria-label="Repeat every"
+                    />
+                    {(["minutes", "hours"] as const).map((unit) => (
+                      <button
+                        key={unit}
+                        type="button"
+                        onClick={() => setDraft({ ...draft, intervalUnit: unit })}
+                        className={`px-2.5 py-1.5 rounded-xl text-xs transition-all active:scale-95 ${
+                          draft.intervalUnit === unit ? "text-primary bg-primary/10" : "text-muted-foreground hover:bg-surface-2/80"
+                        }`}
+                      >
+                        {unit}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <Input
+                    type={item.recurrence ? "time" : "datetime-local"}
+                    value={draft.time}
+                    onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+                    className="h-9 rounded-xl"
+                    aria-label="Time"
+                  />
+                )}
+
+                {item.recurrence?.kind === "weekly" && (
+                  <div className="flex justify-between gap-1">
+                    {DAY_LETTERS.map((letter, day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`w-8 h-8 rounded-full text-xs transition-all active:scale-90 ${
+                          draft.weekdays.includes(day) ? "text-primary bg-primary/10 font-medium" : "text-muted-foreground hover:bg-surface-2/80"
+                        }`}
+                        aria-label={DAY_LABELS[day]}
+                        aria-pressed={draft.weekdays.includes(day)}
+                      >
+                        {letter}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-95"
+                  >
+                    <X className="w-3 h-3" />
+                    <span>Cancel</span>
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-xs text-primary bg-primary/10 hover:bg-primary/15 transition-all active:scale-95"
+                  >
+                    <Check className="w-3 h-3" />
+                    <span>Save</span>
+                  </button>
+                </div>
+              </form>
+            </li>
+          );
+        }
+
+        return (
+          <li
+            key={item.id}
+            className={`flex items-center justify-between gap-3 p-3 rounded-xl bg-surface-2/50 pastel-border ${item.paused ? "opacity-60" : ""}`}
+          >
+            <div className="flex gap-2.5 min-w-0">
+              <Icon className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm text-foreground break-words">{item.label || KIND_NAMES[item.kind]}</p>
+                <p className="text-xs text-muted-foreground">
+                  {item.paused ? `Paused · ${describeSchedule(item)}` : describeSchedule(item)}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-shrink-0">
+              {item.recurrence && (
+                <button
+                  onClick={() => handleTogglePaused(item)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                  aria-label={item.paused ? "Resume" : "Pause"}
+                >
+                  {item.paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+                </button>
+              )}
+              {item.kind !== "timer" && (
+                <button
+                  onClick={() => setDraft(draftFor(item))}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                  aria-label="Edit"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <button
+                onClick={() => handleRemove(item)}
+                className="p-1.5 rounded-lg text-muted-foreground hover:bg-surface-2/80 transition-all active:scale-90"
+                aria-label="Delete"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+const RemindersSheet = () => (
+  <Sheet>
+    <SheetTrigger asChild>
+      <button
+        className="p-2 rounded-xl hover:bg-surface-2/80 text-muted-foreground transition-all active:scale-90"
+        aria-label="Open reminders"
+      >
+        <Bell className="w-4 h-4" />
+      </button>
+    </SheetTrigger>
+    <SheetContent side="right" className="overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle>Reminders</SheetTitle>
+        <SheetDescription>Timers, alarms and reminders Jarvis set for you.</SheetDescription>
+      </SheetHeader>
+
+      {/* Mounted only while open, so the list is fresh every time */}
+      <div className="mt-6">
+        <ScheduledItemsList />
+      </div>
+    </SheetContent>
+  </Sheet>
+);
+
+export default RemindersSheet;
@@ -0,0 +1,161 @@
+import { Settings, Cloud, Shield, Calculator, Brain, Music } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import KnowledgePacksSection from "@/components/KnowledgePacksSection";
+import FavoriteCitiesSection from "@/components/FavoriteCitiesSection";
+import MemorySection from "@/components/MemorySection";
+import AppsSection from "@/components/AppsSection";
+import { useAssistantSettings } from "@/hooks/useAssistantSettings";
+import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { MUSIC_PROVIDERS, type MusicProviderId } from "@/lib/commands/music";
+
+const SettingsSheet = () => {
+  const { settings, updateSetting } = useAssistantSettings();
+  const { hapticImpact } = useNativeCapabilities();
+
+  const handleCloudToggle = async (enabled: boolean) => {
+    await hapticImpact('light');
+    updateSetting('cloudFallbackEnabled', enabled);
+  };
+
+  const handleShareMemoriesToggle = async (enabled: boolean) => {
+    await hapticImpact('light');
+    updateSetting('shareMemoriesWithCloud', enabled);
+  };
+
+  const handleMathStepsToggle = async (enabled: boolean) => {
+    await hapticImpact('light');
+    updateSetting('showMathSteps', enabled);
+  };
+
+  const handleMusicProviderChange = async (provider: string) => {
+    await hapticImpact('light');
+    updateSetting('musicProvider', provider as MusicProviderId);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          className="p-2 rounded-xl hover:bg-surface-2/80 text-muted-foreground transition-all active:scale-90"
+          aria-label="Open settings"
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+      </SheetTrigger>
+      <SheetContent side="right" className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Settings</SheetTitle>
+          <SheetDescription>Everything here is stored on this device.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {/* AI providers */}
+          <section className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Answers</h3>
+            <div className="flex items-start justify-between gap-4 p-3 rounded-xl bg-surface-2/50 pastel-border">
+              <div className="flex gap-2.5">
+                <Cloud className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">Cloud fallback</p>
+                  <p className="text-xs text-muted-foreground leading-relaxed">
+                    When the offline engine doesn't know an answer, send that question to Jarvis Cloud.
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={settings.cloudFallbackEnabled}
+                onCheckedChange={handleCloudToggle}
+                aria-label="Enable cloud fallback"
+              />
+            </div>
+            {settings.cloudFallbackEnabled && (
+              <div className="flex items-start justify-between gap-4 p-3 rounded-xl bg-surface-2/50 pastel-border">
+                <div className="flex gap-2.5">
+                  <Brain className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-foreground">Share memories with Jarvis Cloud</p>
+                    <p className="text-xs text-muted-foreground leading-relaxed">
+                      Send things you asked Jarvis to remember along with cloud questions they relate to.
+                    </p>
+                  </div>
+                </div>
+                <Switch
+                  checked={settings.shareMemoriesWithCloud}
+                  onCheckedChange={handleShareMemoriesToggle}
+                  aria-label="Share memories with Jarvis Cloud"
+                />
+              </div>
+            )}
+            {!settings.cloudFallbackEnabled && (
+              <div className="flex items-center gap-1.5 text-xs text-green-500">
+                <Shield className="w-3 h-3" />
+                <span>Nothing leaves your device</span>
+              </div>
+            )}
+            <div className="flex items-start justify-between gap-4 p-3 rounded-xl bg-surface-2/50 pastel-border">
+              <div className="flex gap-2.5">
+                <Calculator className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">Show math steps</p>
+                  <p className="text-xs text-muted-foreground leading-relaxed">
+                    Explain every calculation step by step. You can also just ask to "show your work".
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={settings.showMathSteps}
+                onCheckedChange={handleMathStepsToggle}
+                aria-label="Show math steps"
+              />
+            </div>
+          </section>
+
+          {/* Music */}
+          <section className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Music</h3>
+            <div className="flex items-start justify-between gap-4 p-3 rounded-xl bg-surface-2/50 pastel-border">
+              <div className="flex gap-2.5">
+                <Music className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">Play music on</p>
+                  <p className="text-xs text-muted-foreground leading-relaxed">
+                    Used when you don't name one, like "play some jazz". Say "on YouTube" to pick another.
+                  </p>
+                </div>
+              </div>
+              <Select value={settings.musicProvider} onValueChange={handleMusicProviderChange}>
+                <SelectTrigger className="w-36 h-9 rounded-xl" aria-label="Default music service">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MUSIC_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </section>
+
+          <MemorySection />
+
+          <FavoriteCitiesSection />
+
+          <AppsSection />
+
+          <KnowledgePacksSection />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SettingsSheet;
@@ -1,24 +1,58 @@
 import { useState, useRef, useEffect } from "react";
 import ChatMessage from "./ChatMessage";
 import ChatInput from "./ChatInput";
-import { Sparkles, Shield, Trash2 } from "lucide-react";
-import { useLocalAI } from "@/hooks/useLocalAI";
+import { Sparkles, Shield, Trash2, Square } from "lucide-react";
+import { useSkills } from "@/hooks/useSkills";
+import { usePhoneActions, type PhoneAction } from "@/hooks/usePhoneActions";
 import { useLocalConversationHistory } from "@/hooks/useLocalConversationHistory";
 import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
+import { isAbortError } from "@/lib/ai/abort";
+import type { ActionConfirmation, SkillResult } from "@/lib/skills/types";
 import { toast } from "sonner";
 
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
+  stopped?: boolean;
+  actions?: MessageAction[];
 }
 
-const TextMode = () => {
+interface MessageAction {
+  action: PhoneAction;
+  // Only set while the action can still be taken back
+  undo?: () => Promise<string>;
+  undone?: boolean;
+  // Only set while the action is waiting on a yes or no
+  confirm?: ActionConfirmation;
+}
+
+// Every phone action a result carried out - several for multi-command utterances
+const actionsFrom = (result: SkillResult): MessageAction[] => {
+  switch (result.kind) {
+    case 'action':
+      return [{ action: result.action, undo: result.undo, confirm: result.confirm }];
+    case 'multi':
+      return result.parts.flatMap(actionsFrom);
+    default:
+      return [];
+  }
+};
+
+interface TextModeProps {
+  // Sent as soon as the conversation is ready - e.g. a notification reply
+  pendingMessage?: string | null;
+  onPendingMessageSent?: () => void;
+}
+
+const TextMode = ({ pendingMessage, onPendingMessageSent }: TextModeProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const { streamResponse } = useLocalAI();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { dispatch } = useSkills();
+  const { openActionTarget, canOpenActionTarget } = usePhoneActions();
   const { addMessage, clearHistory, messages: storedMessages, isLoading: historyLoading } = useLocalConversationHistory();
   const { hapticImpact, hapticNotification } = useNativeCapabilities();
 
@@ -29,6 +63,7 @@ const TextMode = () => {
         id: `stored-${i}`,
         role: m.role,
         content: m.content,
+        stopped: m.stopped,
       })));
     }
   }, [historyLoading, storedMessages]);
@@ -46,6 +81,16 @@ const TextMode = () => {
     scrollToBottom();
   }, [messages]);
 
+  // Abort any in-flight generation when leaving text mode
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleStop = async () => {
+    await hapticImpact('light');
+    abortControllerRef.current?.abort();
+  };
+
   const handleClearHistory = async () => {
     await hapticImpact('medium');
     clearHistory();
@@ -53,6 +98,46 @@ const TextMode = () => {
     toast.success("Conversation cleared");
   };
 
+  const handleUndoAction = async (message: Message, index: number) => {
+    const undo = message.actions?.[index]?.undo;
+    if (!undo) return;
+    await hapticImpact('medium');
+    const response = await undo();
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === message.id
+          ? { ...m, actions: m.actions?.map((a, i) => (i === index ? { ...a, undo: undefined, undone: true } : a)) }
+          : m
+      )
+    );
+    toast(response);
+  };
+
+  const handleConfirmAction = async (message: Message, index: number, accepted: boolean) => {
+    const confirm = message.actions?.[index]?.confirm;
+    if (!confirm) return;
+    await hapticImpact(accepted ? 'light' : 'medium');
+    // Settle the card first so a double tap can't answer twice
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === message.id
+          ? { ...m, actions: m.actions?.map((a, i) => (i === index ? { ...a, confirm: undefined, undone: !accepted } : a)) }
+          : m
+      )
+    );
+    toast(await (accepted ? confirm.accept() : confirm.decline()));
+  };
+
+  const handleOpenAction = async (action: PhoneAction) => {
+    await hapticImpact('light');
+    if (!(await openActionTarget(action))) {
+      toast.error("Couldn't open that on this device");
+    }
+  };
+
+  const openHandlerFor = (action: PhoneAction) =>
+    canOpenActionTarget(action) ? () => handleOpenAction(action) : undefined;
+
   const handleSend = async (content: string) => {
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -63,6 +148,8 @@ const TextMode = () => {
     addMessage({ role: 'user', content });
 
     setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     let assistantContent = "";
     const assistantId = (Date.now() + 1).toString();
 
@@ -77,25 +164,69 @@ const TextMode = () => {
       content: m.content,
     }));
 
-    await streamResponse(
-      content,
-      conversationContext as any,
-      (chunk) => {
-        assistantContent += chunk;
+    try {
+      const dispatched = await dispatch(content, {
+        isVoiceMode: false,
+        history: conversationContext,
+        signal: controller.signal,
+        onChunk: (chunk) => {
+          assistantContent += chunk;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === assistantId ? { ...m, content: assistantContent } : m
+            )
+          );
+        },
+      });
+      const actions = dispatched ? actionsFrom(dispatched.result) : [];
+      if (actions.length > 0) {
         setMessages((prev) =>
           prev.map((m) =>
-            m.id === assistantId ? { ...m, content: assistantContent } : m
+            m.id === assistantId ? { ...m, actions } : m
           )
         );
-      },
-      async () => {
-        setIsLoading(false);
-        addMessage({ role: 'assistant', content: assistantContent });
-        await hapticNotification('success');
       }
-    );
+    } catch (error) {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      if (isAbortError(error)) {
+        // Keep whatever was generated so far, marked as stopped
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === assistantId ? { ...m, content: assistantContent, stopped: true } : m
+          )
+        );
+        addMessage({ role: 'assistant', content: assistantContent, stopped: true });
+        return;
+      }
+      console.error("Skill failed:", error);
+      assistantContent = "I had a small hiccup, but I'm here! Try again?";
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === assistantId ? { ...m, content: assistantContent } : m
+        )
+      );
+      addMessage({ role: 'assistant', content: assistantContent });
+      await hapticNotification('error');
+      return;
+    }
+
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    addMessage({ role: 'assistant', content: assistantContent });
+    await hapticNotification('success');
   };
 
+  // handleSend closes over the latest messages - keep the effect pointed at it
+  const handleSendRef = useRef(handleSend);
+  handleSendRef.current = handleSend;
+
+  useEffect(() => {
+    if (!pendingMessage || historyLoading || isLoading) return;
+    onPendingMessageSent?.();
+    handleSendRef.current(pendingMessage);
+  }, [pendingMessage, historyLoading, isLoading, onPendingMessageSent]);
+
   return (
     <div className="flex flex-col h-full slide-up">
       {/* Header */}
@@ -112,7 +243,16 @@ const TextMode = () => {
             </div>
           </div>
         </div>
-        {messages.length > 0 && (
+        {isLoading ? (
+          <button
+            onClick={handleStop}
+            className="p-2 rounded-xl bg-destructive/15 text-destructive hover:bg-destructive/25 transition-all active:scale-90"
+            title="Stop generating"
+            aria-label="Stop generating"
+          >
+            <Square className="w-4 h-4 fill-current" />
+          </button>
+        ) : messages.length > 0 && (
           <button
             onClick={handleClearHistory}
             className="p-2 rounded-xl hover:bg-surface-2/80 text-muted-foreground transition-all active:scale-90"
@@ -152,6 +292,15 @@ const TextMode = () => {
                 key={message.id}
                 role={message.role}
                 content={message.content}
+                stopped={message.stopped}
+                actions={message.actions?.map(({ action, undo, undone, confirm }, index) => ({
+                  action,
+                  undone,
+                  onUndo: undo ? () => handleUndoAction(message, index) : undefined,
+                  onOpen: confirm ? undefined : openHandlerFor(action),
+                  onConfirm: confirm ? () => handleConfirmAction(message, index, true) : undefined,
+                  onDecline: confirm ? () => handleConfirmAction(message, index, false) : undefined,
+                }))}
               />
             ))}
             {isLoading && messages[messages.length - 1]?.content === "" && (
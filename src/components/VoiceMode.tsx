@@ -3,11 +3,12 @@ import BaymaxFace from "./BaymaxFace";
 import { Volume2, VolumeX, Square, Mic, Bell, Trash2, Shield, ChevronRight } from "lucide-react";
 import { useVoiceRecognition } from "@/hooks/useVoiceRecognition";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
-import { usePhoneActions } from "@/hooks/usePhoneActions";
 import { useNativeCapabilities } from "@/hooks/useNativeCapabilities";
 import { useLocalConversationHistory } from "@/hooks/useLocalConversationHistory";
-import { useLocalAI } from "@/hooks/useLocalAI";
+import { useSkills } from "@/hooks/useSkills";
 import { useAndroidPermissions } from "@/hooks/useAndroidPermissions";
+import { isAbortError } from "@/lib/ai/abort";
+import { NOTIFICATION_ACTION_TYPES } from "@/lib/notificationActions";
 import { toast } from "sonner";
 
 type FaceState = "idle" | "listening" | "thinking" | "speaking" | "error";
@@ -22,16 +23,16 @@ const VoiceMode = () => {
   const [isMuted, setIsMuted] = useState(false);
   const [lastResponse, setLastResponse] = useState<string>("");
   const processingRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const { speak, stop: stopSpeaking, isSpeaking, isSupported: ttsSupported, voicesLoaded } = useTextToSpeech({
     rate: 1.0,
     pitch: 1.0,
   });
 
-  const { checkAndExecute } = usePhoneActions();
   const { hapticImpact, hapticNotification, showNotification, isNative } = useNativeCapabilities();
   const { messages, addMessage, getMessagesForContext, clearHistory, isLoading: historyLoading } = useLocalConversationHistory();
-  const { processMessage } = useLocalAI();
+  const { dispatch } = useSkills();
   const { 
     permissions, 
     hasRequiredPermissions, 
@@ -65,6 +66,8 @@ const VoiceMode = () => {
   const stopEverything = useCallback(() => {
     console.log("Stopping everything");
     stopSpeaking();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     processingRef.current = false;
     setVoiceState("idle");
   }, [stopSpeaking]);
@@ -98,33 +101,38 @@ const VoiceMode = () => {
     // Save user message locally
     addMessage({ role: 'user', content: transcript });
 
-    // Check for phone actions first
-    const phoneAction = await checkAndExecute(transcript);
-    if (phoneAction.handled) {
-      setLastResponse(phoneAction.response);
-      addMessage({ role: 'assistant', content: phoneAction.response });
-      processingRef.current = false;
-      await speakResponse(phoneAction.response);
-      return;
-    }
-
     try {
-      // Use LOCAL AI - no network calls
+      // The best-scoring skill answers - phone actions, then the local engine
       const conversationContext = getMessagesForContext(10);
-      const response = await processMessage(transcript, conversationContext as any);
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const dispatched = await dispatch(transcript, {
+        isVoiceMode: true,
+        history: conversationContext,
+        signal: controller.signal,
+      });
+      abortControllerRef.current = null;
+      const response = dispatched?.result.text || "I'm not sure how to help with that yet.";
       
       setLastResponse(response);
       addMessage({ role: 'assistant', content: response });
       
-      await hapticNotification('success');
-      if (isNative) {
-        await showNotification('Jarvis', response.substring(0, 100));
+      // Phone actions give their own feedback
+      if (dispatched?.result.kind !== 'action' && dispatched?.result.kind !== 'multi') {
+        await hapticNotification('success');
+        if (isNative) {
+          await showNotification('Jarvis', response.substring(0, 100), undefined, {
+            actionTypeId: NOTIFICATION_ACTION_TYPES.reply,
+          });
+        }
       }
       
       processingRef.current = false;
       await speakResponse(response);
       
     } catch (error) {
+      // User pressed stop - stopEverything already reset the state
+      if (isAbortError(error)) return;
       console.error("Local AI error:", error);
       await hapticNotification('error');
       const fallbackResponse = "I had a small hiccup, but I'm here! Try again?";
@@ -133,7 +141,7 @@ const VoiceMode = () => {
       processingRef.current = false;
       await speakResponse(fallbackResponse);
     }
-  }, [checkAndExecute, speakResponse, hapticImpact, hapticNotification, showNotification, isNative, addMessage, getMessagesForContext, processMessage]);
+  }, [dispatch, speakResponse, hapticImpact, hapticNotification, showNotification, isNative, addMessage, getMessagesForContext]);
 
   const { 
     isListening, 
@@ -0,0 +1,97 @@
+/**
+ * App registry - the built-in apps plus any the user has added, stored
+ * locally in localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import { BUILT_IN_APPS, type AppEntry } from '@/lib/commands/apps';
+
+export const MAX_CUSTOM_APPS = 50;
+
+const STORAGE_KEY = 'jarvis_app_registry';
+
+export type AppDraft = Omit<AppEntry, 'id' | 'custom'>;
+
+export const getCustomApps = (): AppEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomApps = (apps: AppEntry[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(apps));
+    return true;
+  } catch (e) {
+    console.error('Failed to save apps locally:', e);
+    return false;
+  }
+};
+
+// Read synchronously so command parsing can check app names.
+// Custom apps come first so they win ties with a built-in alias.
+export const getAppRegistry = (): AppEntry[] => [...getCustomApps(), ...BUILT_IN_APPS];
+
+const toEntry = (id: string, draft: AppDraft): AppEntry => ({
+  id,
+  name: draft.name.trim(),
+  aliases: draft.aliases.map(alias => alias.trim().toLowerCase()).filter(Boolean),
+  packageName: draft.packageName?.trim() || undefined,
+  uri: draft.uri?.trim() || undefined,
+  webUrl: draft.webUrl?.trim() || undefined,
+  custom: true,
+});
+
+export type SaveAppResult = 'saved' | 'duplicate' | 'full' | 'failed';
+
+export const addCustomApp = (draft: AppDraft): SaveAppResult => {
+  const apps = getCustomApps();
+  const name = draft.name.trim().toLowerCase();
+  if (apps.some(app => app.name.toLowerCase() === name)) return 'duplicate';
+  if (apps.length >= MAX_CUSTOM_APPS) return 'full';
+  const entry = toEntry(`custom-${Date.now().toString(36)}`, draft);
+  return saveCustomApps([...apps, entry]) ? 'saved' : 'failed';
+};
+
+export const updateCustomApp = (id: string, draft: AppDraft): SaveAppResult => {
+  const apps = getCustomApps();
+  const name = draft.name.trim().toLowerCase();
+  if (apps.some(app => app.id !== id && app.name.toLowerCase() === name)) return 'duplicate';
+  const updated = apps.map(app => app.id === id ? toEntry(id, draft) : app);
+  return saveCustomApps(updated) ? 'saved' : 'failed';
+};
+
+export const removeCustomApp = (id: string): boolean =>
+  saveCustomApps(getCustomApps().filter(app => app.id !== id));
+
+export const useAppRegistry = () => {
+  const [customApps, setCustomApps] = useState<AppEntry[]>(getCustomApps);
+
+  const addApp = useCallback((draft: AppDraft): SaveAppResult => {
+    const result = addCustomApp(draft);
+    setCustomApps(getCustomApps());
+    return result;
+  }, []);
+
+  const updateApp = useCallback((id: string, draft: AppDraft): SaveAppResult => {
+    const result = updateCustomApp(id, draft);
+    setCustomApps(getCustomApps());
+    return result;
+  }, []);
+
+  const removeApp = useCallback((id: string) => {
+    removeCustomApp(id);
+    setCustomApps(getCustomApps());
+  }, []);
+
+  return {
+    customApps,
+    builtInApps: BUILT_IN_APPS,
+    addApp,
+    updateApp,
+    removeApp,
+  };
+};
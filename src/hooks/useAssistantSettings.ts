@@ -0,0 +1,61 @@
+/**
+ * Assistant settings - stored locally in localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import { DEFAULT_MUSIC_PROVIDER, type MusicProviderId } from '@/lib/commands/music';
+
+export interface AssistantSettings {
+  // Escalate low-confidence questions to the cloud chat function
+  cloudFallbackEnabled: boolean;
+  // Always show the working for calculations, not only when asked
+  showMathSteps: boolean;
+  // Send remembered facts that match the question along with cloud requests
+  shareMemoriesWithCloud: boolean;
+  // Where "play ..." goes when no service is named
+  musicProvider: MusicProviderId;
+}
+
+const STORAGE_KEY = 'jarvis_assistant_settings';
+
+const DEFAULT_SETTINGS: AssistantSettings = {
+  cloudFallbackEnabled: false,
+  showMathSteps: false,
+  shareMemoriesWithCloud: false,
+  musicProvider: DEFAULT_MUSIC_PROVIDER,
+};
+
+// Read settings synchronously so non-React code always sees the latest values
+export const getStoredSettings = (): AssistantSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: AssistantSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save settings locally:', e);
+  }
+};
+
+export const useAssistantSettings = () => {
+  const [settings, setSettings] = useState<AssistantSettings>(getStoredSettings);
+
+  const updateSetting = useCallback(<K extends keyof AssistantSettings>(key: K, value: AssistantSettings[K]) => {
+    setSettings(prev => {
+      const updated = { ...prev, [key]: value };
+      saveSettings(updated);
+      return updated;
+    });
+  }, []);
+
+  return {
+    settings,
+    updateSetting,
+  };
+};
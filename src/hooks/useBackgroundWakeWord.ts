@@ -2,6 +2,7 @@ import { useEffect, useCallback, useRef, useState } from 'react';
 import { Capacitor } from '@capacitor/core';
 import { App } from '@capacitor/app';
 import { LocalNotifications } from '@capacitor/local-notifications';
+import { NOTIFICATION_ACTION_TYPES } from '@/lib/notificationActions';
 
 interface UseBackgroundWakeWordOptions {
   wakeWords?: string[];
@@ -44,11 +45,11 @@ export const useBackgroundWakeWord = (options: UseBackgroundWakeWordOptions = {}
       await LocalNotifications.schedule({
         notifications: [{
           title: 'Warm AI is listening',
-          body: 'Tap to respond to your command',
+          body: 'Tap to respond, or reply with your command',
           id: 999,
           schedule: { at: new Date(Date.now() + 100) },
           sound: 'default',
-          actionTypeId: '',
+          actionTypeId: NOTIFICATION_ACTION_TYPES.reply,
           extra: null,
         }],
       });
@@ -0,0 +1,68 @@
+/**
+ * Favorite world-clock cities - stored locally in localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import type { Place } from '@/lib/ai/worldClock';
+
+export const MAX_FAVORITE_CITIES = 12;
+
+const STORAGE_KEY = 'jarvis_favorite_cities';
+
+// Read synchronously so the offline engine can answer "what time is it in my cities"
+export const getFavoriteCities = (): Place[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveFavoriteCities = (cities: Place[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cities));
+    return true;
+  } catch (e) {
+    console.error('Failed to save favorite cities locally:', e);
+    return false;
+  }
+};
+
+export type AddFavoriteResult = 'added' | 'duplicate' | 'full' | 'failed';
+
+export const addFavoriteCity = (city: Place): AddFavoriteResult => {
+  const cities = getFavoriteCities();
+  if (cities.some(existing => existing.name === city.name)) return 'duplicate';
+  if (cities.length >= MAX_FAVORITE_CITIES) return 'full';
+  return saveFavoriteCities([...cities, city]) ? 'added' : 'failed';
+};
+
+// Remove by display name, ignoring case - returns the removed city
+export const removeFavoriteCity = (name: string): Place | null => {
+  const cities = getFavoriteCities();
+  const removed = cities.find(city => city.name.toLowerCase() === name.toLowerCase().trim());
+  if (!removed || !saveFavoriteCities(cities.filter(city => city !== removed))) return null;
+  return removed;
+};
+
+export const useFavoriteCities = () => {
+  const [cities, setCities] = useState<Place[]>(getFavoriteCities);
+
+  const addCity = useCallback((city: Place): AddFavoriteResult => {
+    const result = addFavoriteCity(city);
+    setCities(getFavoriteCities());
+    return result;
+  }, []);
+
+  const removeCity = useCallback((name: string) => {
+    removeFavoriteCity(name);
+    setCities(getFavoriteCities());
+  }, []);
+
+  return {
+    cities,
+    addCity,
+    removeCity,
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * Imported knowledge packs - stored locally in localStorage
+ * and merged into the offline engine at runtime
+ */
+
+import { useState, useCallback } from 'react';
+import { MAX_PACK_BYTES, validateKnowledgePack, type KnowledgePack } from '@/lib/ai/knowledgePacks';
+
+export interface StoredKnowledgePack {
+  pack: KnowledgePack;
+  enabled: boolean;
+  importedAt: number;
+}
+
+const STORAGE_KEY = 'jarvis_knowledge_packs';
+
+const getStoredPacks = (): Record<string, StoredKnowledgePack> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const savePacks = (packs: Record<string, StoredKnowledgePack>): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+    return true;
+  } catch (e) {
+    console.error('Failed to save knowledge packs locally:', e);
+    return false;
+  }
+};
+
+// Raw storage string - lets the engine skip rebuilding when nothing changed
+export const getKnowledgePacksRevision = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const getEnabledKnowledgePacks = (): KnowledgePack[] => {
+  return Object.values(getStoredPacks())
+    .filter(stored => stored.enabled)
+    .sort((a, b) => a.importedAt - b.importedAt)
+    .map(stored => stored.pack);
+};
+
+type ImportResult =
+  | { ok: true; pack: KnowledgePack; replaced: boolean }
+  | { ok: false; errors: string[] };
+
+export const useKnowledgePacks = () => {
+  const [packs, setPacks] = useState<Record<string, StoredKnowledgePack>>(getStoredPacks);
+
+  const updatePacks = useCallback((updater: (prev: Record<string, StoredKnowledgePack>) => Record<string, StoredKnowledgePack>) => {
+    setPacks(prev => {
+      const updated = updater(prev);
+      return savePacks(updated) ? updated : prev;
+    });
+  }, []);
+
+  // Validate and store a pack from a user-selected file
+  const importPack = useCallback(async (file: File): Promise<ImportResult> => {
+    if (file.size > MAX_PACK_BYTES) {
+      return { ok: false, errors: [`Pack is larger than ${MAX_PACK_BYTES / 1024} KB`] };
+    }
+
+    const result = validateKnowledgePack(await file.text());
+    if (result.ok === false) {
+      return result;
+    }
+
+    const existing = getStoredPacks();
+    const replaced = Boolean(existing[result.pack.id]);
+    const updated = {
+      ...existing,
+      [result.pack.id]: { pack: result.pack, enabled: true, importedAt: Date.now() },
+    };
+    if (!savePacks(updated)) {
+      return { ok: false, errors: ['Not enough local storage space for this pack'] };
+    }
+    setPacks(updated);
+
+    return { ok: true, pack: result.pack, replaced };
+  }, []);
+
+  const setPackEnabled = useCallback((id: string, enabled: boolean) => {
+    updatePacks(prev => prev[id] ? { ...prev, [id]: { ...prev[id], enabled } } : prev);
+  }, [updatePacks]);
+
+  const removePack = useCallback((id: string) => {
+    updatePacks(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, [updatePacks]);
+
+  return {
+    packs: Object.values(packs).sort((a, b) => a.importedAt - b.importedAt),
+    importPack,
+    setPackEnabled,
+    removePack,
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatTurn } from '@/lib/ai/types';
+import { generateContextualResponse } from './useLocalAI';
+
+// Answer each message with the history so far, like a real conversation
+const converse = (messages: string[]): ChatTurn[] =>
+  messages.reduce<ChatTurn[]>((history, content) => {
+    const { response } = generateContextualResponse(content, history);
+    return [...history, { role: 'user', content }, { role: 'assistant', content: response }];
+  }, []);
+
+const PLANETS_ANSWER = 'The 8 planets in order from the Sun: Mercury, Venus, Earth, Mars, Jupiter, Saturn, Uranus, Neptune. Pluto was reclassified as a dwarf planet in 2006.';
+
+describe('follow-up questions', () => {
+  const history = converse(['tell me about mars']);
+
+  it('answers the topic first', () => {
+    expect(history[1].content).toBe(PLANETS_ANSWER);
+  });
+
+  it.each([
+    ['how big is it?', "I don't have anything more on the planets."],
+    ['and what about Jupiter?', "I don't know anything more about jupiter."],
+  ])('does not repeat the last answer for %s', (message, response) => {
+    // Low confidence so the cloud, if enabled, gets a turn with the full history
+    expect(generateContextualResponse(message, history)).toEqual({ response, confidence: 0.3 });
+  });
+
+  it('lets small talk and exact answers repeat', () => {
+    const greetings = converse(['hello', 'hello']);
+    expect(greetings[3].content).not.toMatch(/anything more/);
+
+    const sums = converse(['what is 5 plus 3', 'what is 5 plus 3']);
+    expect(sums[3].content).toBe(sums[1].content);
+  });
+});
@@ -1,15 +1,78 @@
 /**
- * Offline Local AI - ZERO data leaves your device
+ * Offline Local AI - ZERO data leaves your device by default
  * All processing happens locally with pattern matching and stored responses
  * Expanded knowledge base with math, science, history, and common questions
+ * Low-confidence answers can be escalated to the cloud only if the user opts in
  */
 
 import { useCallback } from 'react';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import { abortableDelay, isAbortError } from '@/lib/ai/abort';
+import {
+  buildBm25Index,
+  DEFAULT_RELEVANCE_THRESHOLD,
+  findBestPassage,
+  passagesFromKnowledgeBase,
+  type Bm25Index,
+} from '@/lib/ai/bm25';
+import {
+  buildClarifyingQuestion,
+  buildIntentVocabulary,
+  isAmbiguous,
+  rankIntents,
+  resolveClarification,
+  type IntentCandidate,
+  type IntentDefinition,
+} from '@/lib/ai/intentRanking';
+import { packIntentDefinitions, packKnowledgeBase } from '@/lib/ai/knowledgePacks';
+import {
+  DEGREE_FUNCTIONS,
+  extractPreviousAnswer,
+  formatExpressionForDisplay,
+  formatExpressionForSpeech,
+  formatNumberForSpeech,
+  roundResult,
+  translateMathExpression,
+} from '@/lib/ai/mathLanguage';
+import {
+  explainExpression,
+  extractExplanationRequest,
+  formatStepsAsList,
+  formatStepsForSpeech,
+  type MathStep,
+} from '@/lib/ai/mathSteps';
+import { convertUnits, formatConversion, parseConversionRequest } from '@/lib/ai/unitConversion';
+import { answerDateQuestion } from '@/lib/ai/dateArithmetic';
+import {
+  describeConversion,
+  describeCurrentTime,
+  describeWorldClock,
+  parseWorldClockRequest,
+} from '@/lib/ai/worldClock';
+import {
+  buildDialogueState,
+  parseFollowUp,
+  resolvePronouns,
+  substituteEntity,
+  type DialogueState,
+} from '@/lib/ai/dialogueState';
+import {
+  describeFact,
+  describeFactForCloud,
+  describeFactInline,
+  findFacts,
+  findRelatedFacts,
+  parseMemoryCommand,
+  toSecondPerson,
+} from '@/lib/ai/personalMemory';
+import { routeMessage, routeStream } from '@/lib/ai/router';
+import { supabaseChatProvider } from '@/lib/ai/supabaseChatProvider';
+import type { AIProvider, ChatTurn } from '@/lib/ai/types';
+import { getStoredSettings } from './useAssistantSettings';
+import { forgetFact, getMemoryFacts, MAX_MEMORY_FACTS, rememberFact } from './usePersonalMemory';
+import { addFavoriteCity, getFavoriteCities, MAX_FAVORITE_CITIES, removeFavoriteCity } from './useFavoriteCities';
+import { getEnabledKnowledgePacks, getKnowledgePacksRevision } from './useKnowledgePacks';
+
+type Message = ChatTurn;
 
 interface AIResponse {
   response: string;
@@ -367,174 +430,260 @@ const KNOWLEDGE_BASE: Record<string, string[]> = {
 };
 
 // Intent patterns for matching user input
-const INTENT_PATTERNS: Array<{ patterns: RegExp[]; intent: string }> = [
+const INTENT_PATTERNS: IntentDefinition[] = [
   // Greetings & Social
-  { patterns: [/^(hi|hello|hey|good morning|good afternoon|good evening|howdy|yo)\b/i], intent: 'greeting' },
-  { patterns: [/^(bye|goodbye|see you|later|farewell|take care)\b/i, /\b(gotta go|talk later)\b/i], intent: 'farewell' },
-  { patterns: [/\b(thank|thanks|thx|appreciate)\b/i], intent: 'thanks' },
-  { patterns: [/\b(how are you|how('| a)re you doing|how('| a)re things|what's up|wassup)\b/i], intent: 'howAreYou' },
-  { patterns: [/\b(who are you|what are you|your name|about you)\b/i], intent: 'whoAreYou' },
-  { patterns: [/\b(weather|temperature|rain|sunny|cloudy|forecast)\b/i], intent: 'weather' },
-  { patterns: [/\b(what time|current time|time is it)\b/i], intent: 'time' },
-  { patterns: [/\b(what date|today's date|what day|current date)\b/i], intent: 'date' },
-  { patterns: [/\b(what can you do|capabilities|help me with|your features)\b/i], intent: 'capabilities' },
-  { patterns: [/\b(privacy|data|secure|safe|track|spy|send data)\b/i], intent: 'privacy' },
+  { patterns: [/^(hi|hello|hey|good morning|good afternoon|good evening|howdy|yo)\b/i], intent: 'greeting', label: 'saying hello' },
+  { patterns: [/^(bye|goodbye|see you|later|farewell|take care)\b/i, /\b(gotta go|talk later)\b/i], intent: 'farewell', label: 'saying goodbye' },
+  { patterns: [/\b(thank|thanks|thx|appreciate)\b/i], intent: 'thanks', label: 'saying thanks' },
+  { patterns: [/\b(how are you|how('| a)re you doing|how('| a)re things|what's up|wassup)\b/i], intent: 'howAreYou', label: "how I'm doing" },
+  { patterns: [/\b(who are you|what are you|your name|about you)\b/i], intent: 'whoAreYou', label: 'who I am' },
+  { patterns: [/\b(weather|temperature|rain|sunny|cloudy|forecast)\b/i], intent: 'weather', label: 'the weather' },
+  { patterns: [/\b(what time|current time|time is it)\b/i], intent: 'time', label: 'the current time' },
+  { patterns: [/\b(what date|today's date|what day|current date)\b/i], intent: 'date', label: "today's date" },
+  { patterns: [/\b(what can you do|capabilities|help me with|your features)\b/i], intent: 'capabilities', label: 'what I can do' },
+  { patterns: [/\b(privacy|data|secure|safe|track|spy|send data)\b/i], intent: 'privacy', label: 'your privacy' },
 
   // Emotions
-  { patterns: [/\b(joke|funny|make me laugh|humor|tell me a joke)\b/i], intent: 'joke' },
-  { patterns: [/\b(motivat|inspire|encourage|cheer me up|feeling down|pump me up)\b/i], intent: 'motivation' },
-  { patterns: [/\b(tired|exhausted|sleepy|no energy|fatigued)\b/i], intent: 'tired' },
-  { patterns: [/\b(stressed|anxious|overwhelmed|worried|nervous|panic)\b/i], intent: 'stressed' },
-  { patterns: [/\b(bored|boring|nothing to do)\b/i], intent: 'bored' },
-  { patterns: [/\b(sad|depressed|unhappy|feeling blue|down)\b/i], intent: 'sad' },
-  { patterns: [/\b(happy|great|wonderful|amazing|awesome|fantastic|excited)\b/i], intent: 'happy' },
-  { patterns: [/\b(angry|mad|furious|pissed|annoyed|frustrated)\b/i], intent: 'angry' },
-  { patterns: [/\b(lonely|alone|isolated|no friends)\b/i], intent: 'lonely' },
-  { patterns: [/\b(random fact|tell me something|fun fact|interesting fact|did you know)\b/i], intent: 'randomFact' },
+  { patterns: [/\b(joke|funny|make me laugh|humor|tell me a joke)\b/i], intent: 'joke', label: 'a joke' },
+  { patterns: [/\b(motivat|inspire|encourage|cheer me up|feeling down|pump me up)\b/i], intent: 'motivation', label: 'some motivation' },
+  { patterns: [/\b(tired|exhausted|sleepy|no energy|fatigued)\b/i], intent: 'tired', label: 'feeling tired' },
+  { patterns: [/\b(stressed|anxious|overwhelmed|worried|nervous|panic)\b/i], intent: 'stressed', label: 'feeling stressed' },
+  { patterns: [/\b(bored|boring|nothing to do)\b/i], intent: 'bored', label: 'feeling bored' },
+  { patterns: [/\b(sad|depressed|unhappy|feeling blue|down)\b/i], intent: 'sad', label: 'feeling sad' },
+  { patterns: [/\b(happy|great|wonderful|amazing|awesome|fantastic|excited)\b/i], intent: 'happy', label: 'feeling happy' },
+  { patterns: [/\b(angry|mad|furious|pissed|annoyed|frustrated)\b/i], intent: 'angry', label: 'feeling angry' },
+  { patterns: [/\b(lonely|alone|isolated|no friends)\b/i], intent: 'lonely', label: 'feeling lonely' },
+  { patterns: [/\b(random fact|tell me something|fun fact|interesting fact|did you know)\b/i], intent: 'randomFact', label: 'a random fact' },
 
   // Math
-  { patterns: [/\b(add|addition|plus|sum|adding)\b/i], intent: 'mathAdd' },
-  { patterns: [/\b(subtract|subtraction|minus|difference|take away)\b/i], intent: 'mathSubtract' },
-  { patterns: [/\b(multiply|multiplication|times|product)\b/i], intent: 'mathMultiply' },
-  { patterns: [/\b(divide|division|divided by|quotient)\b/i], intent: 'mathDivide' },
-  { patterns: [/\b(square root|sqrt|√)\b/i], intent: 'mathSquareRoot' },
-  { patterns: [/\b(percent|percentage|%)\b/i], intent: 'mathPercentage' },
-  { patterns: [/\b(what is pi|value of pi|pi number|π)\b/i], intent: 'mathPi' },
-  { patterns: [/\b(pythagorean|pythagoras|right triangle)\b/i], intent: 'mathPythagorean' },
-  { patterns: [/\b(quadratic formula|quadratic equation)\b/i], intent: 'mathQuadratic' },
-  { patterns: [/\b(area of|calculate area|area formula)\b/i], intent: 'mathArea' },
-  { patterns: [/\b(volume of|calculate volume|volume formula)\b/i], intent: 'mathVolume' },
-  { patterns: [/\b(prime number|prime numbers|is it prime)\b/i], intent: 'mathPrime' },
-  { patterns: [/\b(fibonacci|fibonacci sequence|fibonacci number)\b/i], intent: 'mathFibonacci' },
+  { patterns: [/\b(add|addition|plus|sum|adding)\b/i], intent: 'mathAdd', label: 'how addition works' },
+  { patterns: [/\b(subtract|subtraction|minus|difference|take away)\b/i], intent: 'mathSubtract', label: 'how subtraction works' },
+  { patterns: [/\b(multiply|multiplication|times|product)\b/i], intent: 'mathMultiply', label: 'how multiplication works' },
+  { patterns: [/\b(divide|division|divided by|quotient)\b/i], intent: 'mathDivide', label: 'how division works' },
+  { patterns: [/\b(square root|sqrt|√)\b/i], intent: 'mathSquareRoot', label: 'square roots' },
+  { patterns: [/\b(percent|percentage|%)\b/i], intent: 'mathPercentage', label: 'percentages' },
+  { patterns: [/\b(what is pi|value of pi|pi number|π)\b/i], intent: 'mathPi', label: 'the number pi' },
+  { patterns: [/\b(pythagorean|pythagoras|right triangle)\b/i], intent: 'mathPythagorean', label: 'the Pythagorean theorem' },
+  { patterns: [/\b(quadratic formula|quadratic equation)\b/i], intent: 'mathQuadratic', label: 'the quadratic formula' },
+  { patterns: [/\b(area of|calculate area|area formula)\b/i], intent: 'mathArea', label: 'area formulas' },
+  { patterns: [/\b(volume of|calculate volume|volume formula)\b/i], intent: 'mathVolume', label: 'volume formulas' },
+  { patterns: [/\b(prime number|prime numbers|is it prime)\b/i], intent: 'mathPrime', label: 'prime numbers' },
+  { patterns: [/\b(fibonacci|fibonacci sequence|fibonacci number)\b/i], intent: 'mathFibonacci', label: 'the Fibonacci sequence' },
 
   // Science - Physics
-  { patterns: [/\b(gravity|gravitational|falling objects|what is gravity)\b/i], intent: 'scienceGravity' },
-  { patterns: [/\b(speed of light|light speed|how fast is light)\b/i], intent: 'scienceSpeed' },
-  { patterns: [/\b(atom|atoms|atomic|proton|neutron|electron)\b/i], intent: 'scienceAtom' },
-  { patterns: [/\b(energy|thermodynamics|kinetic energy|potential energy)\b/i], intent: 'scienceEnergy' },
-  { patterns: [/\b(newton's law|newton laws|laws of motion)\b/i], intent: 'scienceNewton' },
-  { patterns: [/\b(e=mc|einstein|relativity|mass energy)\b/i], intent: 'scienceEinstein' },
+  { patterns: [/\b(gravity|gravitational|falling objects|what is gravity)\b/i], intent: 'scienceGravity', label: 'gravity' },
+  { patterns: [/\b(speed of light|light speed|how fast is light)\b/i], intent: 'scienceSpeed', label: 'the speed of light' },
+  { patterns: [/\b(atom|atoms|atomic|proton|neutron|electron)\b/i], intent: 'scienceAtom', label: 'atoms' },
+  { patterns: [/\b(energy|thermodynamics|kinetic energy|potential energy)\b/i], intent: 'scienceEnergy', label: 'energy' },
+  { patterns: [/\b(newton's law|newton laws|laws of motion)\b/i], intent: 'scienceNewton', label: "Newton's laws" },
+  { patterns: [/\b(e=mc|einstein|relativity|mass energy)\b/i], intent: 'scienceEinstein', label: 'E=mc²' },
 
   // Science - Chemistry
-  { patterns: [/\b(periodic table|chemical element|elements)\b/i], intent: 'scienceElements' },
-  { patterns: [/\b(water molecule|h2o|water formula|composition of water)\b/i], intent: 'scienceWater' },
-  { patterns: [/\b(ph scale|acidity|alkaline|ph level)\b/i], intent: 'sciencePH' },
+  { patterns: [/\b(periodic table|chemical element|elements)\b/i], intent: 'scienceElements', label: 'the periodic table' },
+  { patterns: [/\b(water molecule|h2o|water formula|composition of water)\b/i], intent: 'scienceWater', label: 'water molecules' },
+  { patterns: [/\b(ph scale|acidity|alkaline|ph level)\b/i], intent: 'sciencePH', label: 'the pH scale' },
 
   // Science - Biology
-  { patterns: [/\b(dna|genetics|gene|chromosome|double helix)\b/i], intent: 'scienceDNA' },
-  { patterns: [/\b(cell|cells|mitochondria|nucleus|cell membrane)\b/i], intent: 'scienceCell' },
-  { patterns: [/\b(heart|cardiac|heartbeat|blood pump)\b/i], intent: 'scienceHeart' },
-  { patterns: [/\b(brain|neuron|nervous system|cerebral)\b/i], intent: 'scienceBrain' },
-  { patterns: [/\b(evolution|natural selection|darwin|species adapt)\b/i], intent: 'scienceEvolution' },
+  { patterns: [/\b(dna|genetics|gene|chromosome|double helix)\b/i], intent: 'scienceDNA', label: 'DNA' },
+  { patterns: [/\b(cell|cells|mitochondria|nucleus|cell membrane)\b/i], intent: 'scienceCell', label: 'cells' },
+  { patterns: [/\b(heart|cardiac|heartbeat|blood pump)\b/i], intent: 'scienceHeart', label: 'the heart' },
+  { patterns: [/\b(brain|neuron|nervous system|cerebral)\b/i], intent: 'scienceBrain', label: 'the brain' },
+  { patterns: [/\b(evolution|natural selection|darwin|species adapt)\b/i], intent: 'scienceEvolution', label: 'evolution' },
 
   // Science - Space
-  { patterns: [/\b(planet|planets|solar system|mercury|venus|mars|jupiter|saturn|uranus|neptune)\b/i], intent: 'sciencePlanets' },
-  { patterns: [/\b(sun|solar|star|our sun)\b/i], intent: 'scienceSun' },
-  { patterns: [/\b(moon|lunar|tide|earth's moon)\b/i], intent: 'scienceMoon' },
-  { patterns: [/\b(black hole|blackhole|event horizon)\b/i], intent: 'scienceBlackHole' },
-  { patterns: [/\b(galaxy|milky way|galaxies|universe)\b/i], intent: 'scienceGalaxy' },
+  { patterns: [/\b(planet|planets|solar system|mercury|venus|mars|jupiter|saturn|uranus|neptune)\b/i], intent: 'sciencePlanets', label: 'the planets' },
+  { patterns: [/\b(sun|solar|star|our sun)\b/i], intent: 'scienceSun', label: 'the Sun' },
+  { patterns: [/\b(moon|lunar|tide|earth's moon)\b/i], intent: 'scienceMoon', label: 'the Moon' },
+  { patterns: [/\b(black hole|blackhole|event horizon)\b/i], intent: 'scienceBlackHole', label: 'black holes' },
+  { patterns: [/\b(galaxy|milky way|galaxies|universe)\b/i], intent: 'scienceGalaxy', label: 'galaxies' },
 
   // History
-  { patterns: [/\b(ancient egypt|egyptian|pharaoh|pyramid|hieroglyph)\b/i], intent: 'historyEgypt' },
-  { patterns: [/\b(ancient greece|greek|sparta|athens|socrates|plato|aristotle)\b/i], intent: 'historyGreece' },
-  { patterns: [/\b(roman empire|ancient rome|caesar|gladiator|colosseum)\b/i], intent: 'historyRome' },
-  { patterns: [/\b(ancient china|chinese history|great wall|dynasty)\b/i], intent: 'historyChina' },
-  { patterns: [/\b(world war 1|ww1|first world war|great war)\b/i], intent: 'historyWW1' },
-  { patterns: [/\b(world war 2|ww2|second world war|wwii)\b/i], intent: 'historyWW2' },
-  { patterns: [/\b(moon landing|apollo 11|neil armstrong|first man on moon)\b/i], intent: 'historyMoonLanding' },
-  { patterns: [/\b(american revolution|independence|1776|founding fathers)\b/i], intent: 'historyRevolution' },
-  { patterns: [/\b(internet history|arpanet|world wide web|tim berners)\b/i], intent: 'historyInternet' },
+  { patterns: [/\b(ancient egypt|egyptian|pharaoh|pyramid|hieroglyph)\b/i], intent: 'historyEgypt', label: 'ancient Egypt' },
+  { patterns: [/\b(ancient greece|greek|sparta|athens|socrates|plato|aristotle)\b/i], intent: 'historyGreece', label: 'ancient Greece' },
+  { patterns: [/\b(roman empire|ancient rome|caesar|gladiator|colosseum)\b/i], intent: 'historyRome', label: 'the Roman Empire' },
+  { patterns: [/\b(ancient china|chinese history|great wall|dynasty)\b/i], intent: 'historyChina', label: 'ancient China' },
+  { patterns: [/\b(world war 1|ww1|first world war|great war)\b/i], intent: 'historyWW1', label: 'World War I' },
+  { patterns: [/\b(world war 2|ww2|second world war|wwii)\b/i], intent: 'historyWW2', label: 'World War II' },
+  { patterns: [/\b(moon landing|apollo 11|neil armstrong|first man on moon)\b/i], intent: 'historyMoonLanding', label: 'the Moon landing' },
+  { patterns: [/\b(american revolution|independence|1776|founding fathers)\b/i], intent: 'historyRevolution', label: 'the American Revolution' },
+  { patterns: [/\b(internet history|arpanet|world wide web|tim berners)\b/i], intent: 'historyInternet', label: 'the history of the internet' },
 
   // Geography
-  { patterns: [/\b(how many countries|number of countries|countries in the world)\b/i], intent: 'geoCountries' },
-  { patterns: [/\b(ocean|oceans|pacific|atlantic|indian ocean)\b/i], intent: 'geoOceans' },
-  { patterns: [/\b(continent|continents|asia|africa|europe|australia|antarctica)\b/i], intent: 'geoContinents' },
-  { patterns: [/\b(tallest mountain|highest mountain|mount everest|k2)\b/i], intent: 'geoMountain' },
-  { patterns: [/\b(longest river|nile|amazon river|river)\b/i], intent: 'geoRiver' },
+  { patterns: [/\b(how many countries|number of countries|countries in the world)\b/i], intent: 'geoCountries', label: 'countries of the world' },
+  { patterns: [/\b(ocean|oceans|pacific|atlantic|indian ocean)\b/i], intent: 'geoOceans', label: 'the oceans' },
+  { patterns: [/\b(continent|continents|asia|africa|europe|australia|antarctica)\b/i], intent: 'geoContinents', label: 'the continents' },
+  { patterns: [/\b(tallest mountain|highest mountain|mount everest|k2)\b/i], intent: 'geoMountain', label: 'the tallest mountains' },
+  { patterns: [/\b(longest river|nile|amazon river|river)\b/i], intent: 'geoRiver', label: 'the longest rivers' },
 
   // Language
-  { patterns: [/\b(longest word|long word|biggest word)\b/i], intent: 'langWord' },
-  { patterns: [/\b(english origin|where does english come from|english language history)\b/i], intent: 'langOrigin' },
-  { patterns: [/\b(alphabet|letters|how many letters)\b/i], intent: 'langLetters' },
+  { patterns: [/\b(longest word|long word|biggest word)\b/i], intent: 'langWord', label: 'the longest word' },
+  { patterns: [/\b(english origin|where does english come from|english language history)\b/i], intent: 'langOrigin', label: 'where English comes from' },
+  { patterns: [/\b(alphabet|letters|how many letters)\b/i], intent: 'langLetters', label: 'the alphabet' },
 
   // Technology
-  { patterns: [/\b(first computer|computer history|eniac|turing)\b/i], intent: 'techComputer' },
-  { patterns: [/\b(artificial intelligence|what is ai|machine learning|deep learning)\b/i], intent: 'techAI' },
-  { patterns: [/\b(how does internet work|internet work|internet connection)\b/i], intent: 'techInternet' },
+  { patterns: [/\b(first computer|computer history|eniac|turing)\b/i], intent: 'techComputer', label: 'the first computers' },
+  { patterns: [/\b(artificial intelligence|what is ai|machine learning|deep learning)\b/i], intent: 'techAI', label: 'artificial intelligence' },
+  { patterns: [/\b(how does internet work|internet work|internet connection)\b/i], intent: 'techInternet', label: 'how the internet works' },
 
   // Health
-  { patterns: [/\b(how much sleep|sleep need|hours of sleep|sleep important)\b/i], intent: 'healthSleep' },
-  { patterns: [/\b(how much water|water drink|hydration|drink water)\b/i], intent: 'healthWater' },
-  { patterns: [/\b(exercise|workout|how much exercise|stay fit)\b/i], intent: 'healthExercise' },
-  { patterns: [/\b(vitamin|vitamins|what vitamins|essential nutrients)\b/i], intent: 'healthVitamins' },
+  { patterns: [/\b(how much sleep|sleep need|hours of sleep|sleep important)\b/i], intent: 'healthSleep', label: 'sleep' },
+  { patterns: [/\b(how much water|water drink|hydration|drink water)\b/i], intent: 'healthWater', label: 'drinking water' },
+  { patterns: [/\b(exercise|workout|how much exercise|stay fit)\b/i], intent: 'healthExercise', label: 'exercise' },
+  { patterns: [/\b(vitamin|vitamins|what vitamins|essential nutrients)\b/i], intent: 'healthVitamins', label: 'vitamins' },
 
   // Food
-  { patterns: [/\b(cooking temperature|safe temperature|meat temperature|food temp)\b/i], intent: 'foodTemps' },
-  { patterns: [/\b(cup to tablespoon|tablespoon|teaspoon|conversion|cups)\b/i], intent: 'foodConvert' },
-  { patterns: [/\b(substitute|substitution|replacement|instead of)\b/i], intent: 'foodSubstitute' },
+  { patterns: [/\b(cooking temperature|safe temperature|meat temperature|food temp)\b/i], intent: 'foodTemps', label: 'cooking temperatures' },
+  { patterns: [/\b(cup to tablespoon|tablespoon|teaspoon|conversion|cups)\b/i], intent: 'foodConvert', label: 'cooking conversions' },
+  { patterns: [/\b(substitute|substitution|replacement|instead of)\b/i], intent: 'foodSubstitute', label: 'ingredient substitutes' },
 
   // Money
-  { patterns: [/\b(budget|budgeting|50.?30.?20|how to budget)\b/i], intent: 'moneyBudget' },
-  { patterns: [/\b(save money|saving|how to save|cut expenses)\b/i], intent: 'moneySaving' },
-  { patterns: [/\b(compound interest|interest rate|investing|grow money)\b/i], intent: 'moneyInterest' },
+  { patterns: [/\b(budget|budgeting|50.?30.?20|how to budget)\b/i], intent: 'moneyBudget', label: 'budgeting' },
+  { patterns: [/\b(save money|saving|how to save|cut expenses)\b/i], intent: 'moneySaving', label: 'saving money' },
+  { patterns: [/\b(compound interest|interest rate|investing|grow money)\b/i], intent: 'moneyInterest', label: 'compound interest' },
 
   // Productivity
-  { patterns: [/\b(productive|productivity|get more done|time management)\b/i], intent: 'prodTips' },
-  { patterns: [/\b(pomodoro|pomodoro technique|focus technique)\b/i], intent: 'prodPomodoro' },
+  { patterns: [/\b(productive|productivity|get more done|time management)\b/i], intent: 'prodTips', label: 'productivity tips' },
+  { patterns: [/\b(pomodoro|pomodoro technique|focus technique)\b/i], intent: 'prodPomodoro', label: 'the Pomodoro Technique' },
 ];
 
 // Safe math expression parser using expr-eval (no code execution)
 import { Parser } from 'expr-eval';
 
 const mathParser = new Parser();
+Object.assign(mathParser.functions, DEGREE_FUNCTIONS);
 
-// Math calculation parser - uses safe expr-eval library instead of Function constructor
-const calculateMath = (input: string): string | null => {
-  // Clean the input - convert natural language to math symbols
-  const cleaned = input.toLowerCase()
-    .replace(/what('s| is|s)/gi, '')
-    .replace(/calculate/gi, '')
-    .replace(/equals/gi, '')
-    .replace(/times/gi, '*')
-    .replace(/multiplied by/gi, '*')
-    .replace(/divided by/gi, '/')
-    .replace(/plus/gi, '+')
-    .replace(/minus/gi, '-')
-    .replace(/\bx\b/gi, '*')
-    .trim();
-
-  // Simple math expression pattern - only allow safe characters
-  const mathPattern = /^[\d\s+\-*/().]+$/;
-  
-  // Extract just the math part
-  const mathMatch = cleaned.match(/[\d\s+\-*/().]+/);
-  if (mathMatch && mathMatch[0]) {
-    const expression = mathMatch[0].trim();
-    // Validate expression only contains safe characters and has at least one digit
-    if (mathPattern.test(expression) && expression.match(/\d/)) {
-      try {
-        // Clean expression to only safe characters
-        const safeExpression = expression.replace(/[^0-9+\-*/().]/g, '');
-        if (safeExpression && safeExpression.length <= 100) {
-          // Use expr-eval for safe math parsing - no code execution possible
-          const result = mathParser.evaluate(safeExpression);
-          // Validate result is a safe number within bounds
-          if (typeof result === 'number' && !isNaN(result) && isFinite(result)) {
-            // Limit result precision and check bounds
-            if (Math.abs(result) <= Number.MAX_SAFE_INTEGER) {
-              const displayResult = Number.isInteger(result) ? result : parseFloat(result.toFixed(10));
-              return `${safeExpression} = ${displayResult}`;
-            }
-          }
-        }
-      } catch (e) {
-        // expr-eval throws on invalid expressions - this is expected and safe
-        return null;
+interface MathOptions {
+  isVoiceMode?: boolean;
+  // Result of the previous calculation, for "times that by 3"
+  previousAnswer?: number;
+}
+
+// Math calculation parser - natural language is translated to a whitelisted
+// expression first, then evaluated with expr-eval instead of Function constructor
+const calculateMath = (input: string, { isVoiceMode, previousAnswer }: MathOptions = {}): string | null => {
+  const { wantsSteps, input: mathInput } = extractExplanationRequest(input);
+  const expression = translateMathExpression(mathInput, previousAnswer);
+  if (!expression) return null;
+
+  try {
+    // Use expr-eval for safe math parsing - no code execution possible
+    const result = mathParser.evaluate(expression);
+    // Validate result is a safe number within bounds
+    if (typeof result !== 'number' || isNaN(result) || !isFinite(result)) return null;
+    if (Math.abs(result) > Number.MAX_SAFE_INTEGER) return null;
+
+    const displayResult = roundResult(result);
+    const steps = wantsSteps || getStoredSettings().showMathSteps
+      ? explainMath(expression)
+      : [];
+    // A single step is just the answer - only spell it out when asked
+    const showSteps = steps.length > 1 || (wantsSteps && steps.length > 0);
+
+    if (isVoiceMode) {
+      if (showSteps) return formatStepsForSpeech(steps);
+      const spoken = formatExpressionForSpeech(expression);
+      return `${spoken.charAt(0).toUpperCase()}${spoken.slice(1)} is ${formatNumberForSpeech(displayResult)}.`;
+    }
+
+    const summary = `${formatExpressionForDisplay(expression)} = ${displayResult}`;
+    return showSteps ? `${summary}\n\nSteps:\n${formatStepsAsList(steps)}` : summary;
+  } catch (e) {
+    // expr-eval throws on invalid expressions - this is expected and safe
+    return null;
+  }
+};
+
+// World clock, time-zone conversion and favorite cities
+const answerWorldClock = (message: string, isVoiceMode?: boolean): string | null => {
+  const request = parseWorldClockRequest(message);
+  if (!request) return null;
+
+  switch (request.kind) {
+    case 'current':
+      return request.place
+        ? describeCurrentTime(request.place)
+        : `I don't know the time zone for ${request.query} yet. Try a nearby major city.`;
+
+    case 'convert':
+      return describeConversion(request.time, request.from, request.to);
+
+    case 'favorites': {
+      const cities = getFavoriteCities();
+      if (cities.length === 0) {
+        return 'You haven\'t saved any favorite cities yet. Try "add Tokyo to my favorite cities".';
       }
+      return describeWorldClock(cities, { isVoiceMode });
+    }
+
+    case 'addFavorite': {
+      if (!request.place) return `I don't know the time zone for ${request.query} yet, so I can't add it.`;
+      const result = addFavoriteCity(request.place);
+      if (result === 'duplicate') return `${request.place.name} is already one of your favorite cities.`;
+      if (result === 'full') return `You can keep up to ${MAX_FAVORITE_CITIES} favorite cities. Remove one first.`;
+      if (result === 'failed') return "I couldn't save that on this device.";
+      return `Added ${request.place.name} to your favorite cities. ${describeCurrentTime(request.place)}`;
+    }
+
+    case 'removeFavorite': {
+      const removed = removeFavoriteCity(request.query);
+      return removed
+        ? `Removed ${removed.name} from your favorite cities.`
+        : `${request.query} isn't one of your favorite cities.`;
+    }
+  }
+};
+
+// Personal memory - "remember that...", "what's my...", "forget my..."
+const answerMemory = (message: string, isVoiceMode?: boolean): string | null => {
+  const command = parseMemoryCommand(message);
+  if (!command) return null;
+
+  switch (command.kind) {
+    case 'remember': {
+      const result = rememberFact(command.subject, command.verb, command.value);
+      if (result.ok === false) {
+        return result.reason === 'full'
+          ? `I can only remember ${MAX_MEMORY_FACTS} things. Remove some in Settings first.`
+          : "I couldn't save that on this device.";
+      }
+      return result.updated
+        ? `Updated - ${describeFactInline(result.fact)}.`
+        : `Got it, I'll remember that ${describeFactInline(result.fact)}.`;
+    }
+
+    case 'list': {
+      const facts = getMemoryFacts();
+      if (facts.length === 0) return "You haven't asked me to remember anything yet.";
+      if (isVoiceMode) return facts.slice(-5).map(describeFact).join(' ');
+      return `Here's what you've told me:\n${facts.map(fact => `• ${describeFact(fact)}`).join('\n')}`;
+    }
+
+    case 'forget': {
+      const [fact] = findFacts(command.query, getMemoryFacts());
+      if (!fact) return /^my\s/.test(command.query) ? `I don't have anything saved about ${toSecondPerson(command.query)}.` : null;
+      forgetFact(fact.id);
+      return `Done, I've forgotten that ${describeFactInline(fact)}.`;
+    }
+
+    case 'recall': {
+      const [fact] = findFacts(command.query, getMemoryFacts());
+      if (fact) return describeFact(fact);
+      // Only claim ignorance about things that are clearly personal
+      return /^my\s/.test(command.query)
+        ? `I don't think you've told me about ${toSecondPerson(command.query)} yet. Say "remember that..." and I will.`
+        : null;
     }
   }
-  
-  return null;
+};
+
+// Steps are a nice-to-have - never let them break the answer itself
+const explainMath = (expression: string): MathStep[] => {
+  try {
+    return explainExpression(mathParser, expression);
+  } catch (e) {
+    console.error('Could not explain expression:', e);
+    return [];
+  }
 };
 
 // Get random response from array
@@ -542,52 +691,131 @@ const getRandomResponse = (responses: string[]): string => {
   return responses[Math.floor(Math.random() * responses.length)];
 };
 
-// Detect intent from user message
-const detectIntent = (message: string): string => {
-  const lowerMessage = message.toLowerCase().trim();
-  
-  for (const { patterns, intent } of INTENT_PATTERNS) {
-    for (const pattern of patterns) {
-      if (pattern.test(lowerMessage)) {
-        return intent;
-      }
-    }
+// Greetings, feelings and live values are left out of retrieval - they aren't facts
+const RETRIEVAL_EXCLUDED_INTENTS = [
+  'unknown', 'time', 'date', 'greeting', 'farewell', 'thanks', 'howAreYou',
+  'tired', 'stressed', 'bored', 'sad', 'happy', 'angry', 'lonely',
+];
+
+// A retrieved passage is a guess - never trust it as much as a matched intent
+const MAX_RETRIEVAL_CONFIDENCE = 0.7;
+
+interface KnowledgeData {
+  intents: IntentDefinition[];
+  knowledgeBase: Record<string, string[]>;
+  // Vocabulary of every intent's answers, used for n-gram overlap scoring
+  vocabulary: ReturnType<typeof buildIntentVocabulary>;
+  // Inverted index over every knowledge entry for questions no pattern catches
+  index: Bm25Index;
+  // Which intent each canned answer belongs to, for dialogue state tracking
+  responseIntents: Map<string, string>;
+}
+
+let cachedKnowledge: { revision: string; data: KnowledgeData } | null = null;
+
+// Built-in knowledge merged with enabled packs, rebuilt only when packs change
+const getKnowledge = (): KnowledgeData => {
+  const revision = getKnowledgePacksRevision();
+  if (cachedKnowledge?.revision === revision) {
+    return cachedKnowledge.data;
   }
-  
-  return 'unknown';
+
+  const packs = getEnabledKnowledgePacks();
+  const knowledgeBase = packs.reduce(
+    (merged, pack) => ({ ...merged, ...packKnowledgeBase(pack) }),
+    KNOWLEDGE_BASE
+  );
+  const data: KnowledgeData = {
+    intents: [...INTENT_PATTERNS, ...packs.flatMap(packIntentDefinitions)],
+    knowledgeBase,
+    vocabulary: buildIntentVocabulary(knowledgeBase),
+    index: buildBm25Index(passagesFromKnowledgeBase(knowledgeBase, RETRIEVAL_EXCLUDED_INTENTS)),
+    responseIntents: new Map(
+      Object.entries(knowledgeBase).flatMap(([intent, responses]) => responses.map(r => [r, intent] as [string, string]))
+    ),
+  };
+
+  cachedKnowledge = { revision, data };
+  return data;
 };
 
-// Generate contextual response based on conversation history
-const generateContextualResponse = (
+// Score every intent and return the best candidates
+const detectIntents = (message: string, k: number = 3): IntentCandidate[] => {
+  const { intents, vocabulary } = getKnowledge();
+  return rankIntents(message, intents, vocabulary, k);
+};
+
+interface ResponseOptions {
+  isVoiceMode?: boolean;
+}
+
+// Answer a single message - follow-ups are resolved before this is called
+const answerMessage = (
   message: string,
-  history: Message[]
+  history: Message[],
+  state: DialogueState,
+  { isVoiceMode }: ResponseOptions = {}
 ): AIResponse => {
-  // First try to calculate math
-  const mathResult = calculateMath(message);
+  const lastAssistantMessage = history.filter(m => m.role === 'assistant').slice(-1)[0];
+
+  // Things the user asked us to remember come first - they're the most personal
+  const memoryAnswer = answerMemory(message, isVoiceMode);
+  if (memoryAnswer) {
+    return { response: memoryAnswer, confidence: 1.0 };
+  }
+
+  // Then try to calculate math
+  const mathResult = calculateMath(message, {
+    isVoiceMode,
+    previousAnswer: extractPreviousAnswer(lastAssistantMessage?.content),
+  });
   if (mathResult) {
     return { response: mathResult, confidence: 1.0 };
   }
+
+  // Then unit conversions - "how many grams in 3 cups of flour"
+  const conversion = parseConversionRequest(message);
+  if (conversion) {
+    const result = convertUnits(conversion);
+    return { response: formatConversion(result, { isVoiceMode }), confidence: result.ok ? 1.0 : 0.8 };
+  }
+
+  // Time zones - "what time is it in Tokyo", "convert 3pm London to Pacific time"
+  const worldClockAnswer = answerWorldClock(message, isVoiceMode);
+  if (worldClockAnswer) {
+    return { response: worldClockAnswer, confidence: 1.0 };
+  }
+
+  // Calendar arithmetic - "how many days until December 25"
+  const dateAnswer = answerDateQuestion(message);
+  if (dateAnswer) {
+    return { response: dateAnswer, confidence: 1.0 };
+  }
   
-  const intent = detectIntent(message);
-  const responses = KNOWLEDGE_BASE[intent] || KNOWLEDGE_BASE.unknown;
-  
-  let response = getRandomResponse(responses);
-  let confidence = intent === 'unknown' ? 0.3 : 0.8;
-  
-  // Add context awareness
-  if (history.length > 0) {
-    const lastUserMessage = history
-      .filter(m => m.role === 'user')
-      .slice(-1)[0];
-    
-    // If user is continuing a topic, acknowledge it
-    if (lastUserMessage && intent === 'unknown') {
-      const previousIntent = detectIntent(lastUserMessage.content);
-      if (previousIntent !== 'unknown') {
-        response = "I understand you're still thinking about that. " + response;
-      }
+  const knowledge = getKnowledge();
+  const clarifiedIntent = resolveClarification(message, lastAssistantMessage?.content, knowledge.intents);
+
+  const candidates = clarifiedIntent ? [] : detectIntents(message);
+  if (isAmbiguous(candidates)) {
+    return { response: buildClarifyingQuestion(candidates), confidence: 0.5 };
+  }
+
+  const intent = clarifiedIntent ?? candidates[0]?.intent ?? 'unknown';
+
+  // Second stage: retrieve the closest knowledge passage
+  if (intent === 'unknown') {
+    const hit = findBestPassage(knowledge.index, message, DEFAULT_RELEVANCE_THRESHOLD);
+    if (hit) {
+      return { response: hit.passage.text, confidence: Math.min(hit.confidence, MAX_RETRIEVAL_CONFIDENCE) };
     }
   }
+
+  const responses = knowledge.knowledgeBase[intent] || KNOWLEDGE_BASE.unknown;
+  // Don't repeat an answer from earlier in the conversation while others are left
+  const unseen = responses.filter(r => !state.seenResponses.has(r));
+  
+  let response = getRandomResponse(unseen.length > 0 ? unseen : responses);
+  let confidence = intent === 'unknown' ? 0.3 : 0.8;
   
   // Dynamic time/date responses
   if (intent === 'time') {
@@ -603,36 +831,175 @@ const generateContextualResponse = (
   return { response, confidence };
 };
 
+// "Tell me more" - the next answer on the active topic we haven't given yet
+const continueTopic = (state: DialogueState): AIResponse | null => {
+  // Small talk has no topic to continue
+  if (!state.lastIntent || RETRIEVAL_EXCLUDED_INTENTS.includes(state.lastIntent)) return null;
+  const { knowledgeBase, intents } = getKnowledge();
+  const unseen = (knowledgeBase[state.lastIntent] || []).filter(r => !state.seenResponses.has(r));
+  if (unseen.length > 0) {
+    return { response: getRandomResponse(unseen), confidence: 0.8 };
+  }
+  const label = intents.find(d => d.intent === state.lastIntent)?.label ?? 'that';
+  return { response: `That's everything I know about ${label}. Ask me about something else!`, confidence: 0.8 };
+};
+
+// When the only answer left is one already given - low confidence on purpose,
+// so the cloud, if enabled, can try with the full history
+const nothingMore = (state: DialogueState): AIResponse => {
+  const label = getKnowledge().intents.find(d => d.intent === state.lastIntent)?.label
+    ?? state.entities[state.entities.length - 1]
+    ?? 'that';
+  return { response: `I don't have anything more on ${label}.`, confidence: 0.3 };
+};
+
+// Generate contextual response based on conversation history
+export const generateContextualResponse = (
+  message: string,
+  history: Message[],
+  options: ResponseOptions = {}
+): AIResponse => {
+  const { responseIntents } = getKnowledge();
+  const state = buildDialogueState(history, response => {
+    const intent = responseIntents.get(response);
+    return intent && intent !== 'unknown' ? intent : null;
+  });
+  const lastAssistantMessage = history.filter(m => m.role === 'assistant').slice(-1)[0]?.content;
+  // Exact answers (math, the time) may repeat - knowledge answers shouldn't
+  const isRepeat = (result: AIResponse) =>
+    result.confidence < 1.0 && (result.response === lastAssistantMessage || state.seenResponses.has(result.response));
+  // A rewritten follow-up only counts if it lands somewhere new
+  const isUseful = (result: AIResponse) => result.confidence >= 0.8 && !isRepeat(result);
+
+  const followUp = parseFollowUp(message);
+  if (followUp?.kind === 'more') {
+    // Low confidence on purpose - the cloud, if enabled, can use the full history
+    return continueTopic(state) ?? {
+      response: "More about what? Ask me about a topic and I'll tell you what I know.",
+      confidence: 0.3,
+    };
+  }
+
+  // "What about Mars?" - swap the new entity into the previous question,
+  // then look it up on its own
+  if (followUp?.kind === 'about') {
+    for (const candidate of [...substituteEntity(state, followUp.entity), followUp.entity]) {
+      const result = answerMessage(candidate, history, state, options);
+      if (isUseful(result)) return result;
+    }
+    return { response: `I don't know anything more about ${followUp.entity}.`, confidence: 0.3 };
+  }
+
+  const result = answerMessage(message, history, state, options);
+  if (isUseful(result)) return result;
+
+  // "How big is it?" - read the pronoun as the active topic
+  const resolved = resolvePronouns(message, state);
+  if (!resolved) return result;
+  const resolvedResult = answerMessage(resolved, history, state, options);
+  if (isUseful(resolvedResult)) return resolvedResult;
+
+  // Saying an earlier answer again doesn't answer the follow-up
+  if (isRepeat(result) || isRepeat(resolvedResult)) return nothingMore(state);
+  return result;
+};
+
+// Local pattern engine exposed as a provider - never leaves the device
+const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Offline engine',
+  isOffline: true,
+  isAvailable: () => true,
+  generate: async ({ message, history, isVoiceMode, signal }) => {
+    // Simulate slight processing delay for natural feel
+    await abortableDelay(200 + Math.random() * 300, signal);
+    return { ...generateContextualResponse(message, history, { isVoiceMode }), provider: 'local' };
+  },
+};
+
+// Providers consulted (in order) when the local engine is unsure
+const REMOTE_PROVIDERS: AIProvider[] = [supabaseChatProvider];
+
+// How many matching memories ride along with a cloud request
+const MAX_SHARED_FACTS = 5;
+
+// Never leaves the device unless the user turned on memory sharing
+const getSharedFacts = (message: string): string[] | undefined => {
+  if (!getStoredSettings().shareMemoriesWithCloud) return undefined;
+  const facts = findRelatedFacts(message, getMemoryFacts()).slice(0, MAX_SHARED_FACTS);
+  return facts.length > 0 ? facts.map(describeFactForCloud) : undefined;
+};
+
+interface ProcessOptions {
+  isVoiceMode?: boolean;
+  signal?: AbortSignal;
+}
+
+interface StreamResult {
+  // True when the signal cut the answer short
+  stopped: boolean;
+}
+
 export const useLocalAI = () => {
   const processMessage = useCallback(async (
     message: string,
-    conversationHistory: Message[] = []
+    conversationHistory: Message[] = [],
+    options: ProcessOptions = {}
   ): Promise<string> => {
-    // Simulate slight processing delay for natural feel
-    await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
-    
-    const { response } = generateContextualResponse(message, conversationHistory);
+    const { response } = await routeMessage(
+      {
+        message,
+        history: conversationHistory,
+        isVoiceMode: options.isVoiceMode,
+        signal: options.signal,
+        userFacts: getSharedFacts(message),
+        shareMemories: getStoredSettings().shareMemoriesWithCloud,
+      },
+      {
+        local: localProvider,
+        remote: REMOTE_PROVIDERS,
+        allowRemote: getStoredSettings().cloudFallbackEnabled,
+      }
+    );
     return response;
   }, []);
   
-  // Stream-like response for UI consistency
+  // Streams cloud tokens as they arrive; local answers are paced word by word
   const streamResponse = useCallback(async (
     message: string,
     conversationHistory: Message[],
     onChunk: (chunk: string) => void,
-    onComplete: () => void
+    onComplete: (result: StreamResult) => void,
+    options: ProcessOptions = {}
   ): Promise<void> => {
-    const fullResponse = await processMessage(message, conversationHistory);
-    
-    // Simulate streaming by sending words one at a time
-    const words = fullResponse.split(' ');
-    for (let i = 0; i < words.length; i++) {
-      await new Promise(resolve => setTimeout(resolve, 30 + Math.random() * 50));
-      onChunk(words[i] + (i < words.length - 1 ? ' ' : ''));
+    try {
+      await routeStream(
+        {
+          message,
+          history: conversationHistory,
+          isVoiceMode: options.isVoiceMode,
+          signal: options.signal,
+          userFacts: getSharedFacts(message),
+          shareMemories: getStoredSettings().shareMemoriesWithCloud,
+        },
+        {
+          local: localProvider,
+          remote: REMOTE_PROVIDERS,
+          allowRemote: getStoredSettings().cloudFallbackEnabled,
+        },
+        onChunk
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        onComplete({ stopped: true });
+        return;
+      }
+      console.error('Stream interrupted:', error);
+      onChunk("\n\n(Connection lost - this answer may be incomplete.)");
     }
     
-    onComplete();
-  }, [processMessage]);
+    onComplete({ stopped: false });
+  }, []);
   
   return {
     processMessage,
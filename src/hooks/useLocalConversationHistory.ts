@@ -4,11 +4,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import type { ChatTurn } from '@/lib/ai/types';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // Assistant reply cut short by the user
+  stopped?: boolean;
 }
 
 interface Conversation {
@@ -111,7 +114,7 @@ export const useLocalConversationHistory = () => {
   }, [conversationId]);
 
   // Get messages formatted for AI context
-  const getMessagesForContext = useCallback((count: number = 10): Array<{ role: string; content: string }> => {
+  const getMessagesForContext = useCallback((count: number = 10): ChatTurn[] => {
     return messages.slice(-count).map(m => ({
       role: m.role,
       content: m.content,
@@ -1,8 +1,18 @@
 import { useCallback, useEffect, useState } from 'react';
 import { Capacitor } from '@capacitor/core';
 import { Haptics, ImpactStyle, NotificationType } from '@capacitor/haptics';
-import { LocalNotifications, ScheduleResult } from '@capacitor/local-notifications';
+import { LocalNotifications, Schedule, ScheduleResult } from '@capacitor/local-notifications';
 import { App } from '@capacitor/app';
+import type { AppEntry } from '@/lib/commands/apps';
+
+// Buttons and payload for a native notification - see lib/notificationActions
+export interface NotificationOptions {
+  actionTypeId?: string;
+  extra?: object;
+}
+
+// Where an app can be reached - see lib/commands/apps
+export type AppTarget = Pick<AppEntry, 'packageName' | 'uri' | 'webUrl'>;
 
 export const useNativeCapabilities = () => {
   const [notificationPermission, setNotificationPermission] = useState<boolean>(false);
@@ -62,7 +72,12 @@ export const useNativeCapabilities = () => {
   }, [isNative]);
 
   // Local notification functions
-  const showNotification = useCallback(async (title: string, body: string, id?: number): Promise<ScheduleResult | null> => {
+  const showNotification = useCallback(async (
+    title: string,
+    body: string,
+    id?: number,
+    options: NotificationOptions = {}
+  ): Promise<ScheduleResult | null> => {
     if (!isNative || !notificationPermission) {
       // Fallback to web notification
       if ('Notification' in window && Notification.permission === 'granted') {
@@ -78,8 +93,8 @@ export const useNativeCapabilities = () => {
           id: id || Date.now(),
           schedule: { at: new Date(Date.now() + 100) }, // Immediately
           sound: 'default',
-          actionTypeId: '',
-          extra: null,
+          actionTypeId: options.actionTypeId ?? '',
+          extra: options.extra ?? null,
         }],
       });
       return result;
@@ -93,7 +108,8 @@ export const useNativeCapabilities = () => {
     title: string, 
     body: string, 
     scheduledAt: Date, 
-    id?: number
+    id?: number,
+    options: NotificationOptions = {}
   ): Promise<ScheduleResult | null> => {
     if (!isNative || !notificationPermission) return null;
     try {
@@ -104,8 +120,8 @@ export const useNativeCapabilities = () => {
           id: id || Date.now(),
           schedule: { at: scheduledAt },
           sound: 'default',
-          actionTypeId: '',
-          extra: null,
+          actionTypeId: options.actionTypeId ?? '',
+          extra: options.extra ?? null,
         }],
       });
       return result;
@@ -115,50 +131,86 @@ export const useNativeCapabilities = () => {
     }
   }, [isNative, notificationPermission]);
 
-  // App intent functions for opening other apps
-  const openAppByIntent = useCallback(async (packageName: string, fallbackUrl?: string): Promise<boolean> => {
+  // One notification per schedule - the OS repeats them on its own
+  const scheduleRepeatingNotifications = useCallback(async (
+    title: string,
+    body: string,
+    schedules: { id: number; schedule: Schedule }[],
+    options: NotificationOptions = {}
+  ): Promise<ScheduleResult | null> => {
+    if (!isNative || !notificationPermission || schedules.length === 0) return null;
+    try {
+      const result = await LocalNotifications.schedule({
+        notifications: schedules.map(({ id, schedule }) => ({
+          title,
+          body,
+          id,
+          schedule: { ...schedule, allowWhileIdle: true },
+          sound: 'default',
+          actionTypeId: options.actionTypeId ?? '',
+          extra: options.extra ?? null,
+        })),
+      });
+      return result;
+    } catch (e) {
+      console.error('Failed to schedule repeating notification:', e);
+      return null;
+    }
+  }, [isNative, notificationPermission]);
+
+  const cancelNotification = useCallback(async (id: number | number[]): Promise<boolean> => {
+    if (!isNative) return false;
+    try {
+      const ids = Array.isArray(id) ? id : [id];
+      await LocalNotifications.cancel({ notifications: ids.map(notificationId => ({ id: notificationId })) });
+      return true;
+    } catch (e) {
+      console.error('Failed to cancel notification:', e);
+      return false;
+    }
+  }, [isNative]);
+
+  // Ids still waiting to fire - null when the platform can't tell us
+  const getPendingNotificationIds = useCallback(async (): Promise<Set<number> | null> => {
+    if (!isNative) return null;
+    try {
+      const { notifications } = await LocalNotifications.getPending();
+      return new Set(notifications.map(n => n.id));
+    } catch (e) {
+      console.error('Failed to read pending notifications:', e);
+      return null;
+    }
+  }, [isNative]);
+
+  // Open another app - its URI first, then its package, then the web fallback
+  const openAppByIntent = useCallback(async (app: AppTarget): Promise<boolean> => {
     if (!isNative) {
       // Web fallback
-      if (fallbackUrl) {
-        window.open(fallbackUrl, '_blank');
+      if (app.webUrl) {
+        window.open(app.webUrl, '_blank');
         return true;
       }
       return false;
     }
     
     try {
-      // On Android, we use intent URLs
-      // Common app package names and intents
-      const intentMap: Record<string, string> = {
-        'spotify': 'spotify://',
-        'youtube': 'vnd.youtube://',
-        'whatsapp': 'whatsapp://',
-        'instagram': 'instagram://',
-        'twitter': 'twitter://',
-        'facebook': 'fb://',
-        'chrome': 'googlechrome://',
-        'maps': 'geo:',
-        'camera': 'intent:#Intent;action=android.media.action.IMAGE_CAPTURE;end',
-        'phone': 'tel:',
-        'sms': 'sms:',
-        'email': 'mailto:',
-        'clock': 'android.intent.action.SET_ALARM',
-        'calendar': 'content://com.android.calendar/time/',
-      };
-
-      const intent = intentMap[packageName.toLowerCase()];
-      if (intent) {
-        window.location.href = intent;
+      if (app.uri) {
+        window.location.href = app.uri;
         return true;
       }
-      
-      // Try package name directly for Android
-      window.location.href = `intent://#Intent;package=${packageName};end`;
-      return true;
+      if (app.packageName) {
+        window.location.href = `intent://#Intent;package=${app.packageName};end`;
+        return true;
+      }
+      if (app.webUrl) {
+        window.open(app.webUrl, '_blank');
+        return true;
+      }
+      return false;
     } catch (e) {
       console.error('Failed to open app:', e);
-      if (fallbackUrl) {
-        window.open(fallbackUrl, '_blank');
+      if (app.webUrl) {
+        window.open(app.webUrl, '_blank');
       }
       return false;
     }
@@ -194,25 +246,6 @@ export const useNativeCapabilities = () => {
     }
   }, [isNative]);
 
-  // Play music on Spotify
-  const playOnSpotify = useCallback(async (query: string): Promise<boolean> => {
-    if (!isNative) {
-      window.open(`https://open.spotify.com/search/${encodeURIComponent(query)}`, '_blank');
-      return true;
-    }
-    
-    try {
-      // Try Spotify deep link first
-      const spotifyUri = `spotify:search:${encodeURIComponent(query)}`;
-      window.location.href = spotifyUri;
-      return true;
-    } catch (e) {
-      console.error('Failed to open Spotify:', e);
-      window.open(`https://open.spotify.com/search/${encodeURIComponent(query)}`, '_blank');
-      return true;
-    }
-  }, [isNative]);
-
   // Listen for app state changes
   useEffect(() => {
     if (!isNative) return;
@@ -236,10 +269,12 @@ export const useNativeCapabilities = () => {
     // Notifications
     showNotification,
     scheduleNotification,
+    scheduleRepeatingNotifications,
+    cancelNotification,
+    getPendingNotificationIds,
     // App intents
     openAppByIntent,
     setNativeAlarm,
     setNativeTimer,
-    playOnSpotify,
   };
 };
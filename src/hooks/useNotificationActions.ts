@@ -0,0 +1,77 @@
+/**
+ * Handles buttons pressed on native notifications: snooze or finish a
+ * reminder, restart a timer, or send an inline reply to the assistant.
+ * Mount once - it registers the action types and owns the listener.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications, type ActionPerformed } from '@capacitor/local-notifications';
+import { toast } from 'sonner';
+import { getScheduledItems, useScheduledItems } from './useScheduledItems';
+import { DEFAULT_SNOOZE_SECONDS, describeItemName, formatSpan } from '@/lib/ai/scheduledItems';
+import {
+  ACTION_TYPE_DEFINITIONS,
+  NOTIFICATION_ACTIONS,
+  isScheduledNotificationExtra,
+} from '@/lib/notificationActions';
+
+interface UseNotificationActionsOptions {
+  // Text typed into a notification's reply box
+  onReply?: (text: string) => void;
+}
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+export const useNotificationActions = ({ onReply }: UseNotificationActionsOptions = {}) => {
+  const { cancel, reschedule, snooze } = useScheduledItems();
+  const isNative = Capacitor.isNativePlatform();
+
+  const handleAction = async ({ actionId, inputValue, notification }: ActionPerformed) => {
+    if (actionId === NOTIFICATION_ACTIONS.reply) {
+      const text = inputValue?.trim();
+      if (text) onReply?.(text);
+      return;
+    }
+
+    if (!isScheduledNotificationExtra(notification.extra)) return;
+    const item = getScheduledItems().find(i => i.id === notification.extra.itemId);
+    if (!item) return;
+
+    switch (actionId) {
+      case NOTIFICATION_ACTIONS.snooze:
+        if (await snooze(item.id, DEFAULT_SNOOZE_SECONDS)) {
+          toast(`Snoozed ${describeItemName(item)} for ${formatSpan(DEFAULT_SNOOZE_SECONDS)}`);
+        }
+        break;
+      case NOTIFICATION_ACTIONS.done:
+        // Repeats carry on - only one-offs are finished for good
+        if (!item.recurrence) await cancel(item.id);
+        break;
+      case NOTIFICATION_ACTIONS.restart:
+        if (item.durationSeconds && await reschedule(item.id, new Date(Date.now() + item.durationSeconds * 1000))) {
+          toast(`${capitalize(describeItemName(item))} restarted for ${formatSpan(item.durationSeconds)}`);
+        }
+        break;
+    }
+  };
+
+  // The listener is added once - always run the latest handler
+  const handleActionRef = useRef(handleAction);
+  handleActionRef.current = handleAction;
+
+  useEffect(() => {
+    if (!isNative) return;
+
+    LocalNotifications.registerActionTypes({ types: ACTION_TYPE_DEFINITIONS })
+      .catch(e => console.error('Failed to register notification actions:', e));
+
+    const listener = LocalNotifications.addListener('localNotificationActionPerformed', (action) => {
+      handleActionRef.current(action).catch(e => console.error('Notification action failed:', e));
+    });
+
+    return () => {
+      listener.then(handle => handle.remove());
+    };
+  }, [isNative]);
+};
@@ -0,0 +1,88 @@
+/**
+ * Personal memory - facts the user asked Jarvis to remember,
+ * stored locally in localStorage and never shared without consent
+ */
+
+import { useState, useCallback } from 'react';
+import { findSameSubject, type MemoryFact } from '@/lib/ai/personalMemory';
+
+export const MAX_MEMORY_FACTS = 200;
+
+const STORAGE_KEY = 'jarvis_personal_memory';
+
+// Read synchronously so the offline engine always sees the latest facts
+export const getMemoryFacts = (): MemoryFact[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveMemoryFacts = (facts: MemoryFact[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(facts));
+    return true;
+  } catch (e) {
+    console.error('Failed to save memories locally:', e);
+    return false;
+  }
+};
+
+export type RememberResult =
+  | { ok: true; fact: MemoryFact; updated: boolean }
+  | { ok: false; reason: 'full' | 'failed' };
+
+// Store a fact, replacing the value of one with the same subject
+export const rememberFact = (subject: string, verb: string, value: string): RememberResult => {
+  const facts = getMemoryFacts();
+  const now = Date.now();
+  const existing = value ? findSameSubject(subject, facts) : undefined;
+
+  if (existing) {
+    const fact = { ...existing, subject, verb, value, updatedAt: now };
+    return saveMemoryFacts(facts.map(f => (f.id === existing.id ? fact : f)))
+      ? { ok: true, fact, updated: true }
+      : { ok: false, reason: 'failed' };
+  }
+
+  if (facts.length >= MAX_MEMORY_FACTS) return { ok: false, reason: 'full' };
+  const id = `${now}-${Math.random().toString(36).substring(2, 11)}`;
+  const fact: MemoryFact = { id, subject, verb, value, createdAt: now, updatedAt: now };
+  return saveMemoryFacts([...facts, fact]) ? { ok: true, fact, updated: false } : { ok: false, reason: 'failed' };
+};
+
+export const forgetFact = (id: string): boolean => {
+  const facts = getMemoryFacts();
+  return facts.some(f => f.id === id) && saveMemoryFacts(facts.filter(f => f.id !== id));
+};
+
+export const usePersonalMemory = () => {
+  const [facts, setFacts] = useState<MemoryFact[]>(getMemoryFacts);
+
+  const updateFact = useCallback((id: string, changes: Pick<MemoryFact, 'subject' | 'value'>) => {
+    const updated = getMemoryFacts().map(fact =>
+      fact.id === id
+        ? { ...fact, ...changes, verb: changes.value ? fact.verb || 'is' : '', updatedAt: Date.now() }
+        : fact
+    );
+    if (saveMemoryFacts(updated)) setFacts(updated);
+  }, []);
+
+  const removeFact = useCallback((id: string) => {
+    forgetFact(id);
+    setFacts(getMemoryFacts());
+  }, []);
+
+  const clearFacts = useCallback(() => {
+    if (saveMemoryFacts([])) setFacts([]);
+  }, []);
+
+  return {
+    facts: [...facts].sort((a, b) => b.updatedAt - a.updatedAt),
+    updateFact,
+    removeFact,
+    clearFacts,
+  };
+};
@@ -1,9 +1,20 @@
 import { useCallback } from 'react';
 import { toast } from 'sonner';
 import { useNativeCapabilities } from './useNativeCapabilities';
+import { useScheduledItems } from './useScheduledItems';
+import { getAppRegistry } from './useAppRegistry';
+import { getStoredSettings } from './useAssistantSettings';
+import { describeReminderTime, type ParsedReminder } from '@/lib/ai/reminderTime';
+import { describeRecurrence, nextOccurrence, type Recurrence } from '@/lib/ai/recurrence';
+import { toSecondPerson } from '@/lib/ai/personalMemory';
+import { BUILT_IN_APPS, findApp } from '@/lib/commands/apps';
+import { getMusicProvider, musicSearchTarget, type MusicProvider, type MusicProviderId, type MusicQuery } from '@/lib/commands/music';
+import { phoneCommands } from '@/lib/commands/phoneCommands';
+import { composeUri, describeComposeQuestion, type ComposeChannel, type ComposeDraft } from '@/lib/commands/compose';
+import { describeMediaCommand, inverseMediaCommand, runMediaCommand, type MediaCommand } from '@/lib/mediaControl';
 
 export interface PhoneAction {
-  type: 'alarm' | 'timer' | 'reminder' | 'open_app' | 'play_music' | 'pause_music' | 'unknown';
+  type: 'alarm' | 'timer' | 'reminder' | 'open_app' | 'play_music' | 'media_control' | 'message' | 'call' | 'email' | 'unknown';
   app?: string;
   time?: string;
   hour?: number;
@@ -11,122 +22,141 @@ export interface PhoneAction {
   duration?: number;
   message?: string;
   query?: string;
+  // Name for timers and alarms: "pasta"
+  label?: string;
+  // Resolved time and cleaned text for reminders
+  reminder?: ParsedReminder;
+  // Repeating alarms: "alarm for Mondays at 6:30"
+  recurrence?: Recurrence;
+  // What to play, structured: "the album X by Y"
+  music?: MusicQuery;
+  // Only when one was named - otherwise the default from settings
+  provider?: MusicProviderId;
+  // Pause, skip, volume and the like for whatever is playing
+  media?: MediaCommand;
+  // Who to message, call or email, and what to say
+  compose?: ComposeDraft;
+  // Set once the user has heard the read-back and said yes
+  confirmed?: boolean;
 }
 
-// Parse voice commands to detect phone actions
-export const parsePhoneAction = (transcript: string): PhoneAction | null => {
-  const lower = transcript.toLowerCase().trim();
-  
-  // Alarm patterns - improved parsing
-  if (lower.includes('set alarm') || lower.includes('set an alarm') || lower.includes('wake me up')) {
-    const timeMatch = lower.match(/(?:for|at)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-    let hour = 0;
-    let minute = 0;
-    
-    if (timeMatch) {
-      hour = parseInt(timeMatch[1]);
-      minute = timeMatch[2] ? parseInt(timeMatch[2]) : 0;
-      const period = timeMatch[3]?.toLowerCase();
-      
-      if (period === 'pm' && hour !== 12) hour += 12;
-      if (period === 'am' && hour === 12) hour = 0;
-    }
-    
-    return {
-      type: 'alarm',
-      time: timeMatch ? timeMatch[0] : undefined,
-      hour,
-      minute,
-      message: transcript
-    };
-  }
-  
-  // Timer patterns
-  if (lower.includes('set timer') || lower.includes('set a timer') || lower.includes('start timer')) {
-    const durationMatch = lower.match(/(\d+)\s*(minute|min|second|sec|hour|hr)s?/i);
-    let duration = 0;
-    if (durationMatch) {
-      const value = parseInt(durationMatch[1]);
-      const unit = durationMatch[2].toLowerCase();
-      if (unit.startsWith('hour') || unit === 'hr') duration = value * 3600;
-      else if (unit.startsWith('min')) duration = value * 60;
-      else duration = value;
-    }
-    return {
-      type: 'timer',
-      duration,
-      message: transcript
-    };
-  }
-  
-  // Reminder patterns
-  if (lower.includes('remind me') || lower.includes('set reminder') || lower.includes('set a reminder')) {
-    return {
-      type: 'reminder',
-      message: transcript
-    };
+export interface PhoneActionResult {
+  response: string;
+  // Present when the action can still be taken back
+  undo?: () => Promise<string>;
+  // Set when the response asks "did you mean ...?" - what to do if the answer is yes
+  followUp?: PhoneAction;
+}
+
+// "5 minutes and 30 seconds"
+export const formatDuration = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0
+    ? `${minutes} minute${minutes !== 1 ? 's' : ''}${seconds > 0 ? ` and ${seconds} seconds` : ''}`
+    : `${seconds} seconds`;
+};
+
+// The service a play_music action goes to
+export const musicProviderFor = (action: PhoneAction): MusicProvider =>
+  getMusicProvider(action.provider ?? getStoredSettings().musicProvider);
+
+const musicTargetFor = (action: PhoneAction) =>
+  musicSearchTarget(musicProviderFor(action), action.music ?? { kind: 'any', text: action.query || '' });
+
+const mediaResponse = ({ control }: MediaCommand, level?: number): string => {
+  const percent = level === undefined ? '' : ` Volume is at ${Math.round(level * 100)}%.`;
+  switch (control) {
+    case 'pause': return 'Paused.';
+    case 'resume': return 'Resuming.';
+    case 'next': return 'Skipping to the next track.';
+    case 'previous': return 'Going back a track.';
+    case 'mute': return 'Muted.';
+    case 'unmute': return `Unmuted.${percent}`;
+    default: return percent.trim() || 'Volume changed.';
   }
-  
-  // Pause/Stop music patterns
-  if (lower.includes('pause') || lower.includes('stop music') || lower.includes('stop playing')) {
-    return {
-      type: 'pause_music'
-    };
+};
+
+const composeDetail = (draft: ComposeDraft | undefined, text?: string): string =>
+  draft ? (text ? `To ${draft.recipient} · ${text}` : `To ${draft.recipient}`) : '';
+
+// What happens once the user says yes - the phone's own app does the sending
+const composeResponse = (channel: ComposeChannel, draft: ComposeDraft): string => {
+  switch (channel) {
+    case 'call':
+      return draft.address
+        ? `Opening the dialer for ${draft.recipient}.`
+        : `Opening the dialer - pick ${draft.recipient} from your contacts.`;
+    case 'message':
+      return draft.address
+        ? `Your message to ${draft.recipient} is ready - tap send.`
+        : `Your message is ready - pick ${draft.recipient} and tap send.`;
+    case 'email':
+      return draft.address
+        ? `Your email to ${draft.recipient} is ready - tap send.`
+        : `Your email is ready - add ${draft.recipient}'s address and tap send.`;
   }
-  
-  // Open app patterns
-  if (lower.includes('open ') || lower.includes('launch ') || lower.includes('start ')) {
-    const appMatch = lower.match(/(?:open|launch|start)\s+(.+?)(?:\s+app)?$/i);
-    if (appMatch) {
+};
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+// Short title and detail line for showing an action as a card
+export const describePhoneAction = (action: PhoneAction): { title: string; detail: string } => {
+  switch (action.type) {
+    case 'alarm':
       return {
-        type: 'open_app',
-        app: appMatch[1].trim()
+        title: 'Alarm',
+        detail: (action.recurrence && capitalize(describeRecurrence(action.recurrence))) ||
+          action.time?.replace(/^(?:for|at)\s+/, '') ||
+          `${action.hour ?? 0}:${String(action.minute || 0).padStart(2, '0')}`,
       };
+    case 'timer':
+      return { title: 'Timer', detail: action.duration ? formatDuration(action.duration) : 'No duration' };
+    case 'reminder': {
+      if (!action.reminder) return { title: 'Reminder', detail: action.message || '' };
+      const when = action.reminder.recurrence
+        ? capitalize(describeRecurrence(action.reminder.recurrence))
+        : new Intl.DateTimeFormat(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+          .format(action.reminder.at);
+      return { title: 'Reminder', detail: action.reminder.text ? `${action.reminder.text} · ${when}` : when };
     }
-  }
-  
-  // Music/Spotify patterns - expanded detection
-  if (lower.includes('play ')) {
-    // Extract what to play - remove common prefixes
-    let query = lower.replace(/^.*?play\s+/, '').trim();
-    // Remove trailing "on spotify", "on music", etc.
-    query = query.replace(/\s+on\s+(spotify|music).*$/i, '').trim();
-    // Remove "music", "song", "spotify" from the end if standalone
-    query = query.replace(/\s+(music|song|spotify)$/i, '').trim();
-    
-    if (query && query !== 'spotify' && query !== 'music') {
+    case 'open_app':
+      return { title: 'Open app', detail: action.app || '' };
+    case 'play_music':
       return {
-        type: 'play_music',
-        query: query,
-        app: 'spotify'
+        title: 'Music',
+        detail: action.query ? `${action.query} · ${musicProviderFor(action).name}` : musicProviderFor(action).name,
       };
-    }
-  }
-  
-  if (lower.includes('play spotify') || lower.includes('open spotify') || lower === 'spotify') {
-    return {
-      type: 'open_app',
-      app: 'spotify'
-    };
+    case 'media_control':
+      return { title: 'Music', detail: action.media ? describeMediaCommand(action.media) : '' };
+    case 'message':
+      return { title: 'Message', detail: composeDetail(action.compose, action.compose?.body) };
+    case 'call':
+      return { title: 'Call', detail: action.compose?.recipient ?? '' };
+    case 'email':
+      return { title: 'Email', detail: composeDetail(action.compose, action.compose?.subject ?? action.compose?.body) };
+    default:
+      return { title: 'Action', detail: '' };
   }
-  
-  return null;
 };
 
+// Alarms and timers are set with the system clock on native, so that's where they show
+const CLOCK_APP = BUILT_IN_APPS.find(app => app.id === 'clock');
+
+// Parse voice commands to detect phone actions - the phrasings live in the grammar
+export const parsePhoneAction = (transcript: string): PhoneAction | null =>
+  phoneCommands.match(transcript)?.value ?? null;
+
 // Execute phone actions with native Capacitor support
 export const usePhoneActions = () => {
   const {
     isNative,
     hapticNotification,
-    showNotification,
-    scheduleNotification,
-    setNativeAlarm,
-    setNativeTimer,
-    playOnSpotify,
     openAppByIntent,
   } = useNativeCapabilities();
+  const { schedule, cancel } = useScheduledItems();
 
-  const executeAction = useCallback(async (action: PhoneAction): Promise<string> => {
+  const executeAction = useCallback(async (action: PhoneAction): Promise<PhoneActionResult> => {
     console.log('Executing phone action:', action, 'isNative:', isNative);
     
     // Provide haptic feedback for all actions
@@ -134,134 +164,180 @@ export const usePhoneActions = () => {
     
     switch (action.type) {
       case 'alarm': {
-        if (isNative && action.hour !== undefined) {
-          const success = await setNativeAlarm(action.hour, action.minute || 0, action.message);
-          if (success) {
-            const timeStr = action.time || `${action.hour}:${String(action.minute || 0).padStart(2, '0')}`;
-            toast.success(`Setting alarm for ${timeStr}`);
-            return `I'm opening your clock app to set an alarm for ${timeStr}.`;
-          }
-        }
-        
-        // Web fallback with notification
-        if (action.time) {
-          toast.success(`Alarm noted for ${action.time}`);
-          return `I've noted your alarm for ${action.time}. On this device, I'll use a notification to remind you.`;
+        if (!action.time || action.hour === undefined) {
+          return { response: `I heard you want to set an alarm. Try saying "Set alarm for 7:30 AM".` };
         }
-        
-        return `I heard you want to set an alarm. Try saying "Set alarm for 7:30 AM".`;
+
+        const now = new Date();
+        const at = action.recurrence
+          ? nextOccurrence(action.recurrence, now)
+          : new Date(now.getFullYear(), now.getMonth(), now.getDate(), action.hour, action.minute || 0);
+        if (at <= now) at.setDate(at.getDate() + 1);
+
+        const item = await schedule({ kind: 'alarm', label: action.label || '', at, recurrence: action.recurrence });
+        if (!item) return { response: "I couldn't save that alarm on this device." };
+
+        const when = action.recurrence ? describeRecurrence(action.recurrence) : describeReminderTime(at);
+        toast.success(`Alarm set for ${when}`);
+        return {
+          response: action.recurrence ? `Okay, your alarm will go off ${when}.` : `Alarm set for ${when}.`,
+          undo: async () => ((await cancel(item.id)) ? 'Alarm cancelled.' : "I couldn't cancel that alarm."),
+        };
       }
       
       case 'timer': {
         if (action.duration && action.duration > 0) {
-          const minutes = Math.floor(action.duration / 60);
-          const seconds = action.duration % 60;
-          const timeStr = minutes > 0 
-            ? `${minutes} minute${minutes !== 1 ? 's' : ''}${seconds > 0 ? ` and ${seconds} seconds` : ''}` 
-            : `${seconds} seconds`;
-          
-          if (isNative) {
-            const success = await setNativeTimer(action.duration, `Timer for ${timeStr}`);
-            if (success) {
-              toast.success(`Setting timer for ${timeStr}`);
-              return `I'm opening your clock app to set a timer for ${timeStr}.`;
-            }
-          }
-          
-          // Web fallback - use local notification
-          setTimeout(async () => {
-            await hapticNotification('success');
-            await showNotification('Timer Complete!', `Your ${timeStr} timer has finished.`);
-            toast.success('Timer finished!', { duration: 10000 });
-          }, action.duration * 1000);
-          
-          toast.success(`Timer set for ${timeStr}`);
-          return `Timer set for ${timeStr}. I'll notify you when it's done!`;
+          const timeStr = formatDuration(action.duration);
+          const item = await schedule({
+            kind: 'timer',
+            label: action.label || '',
+            at: new Date(Date.now() + action.duration * 1000),
+            durationSeconds: action.duration,
+          });
+          if (!item) return { response: "I couldn't save that timer on this device." };
+
+          const name = action.label ? `${action.label} timer` : 'Timer';
+          toast.success(`${name} set for ${timeStr}`);
+          return {
+            response: `${name} set for ${timeStr}. I'll let you know when it's done!`,
+            undo: async () => ((await cancel(item.id)) ? `Cancelled your ${timeStr} timer.` : "I couldn't cancel that timer."),
+          };
         }
-        return "I didn't catch the duration. Try saying something like 'set a timer for 5 minutes'.";
+        return { response: "I didn't catch the duration. Try saying something like 'set a timer for 5 minutes'." };
       }
       
       case 'reminder': {
-        // Schedule a notification reminder
-        const reminderTime = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now default
-        await scheduleNotification('Reminder', action.message || 'You asked me to remind you!', reminderTime);
-        toast.info('Reminder set');
-        return `I've set a reminder for you. I'll notify you in about an hour with: "${action.message}"`;
+        // An hour out if no time was given
+        const reminderTime = action.reminder?.at ?? new Date(Date.now() + 60 * 60 * 1000);
+        const text = action.reminder?.text ?? '';
+        const recurrence = action.reminder?.recurrence;
+        const item = await schedule({ kind: 'reminder', label: text, at: reminderTime, recurrence });
+        if (!item) return { response: "I couldn't save that reminder on this device." };
+
+        const when = recurrence ? describeRecurrence(recurrence) : describeReminderTime(reminderTime);
+        const about = text && `${action.reminder?.connector ?? 'about'} ${toSecondPerson(text)} `;
+        toast.info(`Reminder set for ${when}`);
+        return {
+          response: action.reminder?.hasExplicitTime === false
+            ? `Okay, I'll remind you ${about}in an hour. Tell me a time if you'd like it sooner or later.`
+            : `Okay, I'll remind you ${about}${when}.`,
+          undo: async () => ((await cancel(item.id)) ? 'Reminder cancelled.' : "I couldn't cancel that reminder."),
+        };
       }
       
       case 'open_app': {
-        const app = action.app?.toLowerCase() || '';
+        const lookup = findApp(action.app || '', getAppRegistry());
         
-        // App package mappings for Android
-        const appMappings: Record<string, { package: string; fallback: string }> = {
-          'spotify': { package: 'com.spotify.music', fallback: 'https://open.spotify.com' },
-          'youtube': { package: 'com.google.android.youtube', fallback: 'https://youtube.com' },
-          'whatsapp': { package: 'com.whatsapp', fallback: 'https://web.whatsapp.com' },
-          'instagram': { package: 'com.instagram.android', fallback: 'https://instagram.com' },
-          'twitter': { package: 'com.twitter.android', fallback: 'https://twitter.com' },
-          'x': { package: 'com.twitter.android', fallback: 'https://x.com' },
-          'facebook': { package: 'com.facebook.katana', fallback: 'https://facebook.com' },
-          'chrome': { package: 'com.android.chrome', fallback: 'https://google.com' },
-          'maps': { package: 'com.google.android.apps.maps', fallback: 'https://maps.google.com' },
-          'google maps': { package: 'com.google.android.apps.maps', fallback: 'https://maps.google.com' },
-          'gmail': { package: 'com.google.android.gm', fallback: 'https://mail.google.com' },
-          'camera': { package: 'camera', fallback: '' },
-          'clock': { package: 'clock', fallback: '' },
-          'calendar': { package: 'com.google.android.calendar', fallback: 'https://calendar.google.com' },
-          'messages': { package: 'sms', fallback: '' },
-          'phone': { package: 'phone', fallback: '' },
-        };
-        
-        const mapping = Object.entries(appMappings).find(([key]) => app.includes(key));
-        
-        if (mapping) {
-          const [appName, { package: pkg, fallback }] = mapping;
-          await openAppByIntent(pkg, fallback);
-          toast.success(`Opening ${appName}`);
-          return `Opening ${appName}...`;
+        if (lookup.kind === 'exact') {
+          await openAppByIntent(lookup.app);
+          toast.success(`Opening ${lookup.app.name}`);
+          return { response: `Opening ${lookup.app.name}...` };
+        }
+
+        if (lookup.kind === 'suggestion') {
+          return {
+            response: `I couldn't find "${action.app}". Did you mean ${lookup.app.name}?`,
+            followUp: { type: 'open_app', app: lookup.app.name },
+          };
         }
         
         toast.info(`I don't know how to open ${action.app}`);
-        return `I'm not sure how to open ${action.app}. Try opening it from your app drawer.`;
+        return { response: `I don't know an app called "${action.app}" yet. You can add it under Settings → Apps.` };
       }
       
       case 'play_music': {
         const query = action.query || '';
+        const provider = musicProviderFor(action);
+        await openAppByIntent(musicTargetFor(action));
         if (query) {
-          await playOnSpotify(query);
-          toast.success(`Playing "${query}" on Spotify`);
-          return `Opening Spotify to play ${query}. Enjoy!`;
+          toast.success(`Playing "${query}" on ${provider.name}`);
+          return { response: `Opening ${provider.name} to play ${query}. Enjoy!` };
         }
         
-        await openAppByIntent('spotify', 'https://open.spotify.com');
-        return 'Opening Spotify...';
+        return { response: `Opening ${provider.name}...` };
+      }
+
+      case 'media_control': {
+        if (!action.media) return { response: "I didn't catch what to do with the music." };
+        const { handled, level } = await runMediaCommand(action.media);
+        if (!handled) {
+          return {
+            response: isNative
+              ? "Nothing's playing that I can control right now."
+              : "I can only control media playing in this tab here. On your phone I can control any music app.",
+          };
+        }
+
+        const inverse = inverseMediaCommand(action.media);
+        return {
+          response: mediaResponse(action.media, level),
+          undo: inverse ? async () => {
+            const undone = await runMediaCommand(inverse);
+            return undone.handled ? 'Done.' : "I couldn't undo that.";
+          } : undefined,
+        };
       }
+      
+      case 'message':
+      case 'call':
+      case 'email': {
+        const draft = action.compose;
+        if (!draft) return { response: "I didn't catch who that's for." };
+        // Nothing goes out without a read-back first
+        if (!action.confirmed) {
+          return { response: describeComposeQuestion(action.type, draft), followUp: { ...action, confirmed: true } };
+        }
 
-      case 'pause_music': {
-        // We can't directly control media, but we can provide feedback
-        toast.info('Use your phone\'s media controls to pause');
-        return "I can't directly pause music from here, but you can use your phone's media controls or say 'Hey Google, pause'.";
+        const uri = composeUri(action.type, draft);
+        if (!(await openAppByIntent({ uri, webUrl: uri }))) {
+          return { response: "I couldn't open that on this device." };
+        }
+        return { response: composeResponse(action.type, draft) };
       }
       
       default:
-        return '';
+        return { response: '' };
     }
-  }, [isNative, hapticNotification, setNativeAlarm, setNativeTimer, showNotification, scheduleNotification, openAppByIntent, playOnSpotify]);
-  
-  const checkAndExecute = useCallback(async (transcript: string): Promise<{ handled: boolean; response: string }> => {
-    const action = parsePhoneAction(transcript);
-    
-    if (action) {
-      const response = await executeAction(action);
-      return { handled: true, response };
+  }, [isNative, hapticNotification, schedule, cancel, openAppByIntent]);
+
+  // Jump to whatever an action was about - the app, the search, or the clock.
+  // Reminders have no app of their own; they live in the reminders sheet
+  const openActionTarget = useCallback(async (action: PhoneAction): Promise<boolean> => {
+    switch (action.type) {
+      case 'open_app': {
+        const lookup = findApp(action.app || '', getAppRegistry());
+        return lookup.kind === 'exact' ? openAppByIntent(lookup.app) : false;
+      }
+      case 'play_music':
+        return openAppByIntent(musicTargetFor(action));
+      case 'alarm':
+      case 'timer':
+        return CLOCK_APP ? openAppByIntent(CLOCK_APP) : false;
+      default:
+        return false;
     }
-    
-    return { handled: false, response: '' };
-  }, [executeAction]);
+  }, [openAppByIntent]);
+
+  // Whether openActionTarget has anywhere to go on this device
+  const canOpenActionTarget = useCallback((action: PhoneAction): boolean => {
+    switch (action.type) {
+      case 'open_app':
+        return findApp(action.app || '', getAppRegistry()).kind === 'exact';
+      case 'play_music':
+        return true;
+      case 'alarm':
+      case 'timer':
+        // The clock intent has no web fallback
+        return isNative && Boolean(CLOCK_APP);
+      default:
+        return false;
+    }
+  }, [isNative]);
   
   return {
     parsePhoneAction,
     executeAction,
-    checkAndExecute
+    openActionTarget,
+    canOpenActionTarget
   };
 };
\ No newline at end of file
@@ -0,0 +1,302 @@
+/**
+ * Timers, alarms and reminders created by the assistant.
+ * Persisted in localStorage; native builds schedule them with LocalNotifications,
+ * the web keeps in-page timeouts that are re-armed whenever the app loads.
+ * Repeating items re-arm their next occurrence each time they go off.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import type { Schedule, ScheduleEvery } from '@capacitor/local-notifications';
+import { useNativeCapabilities, type NotificationOptions } from './useNativeCapabilities';
+import { describeItemName, type ScheduledItem, type ScheduledKind } from '@/lib/ai/scheduledItems';
+import { EVERY_DAY, nextOccurrence, type Recurrence } from '@/lib/ai/recurrence';
+import { NOTIFICATION_ACTION_TYPES, type ScheduledNotificationExtra } from '@/lib/notificationActions';
+
+const STORAGE_KEY = 'jarvis_scheduled_items';
+
+// Fired items stay around this long so "snooze" and "add 2 minutes" still find them
+export const FIRED_ITEM_WINDOW_MS = 60 * 60 * 1000;
+
+// setTimeout can't wait longer than this (about 24.8 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export interface ScheduledItemDraft {
+  kind: ScheduledKind;
+  label: string;
+  at: Date;
+  durationSeconds?: number;
+  recurrence?: Recurrence;
+}
+
+// What the reminders screen can change
+export type ScheduledItemChanges = Partial<Pick<ScheduledItem, 'label' | 'recurrence'>> & { at?: Date };
+
+const isRecent = (item: ScheduledItem, now: number) => !item.firedAt || now - item.firedAt < FIRED_ITEM_WINDOW_MS;
+
+// Read synchronously so skills always see the latest items
+export const getScheduledItems = (): ScheduledItem[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const items: ScheduledItem[] = stored ? JSON.parse(stored) : [];
+    const now = Date.now();
+    return items.filter(item => isRecent(item, now));
+  } catch {
+    return [];
+  }
+};
+
+const saveScheduledItems = (items: ScheduledItem[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    return true;
+  } catch (e) {
+    console.error('Failed to save timers locally:', e);
+    return false;
+  }
+};
+
+const updateStoredItem = (id: number, changes: Partial<ScheduledItem>): ScheduledItem | null => {
+  const items = getScheduledItems();
+  const item = items.find(i => i.id === id);
+  if (!item) return null;
+  const updated = { ...item, ...changes };
+  saveScheduledItems(items.map(i => (i.id === id ? updated : i)));
+  return updated;
+};
+
+// LocalNotifications ids are Java ints - Date.now() doesn't fit
+const createItemId = (items: ScheduledItem[], reserved: number[] = []): number => {
+  let id: number;
+  do {
+    id = 1 + Math.floor(Math.random() * (2 ** 31 - 2));
+  } while (reserved.includes(id) || items.some(item => item.id === id || item.notificationIds?.includes(id)));
+  return id;
+};
+
+const EVERY_UNITS: [ScheduleEvery, number][] = [['day', 86400], ['hour', 3600], ['minute', 60]];
+
+// How the OS should repeat an item. Weekly repeats need one notification per
+// weekday; intervals use `every`, which Android multiplies by `count`.
+const nativeSchedulesFor = (item: ScheduledItem, recurrence: Recurrence): { id: number; schedule: Schedule }[] => {
+  if (recurrence.kind === 'interval') {
+    const [every, unit] = EVERY_UNITS.find(([, seconds]) => recurrence.seconds % seconds === 0) ?? EVERY_UNITS[2];
+    return [{ id: item.id, schedule: { every, count: Math.round(recurrence.seconds / unit) } }];
+  }
+
+  const { hour, minute, weekdays } = recurrence;
+  if (weekdays.length === EVERY_DAY.length) return [{ id: item.id, schedule: { on: { hour, minute } } }];
+  // Extra weekdays get ids of their own
+  const ids = [item.id];
+  while (ids.length < weekdays.length) ids.push(createItemId(getScheduledItems(), ids));
+  // LocalNotifications counts weekdays from 1 (Sunday)
+  return weekdays.map((weekday, index) => ({ id: ids[index], schedule: { on: { weekday: weekday + 1, hour, minute } } }));
+};
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+export const notificationFor = (item: ScheduledItem): { title: string; body: string } => {
+  switch (item.kind) {
+    case 'timer':
+      return {
+        title: 'Timer done',
+        body: `${capitalize(item.label ? `${item.label} timer` : describeItemName(item).replace(/^your /, ''))} has finished.`,
+      };
+    case 'alarm':
+      return { title: 'Alarm', body: item.label ? capitalize(item.label) : 'Time to get up!' };
+    case 'reminder':
+      return { title: 'Reminder', body: item.label ? capitalize(item.label) : 'You asked me to remind you!' };
+  }
+};
+
+// Timers offer Restart, alarms and reminders Snooze/Done
+const notificationOptionsFor = (item: ScheduledItem): NotificationOptions => {
+  const extra: ScheduledNotificationExtra = { itemId: item.id };
+  return {
+    actionTypeId: item.kind === 'timer' ? NOTIFICATION_ACTION_TYPES.timer : NOTIFICATION_ACTION_TYPES.reminder,
+    extra,
+  };
+};
+
+// In-page timeouts for items the OS isn't holding - shared by every hook instance
+const webTimeouts = new Map<number, ReturnType<typeof setTimeout>>();
+
+const clearWebTimeout = (id: number) => {
+  const timeout = webTimeouts.get(id);
+  if (timeout !== undefined) clearTimeout(timeout);
+  webTimeouts.delete(id);
+};
+
+export const useScheduledItems = () => {
+  const [items, setItems] = useState<ScheduledItem[]>(getScheduledItems);
+  const {
+    hapticNotification,
+    showNotification,
+    scheduleNotification,
+    scheduleRepeatingNotifications,
+    cancelNotification,
+    getPendingNotificationIds,
+  } = useNativeCapabilities();
+
+  const onFire = useCallback(async (item: ScheduledItem) => {
+    webTimeouts.delete(item.id);
+    const now = Date.now();
+    const next = item.recurrence
+      ? updateStoredItem(item.id, { at: nextOccurrence(item.recurrence, new Date(now), item.at).getTime(), lastFiredAt: now })
+      : updateStoredItem(item.id, { firedAt: now });
+    if (next?.recurrence) armWebTimeoutRef.current(next);
+    setItems(getScheduledItems());
+    const { title, body } = notificationFor(item);
+    await hapticNotification('success');
+    await showNotification(title, body, undefined, notificationOptionsFor(item));
+    toast.success(body, { duration: 10000 });
+  }, [hapticNotification, showNotification]);
+
+  // Timeouts outlive the component that armed them - always fire the latest handler
+  const onFireRef = useRef(onFire);
+  onFireRef.current = onFire;
+
+  const armWebTimeout = useCallback((item: ScheduledItem) => {
+    if (item.isNative || item.firedAt || item.paused || webTimeouts.has(item.id)) return;
+    const delay = Math.max(0, item.at - Date.now());
+    if (delay > MAX_TIMEOUT_MS) return;
+    webTimeouts.set(item.id, setTimeout(() => onFireRef.current(item), delay));
+  }, []);
+
+  // onFire re-arms repeating items, but is declared before armWebTimeout
+  const armWebTimeoutRef = useRef(armWebTimeout);
+  armWebTimeoutRef.current = armWebTimeout;
+
+  // Mark whatever went off while we weren't looking, then re-arm the rest
+  const refresh = useCallback(async (): Promise<ScheduledItem[]> => {
+    const now = Date.now();
+    const pending = await getPendingNotificationIds();
+    const current = getScheduledItems().map(item => {
+      if (item.firedAt || item.paused || item.at > now) return item;
+      // The OS keeps repeating on its own - just catch `at` up to the next occurrence
+      if (item.recurrence) {
+        if (!item.isNative && webTimeouts.has(item.id)) return item;
+        const next = nextOccurrence(item.recurrence, new Date(now), item.at).getTime();
+        return { ...item, at: next, lastFiredAt: item.at };
+      }
+      const stillPending = item.isNative ? pending?.has(item.id) : webTimeouts.has(item.id);
+      return stillPending ? item : { ...item, firedAt: item.at };
+    });
+    saveScheduledItems(current.filter(item => isRecent(item, now)));
+    const fresh = getScheduledItems();
+    fresh.forEach(armWebTimeout);
+    setItems(fresh);
+    return fresh;
+  }, [getPendingNotificationIds, armWebTimeout]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const arm = useCallback(async (item: ScheduledItem): Promise<ScheduledItem> => {
+    if (item.paused) return { ...item, isNative: false, notificationIds: undefined };
+    const { title, body } = notificationFor(item);
+    if (item.recurrence) {
+      const schedules = nativeSchedulesFor(item, item.recurrence);
+      const scheduled = await scheduleRepeatingNotifications(title, body, schedules, notificationOptionsFor(item));
+      const armed = { ...item, isNative: Boolean(scheduled), notificationIds: scheduled ? schedules.map(s => s.id) : undefined };
+      if (!armed.isNative) armWebTimeout(armed);
+      return armed;
+    }
+    const scheduled = await scheduleNotification(title, body, new Date(item.at), item.id, notificationOptionsFor(item));
+    const armed = { ...item, isNative: Boolean(scheduled) };
+    if (!armed.isNative) armWebTimeout(armed);
+    return armed;
+  }, [scheduleNotification, scheduleRepeatingNotifications, armWebTimeout]);
+
+  // Take an item off the OS and out of the page - it stays in storage
+  const disarm = useCallback(async (item: ScheduledItem) => {
+    clearWebTimeout(item.id);
+    if (item.isNative && !item.firedAt) await cancelNotification(item.notificationIds ?? item.id);
+  }, [cancelNotification]);
+
+  const schedule = useCallback(async (draft: ScheduledItemDraft): Promise<ScheduledItem | null> => {
+    const existing = getScheduledItems();
+    const item = await arm({
+      id: createItemId(existing),
+      kind: draft.kind,
+      label: draft.label,
+      at: draft.at.getTime(),
+      createdAt: Date.now(),
+      durationSeconds: draft.durationSeconds,
+      recurrence: draft.recurrence,
+      isNative: false,
+    });
+    if (!saveScheduledItems([...existing, item])) return null;
+    setItems(getScheduledItems());
+    return item;
+  }, [arm]);
+
+  const cancel = useCallback(async (id: number): Promise<boolean> => {
+    const item = getScheduledItems().find(i => i.id === id);
+    if (!item) return false;
+    await disarm(item);
+    const saved = saveScheduledItems(getScheduledItems().filter(i => i.id !== id));
+    setItems(getScheduledItems());
+    return saved;
+  }, [disarm]);
+
+  // Move an item (snooze, add time) - it gets a fresh notification at the new time
+  const reschedule = useCallback(async (id: number, at: Date): Promise<ScheduledItem | null> => {
+    const item = getScheduledItems().find(i => i.id === id);
+    if (!item) return null;
+    await disarm(item);
+    const armed = await arm({ ...item, at: at.getTime(), firedAt: undefined });
+    const updated = updateStoredItem(id, armed);
+    setItems(getScheduledItems());
+    return updated;
+  }, [arm, disarm]);
+
+  // Moving a repeat would shift every later occurrence - snooze a one-off copy instead
+  const snooze = useCallback(async (id: number, seconds: number): Promise<ScheduledItem | null> => {
+    const item = getScheduledItems().find(i => i.id === id);
+    if (!item) return null;
+    const at = new Date(Date.now() + seconds * 1000);
+    return item.recurrence
+      ? schedule({ kind: item.kind, label: item.label, at })
+      : reschedule(id, at);
+  }, [schedule, reschedule]);
+
+  // Edits from the reminders screen - a new repeat or time restarts the schedule
+  const update = useCallback(async (id: number, changes: ScheduledItemChanges): Promise<ScheduledItem | null> => {
+    const item = getScheduledItems().find(i => i.id === id);
+    if (!item) return null;
+    const recurrence = changes.recurrence ?? item.recurrence;
+    const at = recurrence
+      ? nextOccurrence(recurrence, new Date()).getTime()
+      : changes.at?.getTime() ?? item.at;
+    await disarm(item);
+    const armed = await arm({ ...item, label: changes.label ?? item.label, recurrence, at, firedAt: undefined });
+    const updated = updateStoredItem(id, armed);
+    setItems(getScheduledItems());
+    return updated;
+  }, [arm, disarm]);
+
+  // Paused repeats keep their settings but stop going off
+  const setPaused = useCallback(async (id: number, paused: boolean): Promise<ScheduledItem | null> => {
+    const item = getScheduledItems().find(i => i.id === id);
+    if (!item || Boolean(item.paused) === paused) return item ?? null;
+    await disarm(item);
+    const at = item.recurrence && !paused ? nextOccurrence(item.recurrence, new Date()).getTime() : item.at;
+    const armed = await arm({ ...item, at, paused });
+    const updated = updateStoredItem(id, armed);
+    setItems(getScheduledItems());
+    return updated;
+  }, [arm, disarm]);
+
+  return {
+    items,
+    schedule,
+    cancel,
+    reschedule,
+    snooze,
+    update,
+    setPaused,
+    refresh,
+  };
+};
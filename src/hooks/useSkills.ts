@@ -0,0 +1,53 @@
+/**
+ * Skill registry for both modes - add new capabilities here, not in the modes
+ */
+
+import { useCallback, useMemo } from 'react';
+import { createAssistantSkill } from '@/lib/skills/assistantSkill';
+import { dispatchUtterance } from '@/lib/skills/dispatcher';
+import { createPhoneActionsSkill } from '@/lib/skills/phoneActionsSkill';
+import { createScheduleSkill } from '@/lib/skills/scheduleSkill';
+import type { Skill, SkillContext } from '@/lib/skills/types';
+import { useLocalAI } from './useLocalAI';
+import { usePhoneActions } from './usePhoneActions';
+import { useScheduledItems } from './useScheduledItems';
+
+export const useSkills = () => {
+  const { executeAction } = usePhoneActions();
+  const { processMessage, streamResponse } = useLocalAI();
+  const { refresh, cancel, reschedule, snooze } = useScheduledItems();
+
+  // Registry order breaks ties between equally confident skills
+  const skills = useMemo<Skill[]>(() => [
+    createScheduleSkill({ refresh, cancel, reschedule, snooze }),
+    createPhoneActionsSkill(executeAction),
+    createAssistantSkill({
+      generate: (message, history, isVoiceMode, signal) =>
+        processMessage(message, history, { isVoiceMode, signal }),
+      stream: (message, history, isVoiceMode, onChunk, signal) =>
+        new Promise((resolve, reject) => {
+          let text = '';
+          streamResponse(
+            message,
+            history,
+            (chunk) => {
+              text += chunk;
+              onChunk(chunk);
+            },
+            ({ stopped }) => (stopped ? reject(new DOMException('Generation stopped', 'AbortError')) : resolve(text)),
+            { isVoiceMode, signal }
+          );
+        }),
+    }),
+  ], [executeAction, processMessage, streamResponse, refresh, cancel, reschedule, snooze]);
+
+  const dispatch = useCallback(
+    (utterance: string, context: SkillContext) => dispatchUtterance(utterance, context, skills),
+    [skills]
+  );
+
+  return {
+    skills,
+    dispatch,
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildBm25Index, findBestPassage, passagesFromKnowledgeBase, searchBm25 } from './bm25';
+
+const knowledgeBase = {
+  greeting: ['Hello there!'],
+  sun: ['The sun is a star at the center of our solar system.'],
+  planets: ['There are eight planets orbiting the sun.', 'Jupiter is the largest planet.'],
+};
+
+// Greetings aren't facts, so they never answer a question
+const index = buildBm25Index(passagesFromKnowledgeBase(knowledgeBase, ['greeting']));
+
+describe('passagesFromKnowledgeBase', () => {
+  it('makes one passage per response and skips excluded intents', () => {
+    expect(passagesFromKnowledgeBase(knowledgeBase, ['greeting'])).toEqual([
+      { intent: 'sun', text: 'The sun is a star at the center of our solar system.' },
+      { intent: 'planets', text: 'There are eight planets orbiting the sun.' },
+      { intent: 'planets', text: 'Jupiter is the largest planet.' },
+    ]);
+  });
+});
+
+describe('searchBm25', () => {
+  it('ranks the passage sharing the rarest terms first', () => {
+    const hits = searchBm25(index, 'which planet is the largest');
+    expect(hits.map(hit => hit.passage.text)).toEqual([
+      'Jupiter is the largest planet.',
+      'There are eight planets orbiting the sun.',
+    ]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('keeps confidence between 0 and 1', () => {
+    for (const hit of searchBm25(index, 'what star is at the center of the solar system')) {
+      expect(hit.confidence).toBeGreaterThan(0);
+      expect(hit.confidence).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it.each(['bananas', 'hello there', ''])('finds nothing for %j', query => {
+    expect(searchBm25(index, query)).toEqual([]);
+  });
+
+  it('handles an empty index', () => {
+    expect(searchBm25(buildBm25Index([]), 'sun')).toEqual([]);
+  });
+});
+
+describe('findBestPassage', () => {
+  it.each([
+    ['which planet is the largest', 'Jupiter is the largest planet.'],
+    ['what star is at the center of the solar system', 'The sun is a star at the center of our solar system.'],
+    // Only one of three terms is known - not relevant enough to answer with
+    ['is jupiter big', null],
+    ['bananas', null],
+  ])('%s', (query, text) => {
+    expect(findBestPassage(index, query)?.passage.text ?? null).toBe(text);
+  });
+
+  it('honours a custom threshold', () => {
+    expect(findBestPassage(index, 'is jupiter big', 0.3)?.passage.intent).toBe('planets');
+  });
+});
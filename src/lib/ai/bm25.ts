@@ -0,0 +1,123 @@
+/**
+ * BM25 retrieval over the offline knowledge base.
+ * Used as a second stage when no intent pattern matches, so answers can be
+ * found even when the question is phrased differently from the regexes.
+ */
+
+import { contentTokens } from './text';
+
+export interface Passage {
+  intent: string;
+  text: string;
+}
+
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+}
+
+export interface Bm25Index {
+  passages: Passage[];
+  // term -> (passage index -> term frequency)
+  postings: Map<string, Map<number, number>>;
+  lengths: number[];
+  averageLength: number;
+  k1: number;
+  b: number;
+}
+
+export interface Bm25Hit {
+  passage: Passage;
+  score: number;
+  // Score relative to an average-length passage containing every query term once
+  confidence: number;
+}
+
+// Minimum confidence before a retrieved passage is used as an answer
+export const DEFAULT_RELEVANCE_THRESHOLD = 0.45;
+
+export const buildBm25Index = (passages: Passage[], { k1 = 1.2, b = 0.75 }: Bm25Options = {}): Bm25Index => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  passages.forEach((passage, index) => {
+    const tokens = contentTokens(passage.text);
+    lengths.push(tokens.length);
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(index, (posting.get(index) || 0) + 1);
+    }
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    passages,
+    postings,
+    lengths,
+    averageLength: passages.length > 0 ? totalLength / passages.length : 0,
+    k1,
+    b,
+  };
+};
+
+// Passages made of every response of every intent, skipping the ones that aren't facts
+export const passagesFromKnowledgeBase = (
+  knowledgeBase: Record<string, string[]>,
+  excludedIntents: string[] = []
+): Passage[] => {
+  return Object.entries(knowledgeBase)
+    .filter(([intent]) => !excludedIntents.includes(intent))
+    .flatMap(([intent, texts]) => texts.map(text => ({ intent, text })));
+};
+
+const inverseDocumentFrequency = (index: Bm25Index, term: string): number => {
+  const documentFrequency = index.postings.get(term)?.size || 0;
+  const total = index.passages.length;
+  return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+};
+
+export const searchBm25 = (index: Bm25Index, query: string, limit: number = 3): Bm25Hit[] => {
+  const terms = [...new Set(contentTokens(query))];
+  if (terms.length === 0 || index.passages.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  let referenceScore = 0;
+
+  for (const term of terms) {
+    const idf = inverseDocumentFrequency(index, term);
+    // Unknown terms still count toward the reference, which lowers confidence
+    referenceScore += idf;
+
+    const posting = index.postings.get(term);
+    if (!posting) continue;
+
+    for (const [passageIndex, frequency] of posting) {
+      const lengthNorm = 1 - index.b + index.b * (index.lengths[passageIndex] / index.averageLength);
+      const termScore = idf * (frequency * (index.k1 + 1)) / (frequency + index.k1 * lengthNorm);
+      scores.set(passageIndex, (scores.get(passageIndex) || 0) + termScore);
+    }
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([passageIndex, score]) => ({
+      passage: index.passages[passageIndex],
+      score,
+      confidence: Math.min(1, score / referenceScore),
+    }));
+};
+
+// Best passage above the threshold, or null when nothing is relevant enough
+export const findBestPassage = (
+  index: Bm25Index,
+  query: string,
+  threshold: number = DEFAULT_RELEVANCE_THRESHOLD
+): Bm25Hit | null => {
+  const [best] = searchBm25(index, query, 1);
+  return best && best.confidence >= threshold ? best : null;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { answerDateQuestion } from './dateArithmetic';
+
+// Wednesday 10 January 2024, in an en-US locale
+const now = new Date(2024, 0, 10, 9, 0);
+
+describe('answerDateQuestion', () => {
+  it.each([
+    ['what day is 45 days from now', 'February 24, 2024 will be a Saturday.'],
+    ['what day was 3 days ago', 'January 7, 2024 was a Sunday.'],
+    ['what day is it tomorrow', 'January 11, 2024 will be a Thursday.'],
+    ['what is the date in 2 weeks', 'In 2 weeks it will be Wednesday, January 24, 2024.'],
+    ['what day of the week was July 4 1976', 'July 4, 1976 was a Sunday.'],
+    ['what day is the 3rd of march 2025', 'March 3, 2025 will be a Monday.'],
+  ])('%s', (question, answer) => {
+    expect(answerDateQuestion(question, now)).toBe(answer);
+  });
+
+  it.each([
+    ['how many days until December 25', '350 days until Wednesday, December 25, 2024.'],
+    ['how many weeks until christmas', '50 weeks until Wednesday, December 25, 2024.'],
+    ['how many days until thanksgiving', '323 days until Thursday, November 28, 2024.'],
+    ['how many days until 7/4', '176 days until Thursday, July 4, 2024.'],
+    ['days between March 1 and April 1', 'There are 31 days between Friday, March 1, 2024 and Monday, April 1, 2024.'],
+  ])('counts %s', (question, answer) => {
+    expect(answerDateQuestion(question, now)).toBe(answer);
+  });
+
+  it.each([
+    // A date without a year is the last one for "ago" questions
+    ['how long ago was March 3', 'Friday, March 3, 2023 was 313 days (10 months and 7 days) ago.'],
+    ['how many days since new years', 'Monday, January 1, 2024 was 9 days ago.'],
+  ])('looks back for %s', (question, answer) => {
+    expect(answerDateQuestion(question, now)).toBe(answer);
+  });
+
+  it.each(['what is today', 'tell me a joke'])('leaves %s to other answers', (question) => {
+    expect(answerDateQuestion(question, now)).toBeNull();
+  });
+});
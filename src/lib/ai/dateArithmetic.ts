@@ -0,0 +1,437 @@
+/**
+ * Offline calendar arithmetic.
+ * Answers "what day is 45 days from now", "how many days until December 25",
+ * "what day of the week was July 4 1976" and "how long ago was March 3".
+ * Dates are formatted with Intl in the device locale; numeric dates ("7/4/1976")
+ * are read in the locale's own day/month order.
+ */
+
+import { replaceNumberWords } from './mathLanguage';
+
+type DateUnit = 'day' | 'week' | 'month' | 'year';
+
+// Which way to look when a date has no year ("March 3" until vs. since)
+type Direction = 'future' | 'past' | 'nearest';
+
+interface Duration {
+  amount: number;
+  unit: DateUnit;
+}
+
+const UNIT_WORDS: Record<string, DateUnit> = {
+  day: 'day', days: 'day',
+  week: 'week', weeks: 'week',
+  month: 'month', months: 'month',
+  year: 'year', years: 'year',
+};
+
+const ENGLISH_MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const ORDINAL_WORDS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth',
+  'eighteenth', 'nineteenth',
+];
+
+type YearlyDate = (year: number) => Date | null;
+
+const fixed = (month: number, day: number): YearlyDate => year => makeDate(year, month, day);
+
+// nth weekday of a month, or the last one when nth is -1
+const nthWeekday = (month: number, weekday: number, nth: number): YearlyDate => year => {
+  if (nth === -1) {
+    const last = new Date(year, month + 1, 0);
+    return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7));
+  }
+  const first = new Date(year, month, 1);
+  return new Date(year, month, 1 + ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+};
+
+// US-centric yearly holidays
+const HOLIDAYS: Record<string, YearlyDate> = {
+  "new year's day": fixed(0, 1),
+  "new year's": fixed(0, 1),
+  'new years day': fixed(0, 1),
+  'new years': fixed(0, 1),
+  'new year': fixed(0, 1),
+  "valentine's day": fixed(1, 14),
+  'valentines day': fixed(1, 14),
+  "st patrick's day": fixed(2, 17),
+  'st patricks day': fixed(2, 17),
+  "mother's day": nthWeekday(4, 0, 2),
+  'mothers day': nthWeekday(4, 0, 2),
+  'memorial day': nthWeekday(4, 1, -1),
+  "father's day": nthWeekday(5, 0, 3),
+  'fathers day': nthWeekday(5, 0, 3),
+  'independence day': fixed(6, 4),
+  'labor day': nthWeekday(8, 1, 1),
+  'halloween': fixed(9, 31),
+  'thanksgiving': nthWeekday(10, 4, 4),
+  'christmas eve': fixed(11, 24),
+  'christmas day': fixed(11, 25),
+  'christmas': fixed(11, 25),
+  'xmas': fixed(11, 25),
+  "new year's eve": fixed(11, 31),
+  'new years eve': fixed(11, 31),
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const alternation = (words: string[]): string =>
+  [...new Set(words)].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+// Month names in English plus the device locale ("décembre", "dez"), all mapped to an index
+const buildMonthNames = (): Map<string, number> => {
+  const names = new Map<string, number>();
+  ENGLISH_MONTHS.forEach((name, index) => {
+    names.set(name, index);
+    names.set(name.slice(0, 3), index);
+  });
+  names.set('sept', 8);
+  try {
+    for (const month of ['long', 'short'] as const) {
+      const format = new Intl.DateTimeFormat(undefined, { month });
+      for (let index = 0; index < 12; index++) {
+        const name = format.format(new Date(2000, index, 15)).toLowerCase().replace(/\.$/, '');
+        if (!/\d/.test(name) && !names.has(name)) names.set(name, index);
+      }
+    }
+  } catch {
+    // English names are enough
+  }
+  return names;
+};
+
+const MONTH_NAMES = buildMonthNames();
+const MONTH_PATTERN = `(${alternation([...MONTH_NAMES.keys()])})`;
+const WEEKDAY_PATTERN = `(${WEEKDAYS.join('|')})`;
+const HOLIDAY_PATTERN = `(${alternation(Object.keys(HOLIDAYS))})`;
+const UNIT_PATTERN = `(${Object.keys(UNIT_WORDS).join('|')})`;
+const DAY = String.raw`(\d{1,2})(?:st|nd|rd|th)?`;
+const YEAR = String.raw`(?:,?\s+(\d{4}))?`;
+
+// Order of day and month in the locale's numeric dates, e.g. ['month', 'day', 'year'] in en-US
+const getNumericDateOrder = (): string[] => {
+  try {
+    const order = new Intl.DateTimeFormat()
+      .formatToParts(new Date(2000, 10, 22))
+      .map(part => part.type)
+      .filter(type => type === 'day' || type === 'month' || type === 'year');
+    if (order.length === 3) return order;
+  } catch {
+    // Fall through to the US order
+  }
+  return ['month', 'day', 'year'];
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole calendar days, immune to DST shifts
+const dayNumber = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000);
+
+const daysBetween = (from: Date, to: Date): number => dayNumber(to) - dayNumber(from);
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+const makeDate = (year: number, month: number, day: number): Date | null => {
+  if (month < 0 || month > 11 || day < 1 || day > daysInMonth(year, month)) return null;
+  const date = new Date(year, month, day);
+  // Years below 100 would otherwise be read as 19xx
+  date.setFullYear(year);
+  return date;
+};
+
+const addDuration = (date: Date, { amount, unit }: Duration): Date => {
+  if (unit === 'day' || unit === 'week') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount * (unit === 'week' ? 7 : 1));
+  }
+  // Months and years keep the day of month, clamped to the target month ("Jan 31 + 1 month")
+  const target = new Date(date.getFullYear(), date.getMonth() + amount * (unit === 'year' ? 12 : 1), 1);
+  target.setDate(Math.min(date.getDate(), daysInMonth(target.getFullYear(), target.getMonth())));
+  return target;
+};
+
+// Pick the year for a date written without one
+const withInferredYear = (dateInYear: YearlyDate, today: Date, direction: Direction): Date | null => {
+  const thisYear = dateInYear(today.getFullYear());
+  if (!thisYear) return null;
+  if (direction === 'future' && thisYear < today) return dateInYear(today.getFullYear() + 1);
+  if (direction === 'past' && thisYear > today) return dateInYear(today.getFullYear() - 1);
+  return thisYear;
+};
+
+const withYear = (dateInYear: YearlyDate, year: string | undefined, today: Date, direction: Direction) =>
+  year ? dateInYear(Number(year)) : withInferredYear(dateInYear, today, direction);
+
+// "45 days", "a week and 3 days", "2 years, 3 months"
+const parseDuration = (text: string): Duration[] | null => {
+  const parts = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const durations: Duration[] = [];
+  for (const part of parts) {
+    const match = part.match(new RegExp(String.raw`^(\d+(?:\.\d+)?|an?)\s+${UNIT_PATTERN}$`));
+    if (!match) return null;
+    const amount = /^an?$/.test(match[1]) ? 1 : Number(match[1]);
+    if (!Number.isInteger(amount)) return null;
+    durations.push({ amount, unit: UNIT_WORDS[match[2]] });
+  }
+  return durations.length > 0 ? durations : null;
+};
+
+const applyDurations = (date: Date, durations: Duration[], sign: 1 | -1): Date =>
+  durations.reduce((result, { amount, unit }) => addDuration(result, { amount: amount * sign, unit }), date);
+
+const parseWeekday = (text: string, today: Date, direction: Direction): Date | null => {
+  const match = text.match(new RegExp(`^(?:(next|last|this|coming|past)\\s+)?${WEEKDAY_PATTERN}$`));
+  if (!match) return null;
+  const [, modifier, weekday] = match;
+  const difference = WEEKDAYS.indexOf(weekday) - today.getDay();
+
+  const lookBack = modifier === 'last' || modifier === 'past' || (!modifier && direction === 'past');
+  if (lookBack) {
+    return addDuration(today, { amount: difference < 0 ? difference : difference - 7, unit: 'day' });
+  }
+  // "next friday" never means today; a bare "friday" can
+  const ahead = difference > 0 || (difference === 0 && !modifier && direction === 'nearest')
+    ? difference
+    : difference + 7;
+  return addDuration(today, { amount: ahead, unit: 'day' });
+};
+
+const parseNumericDate = (text: string, today: Date, direction: Direction): Date | null => {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return makeDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const numeric = text.match(/^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2}|\d{4}))?$/);
+  if (!numeric) return null;
+  const order = getNumericDateOrder().filter(type => type !== 'year');
+  const values: Record<string, number> = {
+    [order[0]]: Number(numeric[1]),
+    [order[1]]: Number(numeric[2]),
+  };
+  let year = numeric[3];
+  if (year?.length === 2) year = String(2000 + Number(year));
+  return withYear(fixed(values.month - 1, values.day), year, today, direction);
+};
+
+// "the 3rd" - this month, or the nearest month with that day in the given direction
+const withDayOfMonth = (day: number, today: Date, direction: Direction): Date | null => {
+  const step = direction === 'past' ? -1 : 1;
+  for (let offset = 0; offset < 12; offset++) {
+    const month = new Date(today.getFullYear(), today.getMonth() + offset * step, 1);
+    const date = makeDate(month.getFullYear(), month.getMonth(), day);
+    if (!date) continue;
+    if (direction === 'nearest' || (step > 0 ? date >= today : date <= today)) return date;
+  }
+  return null;
+};
+
+// Parse any supported date expression - the whole text must be a date
+export const parseDateExpression = (input: string, now: Date = new Date(), direction: Direction = 'nearest'): Date | null => {
+  const text = input.trim().replace(/^(?:on\s+)?the\s+/, '');
+  const today = startOfDay(now);
+
+  if (/^(?:today|now|right now)$/.test(text)) return today;
+  if (text === 'tomorrow') return addDuration(today, { amount: 1, unit: 'day' });
+  if (text === 'yesterday') return addDuration(today, { amount: -1, unit: 'day' });
+  if (text === 'day after tomorrow') return addDuration(today, { amount: 2, unit: 'day' });
+  if (text === 'day before yesterday') return addDuration(today, { amount: -2, unit: 'day' });
+
+  // "in 3 weeks", "45 days from now", "2 years ago"
+  const relative = text.match(/^(?:in\s+)?(.+?)\s+(from now|from today|later|hence|ago)$/) ?? text.match(/^in\s+(.+)$/);
+  if (relative) {
+    const durations = parseDuration(relative[1]);
+    if (durations) return applyDurations(today, durations, relative[2] === 'ago' ? -1 : 1);
+  }
+
+  // "10 days before christmas", "2 weeks after march 3"
+  const anchored = text.match(/^(.+?)\s+(after|from|before)\s+(.+)$/);
+  if (anchored) {
+    const durations = parseDuration(anchored[1]);
+    const base = durations && parseDateExpression(anchored[3], now, direction);
+    if (durations && base) return applyDurations(base, durations, anchored[2] === 'before' ? -1 : 1);
+  }
+
+  const weekday = parseWeekday(text, today, direction);
+  if (weekday) return weekday;
+
+  const holiday = text.match(new RegExp(`^${HOLIDAY_PATTERN}${YEAR}$`));
+  if (holiday) return withYear(HOLIDAYS[holiday[1]], holiday[2], today, direction);
+
+  const dayFirst = text.match(new RegExp(`^${DAY}\\s+(?:of\\s+)?${MONTH_PATTERN}${YEAR}$`));
+  if (dayFirst) return withYear(fixed(MONTH_NAMES.get(dayFirst[2])!, Number(dayFirst[1])), dayFirst[3], today, direction);
+
+  const monthFirst = text.match(new RegExp(`^${MONTH_PATTERN}\\s+(?:the\\s+)?${DAY}${YEAR}$`));
+  if (monthFirst) return withYear(fixed(MONTH_NAMES.get(monthFirst[1])!, Number(monthFirst[2])), monthFirst[3], today, direction);
+
+  const dayOfMonth = text.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+  if (dayOfMonth) return withDayOfMonth(Number(dayOfMonth[1]), today, direction);
+
+  return parseNumericDate(text, today, direction);
+};
+
+const formatCount = (count: number, word: string): string =>
+  `${count.toLocaleString()} ${word}${count === 1 ? '' : 's'}`;
+
+const joinParts = (parts: string[]): string =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+// Years, months and days between two dates (from <= to), the way a calendar counts them
+const calendarDifference = (from: Date, to: Date): { years: number; months: number; days: number } => {
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth();
+  if (addDuration(from, { amount: months, unit: 'month' }) > to) months--;
+  const days = daysBetween(addDuration(from, { amount: months, unit: 'month' }), to);
+  return { years: Math.floor(months / 12), months: months % 12, days };
+};
+
+const describeCalendarSpan = (from: Date, to: Date): string => {
+  const { years, months, days } = calendarDifference(from, to);
+  const parts = [
+    years ? formatCount(years, 'year') : '',
+    months ? formatCount(months, 'month') : '',
+    days || (!years && !months) ? formatCount(days, 'day') : '',
+  ].filter(Boolean);
+  return joinParts(parts);
+};
+
+// Span between two dates in the unit the user asked for
+const describeSpan = (a: Date, b: Date, unit?: DateUnit): string => {
+  const [from, to] = a <= b ? [a, b] : [b, a];
+  const days = daysBetween(from, to);
+  if (unit === 'week') {
+    const weeks = Math.floor(days / 7);
+    return joinParts([formatCount(weeks, 'week'), days % 7 ? formatCount(days % 7, 'day') : ''].filter(Boolean));
+  }
+  if (unit === 'month' || unit === 'year') return describeCalendarSpan(from, to);
+  const span = formatCount(days, 'day');
+  // Long spans are easier to grasp in months and years too
+  return !unit && days >= 60 ? `${span} (${describeCalendarSpan(from, to)})` : span;
+};
+
+const formatDate = (date: Date, withWeekday = true): string =>
+  new Intl.DateTimeFormat(undefined, {
+    weekday: withWeekday ? 'long' : undefined,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  }).format(date);
+
+const formatWeekday = (date: Date): string => new Intl.DateTimeFormat(undefined, { weekday: 'long' }).format(date);
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+// Normalize wording so the patterns below stay small
+const normalizeQuestion = (input: string): string => {
+  const ordinals = input
+    .toLowerCase()
+    .replace(/[?!]+/g, ' ')
+    .replace(/[’`]/g, "'")
+    .replace(/\b(?:(twenty|thirty)[\s-])?(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth|twentieth|thirtieth)\b/g,
+      (match, tens: string | undefined, ordinal: string) => {
+        if (ordinal === 'twentieth') return '20th';
+        if (ordinal === 'thirtieth') return '30th';
+        const value = ORDINAL_WORDS.indexOf(ordinal) + 1 + (tens === 'twenty' ? 20 : tens === 'thirty' ? 30 : 0);
+        return `${value}th`;
+      });
+  return replaceNumberWords(ordinals)
+    .replace(/\bwhat's\b/g, 'what is')
+    .replace(/\bit's\b/g, 'it is')
+    .replace(/\s+/g, ' ')
+    .replace(/[.,]$/, '')
+    .trim();
+};
+
+const SPAN_PREFIX = String.raw`^(?:how\s+(?:many|long|much\s+time)\s+|(?=(?:days|weeks|months|years)\b))(?:(days|weeks|months|years)\s+)?`;
+
+const UNTIL_PATTERN = new RegExp(`${SPAN_PREFIX}(?:(?:is\\s+it|are\\s+there|is\\s+there|are\\s+left|left|do\\s+i\\s+have)\\s+)?(?:until|till|til|'til|before|to\\s+go\\s+until)\\s+(.+)$`);
+const SINCE_PATTERN = new RegExp(`${SPAN_PREFIX}(?:(?:has\\s+it\\s+been|have\\s+passed|have\\s+gone\\s+by|is\\s+it|ago\\s+was)\\s+)?since\\s+(.+)$`);
+const AGO_PATTERN = /^how\s+(?:long|many\s+(days|weeks|months|years))\s+ago\s+(?:was|is|did)\s+(.+?)(?:\s+happen)?$/;
+const BETWEEN_PATTERN = new RegExp(`${SPAN_PREFIX}(?:(?:are\\s+there|is\\s+it|is\\s+there)\\s+)?(?:between|from)\\s+(.+?)\\s+(?:and|to|until)\\s+(.+)$`);
+const WHICH_DAY_PATTERN = /^(?:what|which)\s+(day(?:\s+of\s+the\s+week)?|date)\s+(is|was|will\s+be|will|does|did|falls?)\s+(?:it\s+(?:be\s+)?)?(.+?)(?:\s+(?:be|fall\s+on|land\s+on|fall))?$/;
+// "10 days before christmas is what day"
+const WHICH_DAY_AFTER_PATTERN = /^(.+?)\s+(is|was|will\s+be|falls\s+on|fell\s+on)\s+(?:what|which)\s+(day(?:\s+of\s+the\s+week)?|date)$/;
+const WHAT_DATE_PATTERN = /^what\s+(?:is|was|will\s+be)\s+(?:the\s+date\s+)?(.+)$/;
+const WHEN_PATTERN = /^when\s+is\s+(.+)$/;
+
+const unitFrom = (word: string | undefined): DateUnit | undefined => (word ? UNIT_WORDS[word] : undefined);
+
+// "was July 4" looks back, "is July 4" looks ahead
+const directionFromVerb = (verb: string): Direction => (/^(?:was|did|fell)/.test(verb) ? 'past' : 'future');
+
+const isRelative = (expression: string): boolean => /^in\s|\s(?:ago|from now|from today|later|hence)$/.test(expression);
+
+// "In 3 weeks it will be", "45 days from now will be", "Halloween was"
+const describeDate = (expression: string, date: Date, today: Date): string => {
+  const days = daysBetween(today, date);
+  const tense = days < 0 ? 'was' : days === 0 ? 'is' : 'will be';
+  const subject = /^in\s/.test(expression) ? `${capitalize(expression)} it` : capitalize(expression);
+  if (isRelative(expression)) return `${subject} ${tense} ${formatDate(date)}.`;
+  const distance = days === 0 ? 'today' : days > 0 ? `in ${describeSpan(today, date)}` : `${describeSpan(date, today)} ago`;
+  return `${subject} ${days < 0 ? 'was' : 'is'} ${formatDate(date)} - ${distance}.`;
+};
+
+// Answer a calendar question, or null when the message isn't one
+export const answerDateQuestion = (input: string, now: Date = new Date()): string | null => {
+  const text = normalizeQuestion(input);
+  const today = startOfDay(now);
+
+  const between = text.match(BETWEEN_PATTERN);
+  if (between) {
+    const from = parseDateExpression(between[2], now);
+    const to = from && parseDateExpression(between[3], now);
+    if (from && to) {
+      return `There ${daysBetween(from, to) === 1 ? 'is' : 'are'} ${describeSpan(from, to, unitFrom(between[1]))} between ${formatDate(from)} and ${formatDate(to)}.`;
+    }
+  }
+
+  const until = text.match(UNTIL_PATTERN);
+  if (until) {
+    const date = parseDateExpression(until[2], now, 'future');
+    if (date) {
+      const days = daysBetween(today, date);
+      if (days === 0) return `${capitalize(formatDate(date))} is today!`;
+      if (days < 0) return `${capitalize(formatDate(date))} was ${describeSpan(date, today, unitFrom(until[1]))} ago.`;
+      return `${capitalize(describeSpan(today, date, unitFrom(until[1])))} until ${formatDate(date)}.`;
+    }
+  }
+
+  const since = text.match(SINCE_PATTERN) ?? text.match(AGO_PATTERN);
+  if (since) {
+    const date = parseDateExpression(since[2], now, 'past');
+    if (date) {
+      const days = daysBetween(date, today);
+      if (days === 0) return `${capitalize(formatDate(date))} is today.`;
+      if (days < 0) return `${capitalize(formatDate(date))} is ${describeSpan(today, date, unitFrom(since[1]))} from now.`;
+      return `${capitalize(formatDate(date))} was ${describeSpan(date, today, unitFrom(since[1]))} ago.`;
+    }
+  }
+
+  const whichDayMatch = text.match(WHICH_DAY_PATTERN);
+  const trailingMatch = whichDayMatch ? null : text.match(WHICH_DAY_AFTER_PATTERN);
+  const whichDay = whichDayMatch
+    ? { kind: whichDayMatch[1], verb: whichDayMatch[2], expression: whichDayMatch[3] }
+    : trailingMatch && { kind: trailingMatch[3], verb: trailingMatch[2], expression: trailingMatch[1] };
+  if (whichDay) {
+    const date = parseDateExpression(whichDay.expression, now, directionFromVerb(whichDay.verb));
+    if (date) {
+      if (whichDay.kind === 'date') return describeDate(whichDay.expression, date, today);
+      const days = daysBetween(today, date);
+      const tense = days < 0 ? 'was' : days === 0 ? 'is' : 'will be';
+      return `${capitalize(formatDate(date, false))} ${tense} a ${formatWeekday(date)}.`;
+    }
+  }
+
+  const described = text.match(WHAT_DATE_PATTERN) ?? text.match(WHEN_PATTERN);
+  // "what is today" is better left to the date intent
+  if (described && !/^(?:today|now|right now)$/.test(described[1])) {
+    const date = parseDateExpression(described[1], now, text.startsWith('when') ? 'future' : 'nearest');
+    if (date) return describeDate(described[1], date, today);
+  }
+
+  return null;
+};
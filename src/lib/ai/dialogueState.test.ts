@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildDialogueState, entityPhrases, parseFollowUp, resolvePronouns, substituteEntity } from './dialogueState';
+import type { ChatTurn } from './types';
+
+const JUPITER_ANSWER = 'Jupiter is the largest planet.';
+
+const history: ChatTurn[] = [
+  { role: 'user', content: 'how many moons does jupiter have' },
+  { role: 'assistant', content: JUPITER_ANSWER },
+  { role: 'user', content: 'what about saturn?' },
+  { role: 'assistant', content: "I don't know anything more about saturn." },
+];
+
+const state = buildDialogueState(history, response => (response === JUPITER_ANSWER ? 'planets' : null));
+
+describe('parseFollowUp', () => {
+  it.each([
+    ['tell me more', { kind: 'more' }],
+    ['more please', { kind: 'more' }],
+    ['what else?', { kind: 'more' }],
+    ['What about Mars?', { kind: 'about', entity: 'mars' }],
+    ['and what about the moon', { kind: 'about', entity: 'moon' }],
+    ['and for the moon', { kind: 'about', entity: 'moon' }],
+    ['what is mars', null],
+    ['how big is it?', null],
+  ])('%s', (message, followUp) => {
+    expect(parseFollowUp(message)).toEqual(followUp);
+  });
+});
+
+describe('entityPhrases', () => {
+  it.each([
+    ['what time is it in new york', ['time', 'new york']],
+    ['how many moons does jupiter have', ['moons', 'jupiter']],
+    ['what is 5 plus 3', ['plus']],
+  ])('%s', (message, phrases) => {
+    expect(entityPhrases(message)).toEqual(phrases);
+  });
+});
+
+describe('buildDialogueState', () => {
+  it('tracks the topic, its entities and the answers already given', () => {
+    expect(state.topicMessage).toBe('how many moons does jupiter have');
+    expect(state.entities).toEqual(['moons', 'jupiter', 'saturn']);
+    expect([...state.seenResponses]).toEqual([JUPITER_ANSWER]);
+  });
+
+  it('takes the last intent from the latest answer', () => {
+    expect(state.lastIntent).toBeNull();
+    expect(buildDialogueState(history.slice(0, 2), () => 'planets').lastIntent).toBe('planets');
+  });
+
+  it('starts empty', () => {
+    expect(buildDialogueState([], () => null)).toEqual({
+      lastIntent: null,
+      topicMessage: null,
+      entities: [],
+      seenResponses: new Set(),
+    });
+  });
+});
+
+describe('follow-up resolution', () => {
+  it('swaps the most recent entity first', () => {
+    expect(substituteEntity(state, 'mars')).toEqual([
+      'how many moons does mars have',
+      'how many mars does jupiter have',
+    ]);
+  });
+
+  it('has nothing to swap without a topic', () => {
+    expect(substituteEntity(buildDialogueState([], () => null), 'mars')).toEqual([]);
+  });
+
+  it.each([
+    ['how big is it?', 'how big is saturn'],
+    ['what is the weather', null],
+    // Long messages with a pronoun are usually new questions
+    ['is it true that the moon is made of cheese and other things', null],
+  ])('%s', (message, resolved) => {
+    expect(resolvePronouns(message, state)).toBe(resolved);
+  });
+});
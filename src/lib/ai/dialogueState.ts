@@ -0,0 +1,122 @@
+/**
+ * Dialogue state tracking.
+ * Rebuilt from the conversation history on every turn, so follow-ups like
+ * "tell me more", "what about Mars?" or "how big is it?" resolve against
+ * the previous turns without keeping any extra state around.
+ */
+
+import type { ChatTurn } from './types';
+import { isStopword, tokenize } from './text';
+
+export interface DialogueState {
+  // Intent of the last answer we can attribute to the knowledge base
+  lastIntent: string | null;
+  // Last user message that wasn't itself a follow-up - the base for substitutions
+  topicMessage: string | null;
+  // Entity phrases of the active topic, most recent last
+  entities: string[];
+  // Every knowledge-base answer already given in this conversation
+  seenResponses: Set<string>;
+}
+
+export type FollowUp =
+  | { kind: 'more' }
+  | { kind: 'about'; entity: string };
+
+// Words that carry no topic of their own
+const GENERIC_WORDS = new Set([
+  'have', 'has', 'had', 'get', 'got', 'make', 'made', 'mean', 'means', 'like', 'need', 'want',
+  'give', 'show', 'explain', 'describe', 'why', 'when', 'where', 'many', 'much', 'big', 'small',
+  'long', 'old', 'far', 'tall', 'high', 'fast', 'heavy', 'hot', 'cold', 'more', 'else', 'also',
+  'again', 'now', 'today', 'really', 'something', 'thing', 'things', 'fact', 'facts', 'one',
+  'ok', 'okay', 'yes', 'no', 'hey', 'jarvis', 'say', 'think', 'let', 'talk', 'ask', 'question',
+]);
+
+const PRONOUNS = /\b(it|its|they|them|that|this|there|he|she|him|her)\b/;
+
+const MAX_PRONOUN_MESSAGE_WORDS = 8;
+
+const MORE_PATTERN = /^(?:(?:tell|give|show)\s+me\s+(?:some(?:thing)?\s+)?more|(?:some\s+)?more|go\s+on|keep\s+going|continue|what\s+else|anything\s+else|another(?:\s+one)?|one\s+more)(?:\s+(?:please|about\s+(?:it|that|this|them)))?$/;
+const ABOUT_PATTERN = /^(?:and\s+|ok(?:ay)?\s+|so\s+)?(?:what|how)\s+about\s+(.+)$|^and\s+(?:for|in|with)\s+(.+)$/;
+
+const normalize = (message: string): string =>
+  message.toLowerCase().replace(/[?!.,]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const parseFollowUp = (message: string): FollowUp | null => {
+  const text = normalize(message);
+  if (MORE_PATTERN.test(text)) return { kind: 'more' };
+
+  const about = text.match(ABOUT_PATTERN);
+  if (about) {
+    const entity = (about[1] ?? about[2]).replace(/^(?:the|a|an)\s+/, '').trim();
+    if (entity) return { kind: 'about', entity };
+  }
+  return null;
+};
+
+// Runs of adjacent topic words: "what time is it in new york" -> ["time", "new york"]
+export const entityPhrases = (message: string): string[] => {
+  const phrases: string[] = [];
+  let current: string[] = [];
+  for (const token of tokenize(message)) {
+    if (isStopword(token) || GENERIC_WORDS.has(token) || /^\d+$/.test(token)) {
+      if (current.length) phrases.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length) phrases.push(current.join(' '));
+  return phrases;
+};
+
+export const buildDialogueState = (
+  history: ChatTurn[],
+  identifyResponse: (response: string) => string | null
+): DialogueState => {
+  const seenResponses = new Set<string>();
+  let lastIntent: string | null = null;
+  let topicMessage: string | null = null;
+  let entities: string[] = [];
+
+  for (const turn of history) {
+    if (turn.role === 'assistant') {
+      const intent = identifyResponse(turn.content);
+      if (intent) seenResponses.add(turn.content);
+      lastIntent = intent;
+      continue;
+    }
+
+    const followUp = parseFollowUp(turn.content);
+    if (followUp?.kind === 'about') {
+      entities = [...entities, followUp.entity];
+    } else if (!followUp) {
+      const phrases = entityPhrases(turn.content);
+      if (phrases.length) {
+        topicMessage = turn.content;
+        entities = phrases;
+      }
+    }
+  }
+
+  return { lastIntent, topicMessage, entities, seenResponses };
+};
+
+// "what about Mars?" after "how many moons does Jupiter have" -> try swapping each entity,
+// most recently mentioned first
+export const substituteEntity = (state: DialogueState, entity: string): string[] => {
+  if (!state.topicMessage) return [];
+  const text = tokenize(state.topicMessage).join(' ');
+  return entityPhrases(state.topicMessage)
+    .reverse()
+    .map(phrase => text.replace(new RegExp(`\\b${phrase}\\b`), entity))
+    .filter(candidate => candidate !== text);
+};
+
+// "how big is it?" -> "how big is the moon?" using the active topic
+export const resolvePronouns = (message: string, state: DialogueState): string | null => {
+  const text = normalize(message);
+  const entity = state.entities[state.entities.length - 1];
+  if (!entity || !PRONOUNS.test(text) || text.split(' ').length > MAX_PRONOUN_MESSAGE_WORDS) return null;
+  return text.replace(PRONOUNS, entity);
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildClarifyingQuestion,
+  buildIntentVocabulary,
+  isAmbiguous,
+  rankIntents,
+  resolveClarification,
+  type IntentDefinition,
+} from './intentRanking';
+
+const intents: IntentDefinition[] = [
+  { intent: 'happy', label: 'how you feel', patterns: [/\b(happy|glad)\b/] },
+  { intent: 'math', label: 'doing some math', patterns: [/\b(add|plus|sum)\b/, /\btwo numbers\b/] },
+  { intent: 'sun', label: 'the sun', patterns: [/\bsun\b/] },
+  { intent: 'planets', label: 'the planets', patterns: [/\b(planets?|sun)\b/] },
+  { intent: 'greeting', label: 'saying hello', patterns: [/^(hi|hello)\b/] },
+];
+
+const vocabulary = buildIntentVocabulary({
+  happy: ['I am glad you are happy!'],
+  math: ['I can add numbers for you.'],
+  sun: ['The sun is a star at the center of our solar system.'],
+  planets: ['There are eight planets orbiting the sun.', 'Jupiter is the largest planet.'],
+  greeting: ['Hello there!'],
+});
+
+const rank = (message: string) => rankIntents(message, intents, vocabulary);
+
+describe('rankIntents', () => {
+  it.each([
+    // A longer, more specific match beats whichever intent is declared first
+    ["I'm happy to add two numbers", ['math', 'happy']],
+    ['how far are the planets from the sun', ['planets', 'sun']],
+    ['hello', ['greeting']],
+    ['what is the weather', []],
+  ])('%s', (message, expected) => {
+    expect(rank(message).map(candidate => candidate.intent)).toEqual(expected);
+  });
+
+  it('scores anchored patterns higher', () => {
+    const [greeting] = rank('hello');
+    const [unanchored] = rankIntents('hello', [{ intent: 'greeting', label: 'saying hello', patterns: [/\bhello\b/] }], vocabulary);
+    expect(greeting.score).toBeGreaterThan(unanchored.score);
+  });
+
+  it('returns at most k candidates', () => {
+    expect(rankIntents("I'm happy to add two numbers about the sun", intents, vocabulary, 2)).toHaveLength(2);
+  });
+});
+
+describe('clarifying questions', () => {
+  it.each([
+    ['tell me about the sun', true],
+    ['how far are the planets from the sun', false],
+    ["I'm happy to add two numbers", false],
+    ['hello', false],
+  ])('%s is ambiguous: %s', (message, ambiguous) => {
+    expect(isAmbiguous(rank(message))).toBe(ambiguous);
+  });
+
+  it('offers the two closest intents', () => {
+    expect(buildClarifyingQuestion(rank('tell me about the sun'))).toBe('Did you mean the sun or the planets?');
+  });
+
+  it.each([
+    ['the first one', 'sun'],
+    ['the latter', 'planets'],
+    ['the planets please', 'planets'],
+    ['banana', null],
+  ])('resolves %s', (reply, intent) => {
+    expect(resolveClarification(reply, 'Did you mean the sun or the planets?', intents)).toBe(intent);
+  });
+
+  it('ignores replies to anything but a clarifying question', () => {
+    expect(resolveClarification('the first', 'Sure.', intents)).toBeNull();
+    expect(resolveClarification('the first', undefined, intents)).toBeNull();
+  });
+});
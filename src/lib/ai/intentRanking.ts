@@ -0,0 +1,135 @@
+/**
+ * Ranked intent scoring.
+ * Every intent is scored instead of returning the first regex that fires:
+ * - keyword weight: each pattern match counts, multi-word phrases count more
+ * - pattern specificity: anchored patterns (`^...`) get a bonus
+ * - n-gram overlap: shared words/bigrams between the message and the intent's answers
+ */
+
+import { contentTokens, ngrams } from './text';
+
+export interface IntentDefinition {
+  intent: string;
+  // Human-friendly topic used in clarifying questions
+  label: string;
+  patterns: RegExp[];
+}
+
+export interface IntentCandidate {
+  intent: string;
+  label: string;
+  score: number;
+}
+
+interface IntentVocabulary {
+  unigrams: Set<string>;
+  bigrams: Set<string>;
+}
+
+const PHRASE_BONUS = 0.5; // per extra word in a matched phrase
+const ANCHOR_BONUS = 0.5;
+const UNIGRAM_OVERLAP_WEIGHT = 0.25;
+const BIGRAM_OVERLAP_WEIGHT = 0.5;
+
+// When the runner-up scores at least this share of the winner, ask instead of guessing
+export const AMBIGUITY_RATIO = 0.85;
+
+// Build the per-intent vocabulary once from the intent's response texts
+export const buildIntentVocabulary = (
+  responses: Record<string, string[]>
+): Map<string, IntentVocabulary> => {
+  const vocabulary = new Map<string, IntentVocabulary>();
+  for (const [intent, texts] of Object.entries(responses)) {
+    const tokens = texts.flatMap(text => contentTokens(text));
+    vocabulary.set(intent, {
+      unigrams: new Set(tokens),
+      bigrams: new Set(texts.flatMap(text => ngrams(contentTokens(text), 2))),
+    });
+  }
+  return vocabulary;
+};
+
+const scorePattern = (pattern: RegExp, message: string): number => {
+  const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+  const matches: string[] = message.match(new RegExp(pattern.source, flags)) ?? [];
+  const anchored = pattern.source.startsWith('^');
+
+  return matches.reduce<number>((sum, match) => {
+    const words = match.trim().split(/\s+/).filter(Boolean).length;
+    if (words === 0) return sum;
+    return sum + 1 + PHRASE_BONUS * (words - 1) + (anchored ? ANCHOR_BONUS : 0);
+  }, 0);
+};
+
+const scoreOverlap = (
+  messageUnigrams: string[],
+  messageBigrams: string[],
+  vocabulary?: IntentVocabulary
+): number => {
+  if (!vocabulary) return 0;
+  const unigramHits = new Set(messageUnigrams.filter(token => vocabulary.unigrams.has(token))).size;
+  const bigramHits = new Set(messageBigrams.filter(gram => vocabulary.bigrams.has(gram))).size;
+  return UNIGRAM_OVERLAP_WEIGHT * unigramHits + BIGRAM_OVERLAP_WEIGHT * bigramHits;
+};
+
+// Score every intent and return the top-k candidates, best first
+export const rankIntents = (
+  message: string,
+  definitions: IntentDefinition[],
+  vocabulary: Map<string, IntentVocabulary>,
+  k: number = 3
+): IntentCandidate[] => {
+  const lowerMessage = message.toLowerCase().trim();
+  const messageUnigrams = contentTokens(lowerMessage);
+  const messageBigrams = ngrams(messageUnigrams, 2);
+
+  const candidates: IntentCandidate[] = [];
+  for (const { intent, label, patterns } of definitions) {
+    const keywordScore = patterns.reduce((sum, pattern) => sum + scorePattern(pattern, lowerMessage), 0);
+    // Overlap only breaks ties between intents whose patterns actually fired
+    if (keywordScore === 0) continue;
+
+    const score = keywordScore + scoreOverlap(messageUnigrams, messageBigrams, vocabulary.get(intent));
+    candidates.push({ intent, label, score });
+  }
+
+  // Stable sort keeps declaration order for exact ties
+  return candidates.sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+export const isAmbiguous = (candidates: IntentCandidate[]): boolean => {
+  if (candidates.length < 2) return false;
+  const [top, runnerUp] = candidates;
+  return runnerUp.score >= top.score * AMBIGUITY_RATIO;
+};
+
+export const buildClarifyingQuestion = (candidates: IntentCandidate[]): string => {
+  const [top, runnerUp] = candidates;
+  return `Did you mean ${top.label} or ${runnerUp.label}?`;
+};
+
+// If the previous assistant turn was a clarifying question, work out which option was picked
+export const resolveClarification = (
+  message: string,
+  lastAssistantMessage: string | undefined,
+  definitions: IntentDefinition[]
+): string | null => {
+  const question = lastAssistantMessage?.match(/^Did you mean (.+) or (.+)\?$/);
+  if (!question) return null;
+
+  const options = [question[1], question[2]];
+  const lower = message.toLowerCase();
+  let picked: string | undefined;
+
+  if (/\b(first|former|1st)\b/.test(lower)) picked = options[0];
+  else if (/\b(second|latter|2nd|last)\b/.test(lower)) picked = options[1];
+  else {
+    const replyTokens = new Set(contentTokens(lower));
+    const overlap = (label: string) => contentTokens(label).filter(t => replyTokens.has(t)).length;
+    const [first, second] = options.map(overlap);
+    if (first > second) picked = options[0];
+    else if (second > first) picked = options[1];
+  }
+
+  return definitions.find(d => d.label === picked)?.intent ?? null;
+};
@@ -0,0 +1,146 @@
+/**
+ * Knowledge packs - versioned JSON bundles of intents, patterns and responses
+ * that can be imported at runtime instead of editing the built-in knowledge base.
+ *
+ * {
+ *   "format": "jarvis-knowledge-pack",
+ *   "version": 1,
+ *   "id": "cooking-basics",
+ *   "name": "Cooking basics",
+ *   "locale": "en-US",
+ *   "metadata": { "author": "...", "description": "...", "packVersion": "1.0.0" },
+ *   "intents": [
+ *     { "intent": "sourdough", "label": "sourdough bread", "patterns": ["\\bsourdough\\b"], "responses": ["..."] }
+ *   ]
+ * }
+ */
+
+import { z } from 'zod';
+import type { IntentDefinition } from './intentRanking';
+
+export const KNOWLEDGE_PACK_FORMAT = 'jarvis-knowledge-pack';
+export const KNOWLEDGE_PACK_VERSION = 1;
+
+// Size limits keep localStorage and the matcher fast
+export const MAX_PACK_BYTES = 256 * 1024;
+const MAX_INTENTS = 300;
+const MAX_PATTERNS_PER_INTENT = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_RESPONSES_PER_INTENT = 20;
+const MAX_RESPONSE_LENGTH = 2000;
+
+const isValidRegex = (source: string): boolean => {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const intentSchema = z.object({
+  intent: z.string()
+    .min(1, 'intent name is required')
+    .max(60, 'intent name must be at most 60 characters')
+    .regex(/^[A-Za-z][A-Za-z0-9_-]*$/, 'intent name may only contain letters, digits, "-" and "_"'),
+  label: z.string().max(80, 'label must be at most 80 characters').optional(),
+  patterns: z.array(
+    z.string()
+      .min(1, 'pattern cannot be empty')
+      .max(MAX_PATTERN_LENGTH, `pattern must be at most ${MAX_PATTERN_LENGTH} characters`)
+      .refine(isValidRegex, 'pattern is not a valid regular expression')
+  )
+    .min(1, 'at least one pattern is required')
+    .max(MAX_PATTERNS_PER_INTENT, `at most ${MAX_PATTERNS_PER_INTENT} patterns per intent`),
+  responses: z.array(
+    z.string()
+      .min(1, 'response cannot be empty')
+      .max(MAX_RESPONSE_LENGTH, `response must be at most ${MAX_RESPONSE_LENGTH} characters`)
+  )
+    .min(1, 'at least one response is required')
+    .max(MAX_RESPONSES_PER_INTENT, `at most ${MAX_RESPONSES_PER_INTENT} responses per intent`),
+});
+
+const knowledgePackSchema = z.object({
+  format: z.literal(KNOWLEDGE_PACK_FORMAT, {
+    errorMap: () => ({ message: `format must be "${KNOWLEDGE_PACK_FORMAT}"` }),
+  }),
+  version: z.literal(KNOWLEDGE_PACK_VERSION, {
+    errorMap: () => ({ message: `unsupported pack version (expected ${KNOWLEDGE_PACK_VERSION})` }),
+  }),
+  id: z.string()
+    .min(1, 'id is required')
+    .max(60, 'id must be at most 60 characters')
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'id may only contain lowercase letters, digits and "-"'),
+  name: z.string().min(1, 'name is required').max(80, 'name must be at most 80 characters'),
+  locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'locale must look like "en" or "en-US"'),
+  metadata: z.object({
+    author: z.string().max(80).optional(),
+    description: z.string().max(500).optional(),
+    packVersion: z.string().max(20).optional(),
+  }).default({}),
+  intents: z.array(intentSchema)
+    .min(1, 'pack must contain at least one intent')
+    .max(MAX_INTENTS, `pack can contain at most ${MAX_INTENTS} intents`)
+    .refine(
+      intents => new Set(intents.map(i => i.intent)).size === intents.length,
+      'intent names must be unique within a pack'
+    ),
+});
+
+export type KnowledgePack = z.infer<typeof knowledgePackSchema>;
+
+export type PackValidationResult =
+  | { ok: true; pack: KnowledgePack }
+  | { ok: false; errors: string[] };
+
+// Turn a zod path like ['intents', 2, 'patterns', 0] into "intents[2].patterns[0]"
+const formatPath = (path: Array<string | number>): string => {
+  return path.reduce<string>((acc, part) => {
+    if (typeof part === 'number') return `${acc}[${part}]`;
+    return acc ? `${acc}.${part}` : part;
+  }, '');
+};
+
+export const validateKnowledgePack = (raw: string): PackValidationResult => {
+  if (new Blob([raw]).size > MAX_PACK_BYTES) {
+    return { ok: false, errors: [`Pack is larger than ${MAX_PACK_BYTES / 1024} KB`] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON'] };
+  }
+
+  const result = knowledgePackSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.map(issue => {
+        const path = formatPath(issue.path);
+        return path ? `${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+
+  return { ok: true, pack: result.data };
+};
+
+// Pack intents are namespaced so they can never replace built-in ones
+export const packIntentName = (pack: KnowledgePack, intent: string): string => `${pack.id}:${intent}`;
+
+export const packIntentDefinitions = (pack: KnowledgePack): IntentDefinition[] => {
+  return pack.intents.map(({ intent, label, patterns }) => ({
+    intent: packIntentName(pack, intent),
+    label: label || intent,
+    patterns: patterns.map(source => new RegExp(source, 'i')),
+  }));
+};
+
+export const packKnowledgeBase = (pack: KnowledgePack): Record<string, string[]> => {
+  return Object.fromEntries(
+    pack.intents.map(({ intent, responses }) => [packIntentName(pack, intent), responses])
+  );
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractPreviousAnswer,
+  formatExpressionForDisplay,
+  formatExpressionForSpeech,
+  formatNumberForSpeech,
+  replaceNumberWords,
+  translateMathExpression,
+} from './mathLanguage';
+
+describe('translateMathExpression', () => {
+  it.each([
+    ['square root of 144', 'sqrt(144)'],
+    ['15% of 80', '(15 / 100 * 80)'],
+    ['two hundred plus seven', '200 + 7'],
+    ['3 squared', '3^2'],
+    ['what is 2 to the power of 10', '2^10'],
+    ['sine of 30', 'sind(30)'],
+    ['log of 100', 'log10(100)'],
+    ['pi times 2', 'PI * 2'],
+    ['5 factorial', '5!'],
+    ['twenty-one times 2', '21 * 2'],
+    ['a thousand divided by 8', '1000 / 8'],
+    ['3 point 5 times 2', '3.5 * 2'],
+    ['3 point one four times 2', '3.14 * 2'],
+    ['three point five times two', '3.5 * 2'],
+  ])('%s -> %s', (input, expression) => {
+    expect(translateMathExpression(input)).toBe(expression);
+  });
+
+  it.each(['what is 5', 'hello there', 'what is the meaning of life'])('%s is not math', (input) => {
+    expect(translateMathExpression(input)).toBeNull();
+  });
+
+  it('continues from the previous answer', () => {
+    expect(translateMathExpression('times that by 3', 12)).toBe('12 * 3');
+    expect(translateMathExpression('plus 5', -2)).toBe('(-2) + 5');
+  });
+});
+
+describe('replaceNumberWords', () => {
+  it.each([
+    ['one hundred and five', '105'],
+    ['two million three hundred thousand', '2300000'],
+    ['3 point 5', '3.5'],
+    ['bread and butter', 'bread and butter'],
+  ])('%s -> %s', (input, output) => {
+    expect(replaceNumberWords(input)).toBe(output);
+  });
+});
+
+describe('formatting', () => {
+  it('shows expressions with math symbols', () => {
+    expect(formatExpressionForDisplay('(15 / 100 * 80)')).toBe('15 ÷ 100 × 80');
+    expect(formatExpressionForDisplay('sind(30)')).toBe('sin(30°)');
+  });
+
+  it('reads expressions and numbers aloud', () => {
+    expect(formatExpressionForSpeech('sqrt(144) + 1')).toBe('the square root of 144 plus 1');
+    expect(formatNumberForSpeech(-1234.5)).toBe('negative 1,234.5');
+  });
+});
+
+describe('extractPreviousAnswer', () => {
+  it.each([
+    ['2 + 2 = 4', 4],
+    ['It is negative 7.', -7],
+    ['12 × 3 = 1,200', 1200],
+    ['Hello!', undefined],
+  ])('%s -> %s', (message, answer) => {
+    expect(extractPreviousAnswer(message)).toBe(answer);
+  });
+});
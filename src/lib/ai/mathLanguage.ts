@@ -0,0 +1,343 @@
+/**
+ * Natural-language math translator.
+ * Turns phrases like "square root of 144", "15% of 80", "two hundred plus seven",
+ * "3 squared" or "times that by 3" into an expr-eval expression.
+ * The result is validated against a whitelist before it is ever parsed.
+ */
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12,
+};
+
+const ORDINAL_POWERS: Record<string, number> = {
+  second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// Functions the translator may emit - anything else makes the input "not math"
+const ALLOWED_FUNCTIONS = ['sqrt', 'cbrt', 'sind', 'cosd', 'tand', 'sin', 'cos', 'tan', 'ln', 'log10', 'log', 'abs'];
+const ALLOWED_CONSTANTS = ['PI', 'E'];
+
+const MAX_EXPRESSION_LENGTH = 200;
+
+// A single operand: a number, a constant, the previous answer or a parenthesised group
+const OPERAND = String.raw`(\d+(?:\.\d+)?|ans|pi|e|\([^()]*\))`;
+
+const isNumberWord = (word: string): boolean =>
+  word in SMALL_NUMBERS || word in TENS || word === 'hundred' || word in SCALES;
+
+const isDigitWord = (word: string): boolean => word in SMALL_NUMBERS && SMALL_NUMBERS[word] < 10;
+
+// The digits after "point" - "five", "one four", or already digits: "14"
+const readDecimals = (words: string[], start: number): [string, number] => {
+  if (/^\d+$/.test(words[start] || '')) return [words[start], start + 1];
+  let decimals = '';
+  let i = start;
+  while (i < words.length && isDigitWord(words[i])) {
+    decimals += SMALL_NUMBERS[words[i]];
+    i++;
+  }
+  return [decimals, i];
+};
+
+const startsDecimals = (word: string): boolean => /^\d+$/.test(word) || isDigitWord(word);
+
+// Convert runs of number words ("two hundred and seven", "three point five") to digits
+export const replaceNumberWords = (text: string): string => {
+  const words = text
+    .replace(/\b(twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)-(one|two|three|four|five|six|seven|eight|nine)\b/g, '$1 $2')
+    .split(/\s+/)
+    .filter(Boolean);
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    // "3 point 5", "3 point five"
+    if (/^\d+$/.test(words[i]) && words[i + 1] === 'point' && startsDecimals(words[i + 2] || '')) {
+      const [decimals, next] = readDecimals(words, i + 2);
+      output.push(`${words[i]}.${decimals}`);
+      i = next;
+      continue;
+    }
+
+    const startsWithA = words[i] === 'a' && (words[i + 1] === 'hundred' || words[i + 1] in SCALES);
+    if (!isNumberWord(words[i]) && !startsWithA) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    let total = 0;
+    let current = 0;
+    let decimals = '';
+    if (startsWithA) {
+      current = 1;
+      i++;
+    }
+
+    while (i < words.length) {
+      const word = words[i];
+      if (word in SMALL_NUMBERS) current += SMALL_NUMBERS[word];
+      else if (word in TENS) current += TENS[word];
+      else if (word === 'hundred') current = (current || 1) * 100;
+      else if (word in SCALES) {
+        total += (current || 1) * SCALES[word];
+        current = 0;
+      } else if (word === 'and' && isNumberWord(words[i + 1] || '') && !(words[i + 1] in SCALES)) {
+        // "one hundred and five" - only when another number word follows
+      } else if (word === 'point' && startsDecimals(words[i + 1] || '')) {
+        [decimals, i] = readDecimals(words, i + 1);
+        break;
+      } else break;
+      i++;
+    }
+
+    output.push(String(total + current) + (decimals ? `.${decimals}` : ''));
+  }
+
+  return output.join(' ');
+};
+
+// Ordered rewrite rules from natural language to expression syntax
+const REWRITES: Array<[RegExp, string | ((...args: string[]) => string)]> = [
+  // Digits followed by a scale word: "2 million"
+  [/(\d+(?:\.\d+)?)\s+(hundred|thousand|million|billion|trillion)\b/g, (_m, n, scale) =>
+    String(Number(n) * (scale === 'hundred' ? 100 : SCALES[scale]))],
+
+  // Verb-first phrasing
+  [new RegExp(String.raw`\badd\s+${OPERAND}\s+(?:and|to)\s+${OPERAND}`, 'g'), '$1 + $2'],
+  [new RegExp(String.raw`\bsubtract\s+${OPERAND}\s+from\s+${OPERAND}`, 'g'), '$2 - $1'],
+  [new RegExp(String.raw`\b(?:multiply|times)\s+${OPERAND}\s+(?:by|and)\s+${OPERAND}`, 'g'), '$1 * $2'],
+  [new RegExp(String.raw`\bdivide\s+${OPERAND}\s+(?:by|into)\s+${OPERAND}`, 'g'), '$1 / $2'],
+
+  // Percentages
+  [new RegExp(String.raw`${OPERAND}\s*(?:%|percent|per cent)\s+of\s+${OPERAND}`, 'g'), '($1 / 100 * $2)'],
+  [new RegExp(String.raw`${OPERAND}\s*(?:%|percent|per cent)`, 'g'), '($1 / 100)'],
+
+  // Roots
+  [new RegExp(String.raw`\b(?:the\s+)?square\s+root\s+(?:of\s+)?${OPERAND}`, 'g'), 'sqrt($1)'],
+  [new RegExp(String.raw`\b(?:the\s+)?cube\s+root\s+(?:of\s+)?${OPERAND}`, 'g'), 'cbrt($1)'],
+  [new RegExp(String.raw`√\s*${OPERAND}`, 'g'), 'sqrt($1)'],
+
+  // Powers
+  [new RegExp(String.raw`${OPERAND}\s+squared\b`, 'g'), '$1^2'],
+  [new RegExp(String.raw`${OPERAND}\s+cubed\b`, 'g'), '$1^3'],
+  [new RegExp(String.raw`${OPERAND}\s+(?:to\s+the\s+power\s+of|raised\s+to(?:\s+the\s+power\s+of)?|to\s+the)\s+${OPERAND}(?:st|nd|rd|th)?(?:\s+power)?`, 'g'), '$1^$2'],
+  [new RegExp(String.raw`${OPERAND}\s+to\s+the\s+(second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)(?:\s+power)?`, 'g'),
+    (_m, base, ordinal) => `${base}^${ORDINAL_POWERS[ordinal]}`],
+
+  // Logarithms
+  [new RegExp(String.raw`\b(?:the\s+)?(?:natural\s+log(?:arithm)?|ln)\s+(?:of\s+)?${OPERAND}`, 'g'), 'ln($1)'],
+  [new RegExp(String.raw`\b(?:the\s+)?log(?:arithm)?\s+base\s+${OPERAND}\s+(?:of\s+)?${OPERAND}`, 'g'), '(log($2) / log($1))'],
+  [new RegExp(String.raw`\b(?:the\s+)?log(?:arithm)?\s+(?:of\s+)?${OPERAND}`, 'g'), 'log10($1)'],
+
+  // Trig - degrees unless radians are asked for or pi is involved
+  [new RegExp(String.raw`\b(?:the\s+)?(sine|sin|cosine|cos|tangent|tan)\b\s*(?:of\s+)?${OPERAND}(\s*(?:degrees?|°|radians?))?`, 'g'),
+    (_m, fn, operand, unit = '') => {
+      const name = fn.slice(0, 3);
+      const radians = /radian/.test(unit) || /\bpi\b/.test(operand);
+      return radians ? `${name}(${operand})` : `${name}d(${operand})`;
+    }],
+
+  // Factorial
+  [new RegExp(String.raw`${OPERAND}\s+factorial\b`, 'g'), '$1!'],
+
+  // Operator words
+  [/\b(?:plus|added to|and)\b/g, '+'],
+  [/\b(?:minus|take away|less)\b/g, '-'],
+  [/\b(?:times|multiplied by|x)\b/g, '*'],
+  [/\b(?:divided by|over)\b/g, '/'],
+  [/\b(?:mod|modulo|modulus)\b/g, '%'],
+
+  // Constants
+  [/\bpi\b|π/g, 'PI'],
+  [/\be\b/g, 'E'],
+];
+
+// Leading/trailing filler that carries no math meaning
+const FILLER_PATTERNS = [
+  /^(?:hey\s+)?(?:jarvis|buddy|max)[,\s]+/,
+  /^(?:can|could|would)\s+you\s+/,
+  /^(?:please\s+)/,
+  /^(?:tell\s+me\s+)/,
+  /^(?:what'?s|whats|what\s+is|what\s+are|how\s+much\s+is|how\s+much\s+are)\s+/,
+  /^(?:calculate|compute|evaluate|solve|work\s+out|figure\s+out)\s+/,
+  /^(?:the\s+)?(?:value|result|answer)\s+of\s+/,
+  /\s*(?:equals|equal\s+to|is\s+equal\s+to|please)\s*$/,
+  /\s*=\s*$/,
+];
+
+const stripFiller = (text: string): string => {
+  let result = text;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pattern of FILLER_PATTERNS) {
+      const next = result.replace(pattern, '').trim();
+      if (next !== result) {
+        result = next;
+        changed = true;
+      }
+    }
+  }
+  return result;
+};
+
+// True when the string only contains numbers, operators and whitelisted names
+const isSafeExpression = (expression: string): boolean => {
+  const withoutNames = [...ALLOWED_FUNCTIONS, ...ALLOWED_CONSTANTS]
+    .reduce((rest, name) => rest.replace(new RegExp(`\\b${name}\\b`, 'g'), ' '), expression);
+  return /^[\d\s+\-*/^%().!]*$/.test(withoutNames);
+};
+
+// A lone number ("what's 5") isn't a calculation
+const hasOperation = (expression: string): boolean => {
+  return /[+\-*/^%!]/.test(expression.replace(/^\s*-/, '')) ||
+    new RegExp(`\\b(${ALLOWED_FUNCTIONS.join('|')})\\(`).test(expression);
+};
+
+// Translate natural language into an expr-eval expression, or null if it isn't math.
+// `previousAnswer` resolves references like "that" and leading operators ("times 3").
+export const translateMathExpression = (input: string, previousAnswer?: number): string | null => {
+  let text = input
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/×/g, ' * ')
+    .replace(/÷/g, ' / ')
+    .replace(/[−–]/g, '-')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/[?]+/g, ' ')
+    .replace(/(\d)\s*!/g, '$1! ')
+    .replace(/[.,;:]+(\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  text = replaceNumberWords(text);
+
+  if (previousAnswer !== undefined) {
+    text = text.replace(/\b(?:the\s+)?(?:previous\s+)?(?:answer|result)\b|\b(?:that|it|ans)\b/g, 'ans');
+  }
+
+  text = stripFiller(text);
+
+  for (const [pattern, replacement] of REWRITES) {
+    text = typeof replacement === 'string'
+      ? text.replace(pattern, replacement)
+      : text.replace(pattern, replacement as (...args: string[]) => string);
+  }
+
+  let expression = text.replace(/\s+/g, ' ').trim();
+
+  // "times 3", "plus 5" - continue from the previous answer
+  if (previousAnswer !== undefined && /^[+*/^%]/.test(expression)) {
+    expression = `ans ${expression}`;
+  }
+  if (previousAnswer !== undefined) {
+    const answer = previousAnswer < 0 ? `(${previousAnswer})` : String(previousAnswer);
+    expression = expression.replace(/\bans\b/g, answer);
+  }
+
+  if (!expression || expression.length > MAX_EXPRESSION_LENGTH) return null;
+  if (!/\d|\bPI\b|\bE\b/.test(expression)) return null;
+  if (!isSafeExpression(expression) || !hasOperation(expression)) return null;
+
+  return expression;
+};
+
+// Degree-based trig helpers registered on the parser
+export const DEGREE_FUNCTIONS = {
+  sind: (x: number) => Math.sin((x * Math.PI) / 180),
+  cosd: (x: number) => Math.cos((x * Math.PI) / 180),
+  tand: (x: number) => Math.tan((x * Math.PI) / 180),
+};
+
+// Drop parentheses that wrap the whole expression: "(15 ÷ 100 × 80)"
+const unwrapOuterParentheses = (expression: string): string => {
+  if (!expression.startsWith('(') || !expression.endsWith(')')) return expression;
+  let depth = 0;
+  for (let i = 0; i < expression.length; i++) {
+    if (expression[i] === '(') depth++;
+    if (expression[i] === ')') depth--;
+    // Closed before the end - the outer pair doesn't wrap everything
+    if (depth === 0 && i < expression.length - 1) return expression;
+  }
+  return expression.slice(1, -1);
+};
+
+// Human-readable version of an expression for display
+export const formatExpressionForDisplay = (expression: string): string => {
+  return unwrapOuterParentheses(expression.trim())
+    .replace(/\b(sin|cos|tan)d\(([^()]*)\)/g, '$1($2°)')
+    .replace(/\bsqrt\(/g, '√(')
+    .replace(/\bcbrt\(/g, '∛(')
+    .replace(/\blog\(/g, 'ln(')
+    .replace(/\blog10\(/g, 'log(')
+    .replace(/\bPI\b/g, 'π')
+    .replace(/\bE\b/g, 'e')
+    .replace(/\s*\*\s*/g, ' × ')
+    .replace(/\s*\/\s*/g, ' ÷ ')
+    .replace(/\s*([+%])\s*/g, ' $1 ')
+    // Binary minus gets spaces, a negative sign stays attached
+    .replace(/([\d)!πe°])\s*-\s*/g, '$1 - ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Round floating point noise away (0.1 + 0.2 -> 0.3)
+export const roundResult = (value: number): number => {
+  return Number.isInteger(value) ? value : parseFloat(value.toFixed(10));
+};
+
+// Numbers read aloud: grouped thousands, at most 4 decimals
+export const formatNumberForSpeech = (value: number): string => {
+  if (Math.abs(value) >= 1e15 || (value !== 0 && Math.abs(value) < 1e-4)) {
+    const [mantissa, exponent] = value.toExponential(3).split('e');
+    return `${parseFloat(mantissa)} times 10 to the power of ${Number(exponent)}`;
+  }
+  const formatted = value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  return value < 0 ? `negative ${formatted.slice(1)}` : formatted;
+};
+
+// Spoken version of an expression: "√(144) + 1" -> "the square root of 144 plus 1"
+export const formatExpressionForSpeech = (expression: string): string => {
+  return formatExpressionForDisplay(expression)
+    .replace(/√\(/g, 'the square root of (')
+    .replace(/∛\(/g, 'the cube root of (')
+    .replace(/\bln\(/g, 'the natural log of (')
+    .replace(/\blog\(/g, 'log of (')
+    .replace(/\bsin\(/g, 'sine of (')
+    .replace(/\bcos\(/g, 'cosine of (')
+    .replace(/\btan\(/g, 'tangent of (')
+    .replace(/°/g, ' degrees')
+    .replace(/\^2\b/g, ' squared')
+    .replace(/\^3\b/g, ' cubed')
+    .replace(/\^/g, ' to the power of ')
+    .replace(/!/g, ' factorial')
+    .replace(/ × /g, ' times ')
+    .replace(/ ÷ /g, ' divided by ')
+    .replace(/ \+ /g, ' plus ')
+    .replace(/ - /g, ' minus ')
+    .replace(/ % /g, ' mod ')
+    .replace(/π/g, 'pi')
+    .replace(/[()]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Answer to the last calculation, read from the previous assistant reply
+export const extractPreviousAnswer = (lastAssistantMessage?: string): number | undefined => {
+  const match = lastAssistantMessage?.match(/(?:=|\bis)\s+(negative\s+)?\(?(-?[\d,]*\.?\d+)\)?\.?$/);
+  if (!match) return undefined;
+  const value = Number(match[2].replace(/,/g, ''));
+  if (Number.isNaN(value)) return undefined;
+  return match[1] ? -value : value;
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { extractExplanationRequest } from './mathSteps';
+
+describe('extractExplanationRequest', () => {
+  it('strips a request for steps after the expression', () => {
+    expect(extractExplanationRequest('what is 12 times 7 show steps')).toEqual({ wantsSteps: true, input: 'what is 12 times 7' });
+    expect(extractExplanationRequest('what is 12 times 7 with working')).toEqual({ wantsSteps: true, input: 'what is 12 times 7' });
+  });
+
+  it('strips a request for steps before the expression', () => {
+    expect(extractExplanationRequest('show the steps for 3 + 4 * 2')).toEqual({ wantsSteps: true, input: '3 + 4 * 2' });
+    expect(extractExplanationRequest('show me the working for 9 / 3')).toEqual({ wantsSteps: true, input: '9 / 3' });
+  });
+
+  it('leaves plain questions alone', () => {
+    expect(extractExplanationRequest('What is 12 times 7')).toEqual({ wantsSteps: false, input: 'What is 12 times 7' });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Step-by-step math explanations.
+ * Walks the parsed expr-eval instruction list (postfix, so already in order of
+ * operations) and records every operation as a numbered step.
+ */
+
+import type { Parser } from 'expr-eval';
+import { DEGREE_FUNCTIONS, formatNumberForSpeech, roundResult } from './mathLanguage';
+
+// expr-eval keeps its postfix instructions on `tokens` but doesn't type them
+interface Instruction {
+  type: string;
+  value: unknown;
+}
+
+interface StackEntry {
+  value: number;
+  // Name of a function waiting for its arguments (IFUNCALL)
+  functionName?: string;
+}
+
+export interface MathStep {
+  // "3 × 4 = 12"
+  text: string;
+  // "3 times 4 is 12"
+  spoken: string;
+  result: number;
+}
+
+const BINARY_SYMBOLS: Record<string, [string, string]> = {
+  '+': ['+', 'plus'],
+  '-': ['-', 'minus'],
+  '*': ['×', 'times'],
+  '/': ['÷', 'divided by'],
+  '^': ['^', 'to the power of'],
+  '%': ['mod', 'mod'],
+};
+
+const UNARY_FORMATS: Record<string, [(a: string) => string, (a: string) => string]> = {
+  sqrt: [a => `√${a}`, a => `the square root of ${a}`],
+  cbrt: [a => `∛${a}`, a => `the cube root of ${a}`],
+  ln: [a => `ln(${a})`, a => `the natural log of ${a}`],
+  log: [a => `ln(${a})`, a => `the natural log of ${a}`],
+  log10: [a => `log(${a})`, a => `log of ${a}`],
+  sin: [a => `sin(${a} rad)`, a => `sine of ${a} radians`],
+  cos: [a => `cos(${a} rad)`, a => `cosine of ${a} radians`],
+  tan: [a => `tan(${a} rad)`, a => `tangent of ${a} radians`],
+  abs: [a => `|${a}|`, a => `the absolute value of ${a}`],
+  '!': [a => `${a}!`, a => `${a} factorial`],
+  sind: [a => `sin(${a}°)`, a => `sine of ${a} degrees`],
+  cosd: [a => `cos(${a}°)`, a => `cosine of ${a} degrees`],
+  tand: [a => `tan(${a}°)`, a => `tangent of ${a} degrees`],
+};
+
+// Phrases asking for the working to be shown
+const EXPLANATION_PATTERNS = [
+  /\b(?:step[\s-]by[\s-]step|with steps)\b/,
+  /\bshow\s+(?:me\s+)?(?:the\s+|your\s+)?(?:work(?:ing)?|steps)(?:\s+for)?\b/,
+  /\bwith\s+(?:the\s+|your\s+)?working\b/,
+  /^\s*(?:explain|walk\s+me\s+through)(?:\s+how\s+to\s+(?:get|solve|work\s+out))?\b/,
+  /\bhow\s+do\s+(?:i|you)\s+(?:get|solve|work\s+out)\b/,
+];
+
+// Detect an explanation request and strip it so the rest can be translated
+export const extractExplanationRequest = (input: string): { wantsSteps: boolean; input: string } => {
+  let remaining = input.toLowerCase();
+  let wantsSteps = false;
+  for (const pattern of EXPLANATION_PATTERNS) {
+    if (pattern.test(remaining)) {
+      wantsSteps = true;
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+  return { wantsSteps, input: wantsSteps ? remaining.replace(/\s+/g, ' ').trim() : input };
+};
+
+const formatNumber = (value: number): string => {
+  if (value === Math.PI) return 'π';
+  if (value === Math.E) return 'e';
+  const rounded = roundResult(value);
+  return rounded < 0 ? `(${rounded})` : String(rounded);
+};
+
+const speakNumber = (value: number): string => {
+  if (value === Math.PI) return 'pi';
+  if (value === Math.E) return 'e';
+  return formatNumberForSpeech(roundResult(value));
+};
+
+// Evaluate an expression one operation at a time, recording each step
+export const explainExpression = (parser: Parser, expression: string): MathStep[] => {
+  const parsed = parser.parse(expression) as unknown as { tokens: Instruction[] };
+  const stack: StackEntry[] = [];
+  const steps: MathStep[] = [];
+
+  const record = (text: string, spoken: string, result: number) => {
+    steps.push({ text: `${text} = ${formatNumber(result)}`, spoken: `${spoken} is ${speakNumber(result)}`, result });
+    stack.push({ value: result });
+  };
+
+  for (const instruction of parsed.tokens) {
+    switch (instruction.type) {
+      case 'INUMBER':
+        stack.push({ value: instruction.value as number });
+        break;
+
+      case 'IVAR':
+        // Only whitelisted functions can appear here - the translator guarantees it
+        stack.push({ value: NaN, functionName: instruction.value as string });
+        break;
+
+      case 'IOP1': {
+        const op = instruction.value as string;
+        const operand = stack.pop();
+        if (!operand) throw new Error('Malformed expression');
+        const result = parser.unaryOps[op](operand.value);
+        // A minus sign in front of a number is just a negative number, not a step
+        if (op === '-' || op === '+') {
+          stack.push({ value: result });
+          break;
+        }
+        const [text, spoken] = UNARY_FORMATS[op] || [(a: string) => `${op}(${a})`, (a: string) => `${op} of ${a}`];
+        record(text(formatNumber(operand.value)), spoken(speakNumber(operand.value)), result);
+        break;
+      }
+
+      case 'IOP2': {
+        const op = instruction.value as string;
+        const right = stack.pop();
+        const left = stack.pop();
+        if (!left || !right) throw new Error('Malformed expression');
+        const result = parser.evaluate(`a ${op} b`, { a: left.value, b: right.value });
+        const [symbol, word] = BINARY_SYMBOLS[op] || [op, op];
+        record(
+          `${formatNumber(left.value)} ${symbol} ${formatNumber(right.value)}`,
+          `${speakNumber(left.value)} ${word} ${speakNumber(right.value)}`,
+          result
+        );
+        break;
+      }
+
+      case 'IFUNCALL': {
+        const argCount = instruction.value as number;
+        const args = stack.splice(stack.length - argCount, argCount).map(entry => entry.value);
+        const fn = stack.pop();
+        const name = fn?.functionName as keyof typeof DEGREE_FUNCTIONS | undefined;
+        if (!name || !(name in DEGREE_FUNCTIONS) || args.length !== 1) {
+          throw new Error('Unsupported function in explanation');
+        }
+        const [text, spoken] = UNARY_FORMATS[name];
+        record(text(formatNumber(args[0])), spoken(speakNumber(args[0])), DEGREE_FUNCTIONS[name](args[0]));
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported instruction ${instruction.type}`);
+    }
+  }
+
+  return steps;
+};
+
+// Numbered list for text mode
+export const formatStepsAsList = (steps: MathStep[]): string => {
+  return steps.map((step, i) => `${i + 1}. ${step.text}`).join('\n');
+};
+
+const SPOKEN_ORDINALS = ['First', 'Next', 'Then', 'After that'];
+const MAX_SPOKEN_STEPS = 4;
+
+// Short spoken walkthrough for voice mode
+export const formatStepsForSpeech = (steps: MathStep[]): string => {
+  if (steps.length === 0) return '';
+  const answer = speakNumber(steps[steps.length - 1].result);
+  if (steps.length === 1) {
+    return `${steps[0].spoken.charAt(0).toUpperCase()}${steps[0].spoken.slice(1)}.`;
+  }
+
+  const spoken = steps.slice(0, MAX_SPOKEN_STEPS).map((step, i) =>
+    `${SPOKEN_ORDINALS[Math.min(i, SPOKEN_ORDINALS.length - 1)]}, ${step.spoken}.`
+  );
+  const skipped = steps.length - MAX_SPOKEN_STEPS;
+  if (skipped > 0) {
+    spoken.push(`After ${skipped} more step${skipped === 1 ? '' : 's'}, the answer is ${answer}.`);
+  } else {
+    spoken.push(`So the answer is ${answer}.`);
+  }
+  return spoken.join(' ');
+};
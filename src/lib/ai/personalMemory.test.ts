@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeFact,
+  describeFactForCloud,
+  findFacts,
+  findRelatedFacts,
+  findSameSubject,
+  isMemoryCommand,
+  parseMemoryCommand,
+  toSecondPerson,
+  type MemoryFact,
+} from './personalMemory';
+
+const fact = (id: string, subject: string, verb = '', value = ''): MemoryFact => ({
+  id,
+  subject,
+  verb,
+  value,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const facts = [
+  fact('birthday', "my sister's birthday", 'is', 'June 3'),
+  fact('parking', 'I parked on level 3'),
+  fact('wifi', 'my wifi password hint', 'is', 'the dog'),
+  fact('locker', 'my locker code', 'is', '4512'),
+  fact('brother', "my brother's birthday", 'is', 'May 1'),
+];
+
+describe('parseMemoryCommand', () => {
+  it.each([
+    ["remember that my sister's birthday is June 3", { kind: 'remember', subject: "my sister's birthday", verb: 'is', value: 'June 3' }],
+    ['Remember I parked on level 3', { kind: 'remember', subject: 'I parked on level 3', verb: '', value: '' }],
+    ["what's my wifi password hint?", { kind: 'recall', query: 'my wifi password hint' }],
+    ["when is my sister's birthday", { kind: 'recall', query: "my sister's birthday" }],
+    ['remind me what my locker code is', { kind: 'recall', query: 'my locker code is' }],
+    ['remind me where I parked', { kind: 'recall', query: 'i parked' }],
+    ['forget my parking spot', { kind: 'forget', query: 'my parking spot' }],
+    ['what do you remember about me', { kind: 'list' }],
+    ['hello', null],
+  ])('%s', (message, command) => {
+    expect(parseMemoryCommand(message)).toEqual(command);
+  });
+});
+
+describe('isMemoryCommand', () => {
+  it.each([
+    ["remember that my sister's birthday is June 3", true],
+    ['remind me what my locker code is', true],
+    ['forget my parking spot', true],
+    ['what do you remember about me', true],
+    // Questions about the world aren't about the user
+    ['what is the capital of france', false],
+    ['tell me a joke', false],
+    ['forget about it', false],
+  ])('%s', (message, expected) => {
+    expect(isMemoryCommand(message)).toBe(expected);
+  });
+});
+
+describe('findFacts', () => {
+  it.each([
+    ["my sister's birthday", ['birthday']],
+    ['my sisters birthdy', ['birthday']],
+    ['my parking spot', ['parking']],
+    ['where I parked', ['parking']],
+    ['my wifi pasword hint', ['wifi']],
+    ['my locker code is', ['locker']],
+    // Matches half of two subjects - not enough to pick either
+    ['my birthday', []],
+    ['my car', []],
+  ])('%s', (query, ids) => {
+    expect(findFacts(query, facts).map(found => found.id)).toEqual(ids);
+  });
+
+  it('shares facts with any topic word in common', () => {
+    expect(findRelatedFacts('what should I get my sister', facts).map(found => found.id)).toEqual(['birthday']);
+  });
+
+  it('finds the same subject to update instead of duplicating', () => {
+    expect(findSameSubject('My Sisters birthday', facts)?.id).toBe('birthday');
+    // Notes are never updated in place
+    expect(findSameSubject('I parked on level 3', facts)).toBeUndefined();
+  });
+});
+
+describe('describing facts', () => {
+  it("turns the user's words around", () => {
+    expect(toSecondPerson("I'm sure my keys are with me")).toBe("you're sure your keys are with you");
+  });
+
+  it('reads facts and notes back', () => {
+    expect(describeFact(facts[0])).toBe("Your sister's birthday is June 3.");
+    expect(describeFact(facts[1])).toBe('You told me that you parked on level 3.');
+  });
+
+  it("keeps the user's own words for a cloud model", () => {
+    expect(describeFactForCloud(facts[0])).toBe("my sister's birthday is June 3");
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Personal memory - facts the user asked Jarvis to remember.
+ * Parses "remember that my sister's birthday is June 3" into a subject and value,
+ * and matches later questions ("when is my sister's birthday?") against stored
+ * subjects with typo-tolerant token matching.
+ */
+
+import { editDistance, isStopword, stem, tokenize } from './text';
+
+export interface MemoryFact {
+  id: string;
+  // As the user said it: "my sister's birthday"
+  subject: string;
+  // "is", "are" or "was" - empty for free-form notes
+  verb: string;
+  // "June 3" - empty for free-form notes ("I parked on level 3")
+  value: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MemoryCommand =
+  | { kind: 'remember'; subject: string; verb: string; value: string }
+  | { kind: 'forget'; query: string }
+  | { kind: 'list' }
+  | { kind: 'recall'; query: string };
+
+// Case-insensitive so the remembered value keeps the user's capitalization
+const REMEMBER_PATTERN = /^(?:please\s+)?(?:(?:can|could|will)\s+you\s+)?(?:remember|note|don't\s+forget|do\s+not\s+forget|keep\s+in\s+mind|make\s+a\s+note)(?:\s+(?:that|this))?[:,]?\s+(.+?)[.!]*$/i;
+const FORGET_PATTERN = /^(?:please\s+)?(?:forget|delete|remove|erase)(?:\s+(?:about|what\s+i\s+said\s+about|what\s+i\s+told\s+you\s+about))?\s+(.+)$/;
+const LIST_PATTERN = /^(?:what\s+(?:do|did)\s+you\s+(?:remember|know)(?:\s+about\s+me)?|what\s+have\s+i\s+told\s+you|list\s+(?:my\s+|your\s+)?(?:memories|facts)|show\s+(?:me\s+)?(?:my\s+|your\s+)?memories)$/;
+const RECALL_PATTERN = /^(?:(?:what|when|where|who|which|how)(?:'s|\s+is|\s+are|\s+was|\s+were|\s+did|\s+do)?|do\s+you\s+(?:remember|know)|remind\s+me(?:\s+(?:of|about|what|when|where))?|tell\s+me)\s+(.+)$/;
+const COPULA_PATTERN = /^(.+?)\s+(is|are|was|were)\s+(.+)$/i;
+
+// Filler that never helps matching a subject
+// ("forget my parking spot" should still find "I parked on level 3")
+const QUERY_FILLER = new Set(['remember', 'where', 'when', 'who', 'again', 'stored', 'saved', 'told', 'said', 'note', 'spot', 'location']);
+
+const normalize = (message: string): string =>
+  message
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/[?!]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/[.,]$/, '')
+    .trim();
+
+export const parseMemoryCommand = (message: string): MemoryCommand | null => {
+  const remember = message.trim().replace(/[’‘`]/g, "'").replace(/\s+/g, ' ').match(REMEMBER_PATTERN);
+  if (remember) {
+    const copula = remember[1].match(COPULA_PATTERN);
+    if (copula) return { kind: 'remember', subject: copula[1], verb: copula[2].toLowerCase(), value: copula[3] };
+    return { kind: 'remember', subject: remember[1], verb: '', value: '' };
+  }
+
+  const text = normalize(message);
+
+  if (LIST_PATTERN.test(text)) return { kind: 'list' };
+
+  const forget = text.match(FORGET_PATTERN);
+  if (forget) return { kind: 'forget', query: forget[1] };
+
+  const recall = text.match(RECALL_PATTERN);
+  if (recall) return { kind: 'recall', query: recall[1] };
+
+  return null;
+};
+
+// Asking about something of the user's rather than the world
+const PERSONAL_QUERY = /^(?:my|i|we|our)\b/;
+
+// Saving, listing or forgetting facts, or asking about a personal one
+export const isMemoryCommand = (message: string): boolean => {
+  const command = parseMemoryCommand(message);
+  if (!command) return false;
+  if (command.kind === 'recall' || command.kind === 'forget') return PERSONAL_QUERY.test(command.query);
+  return true;
+};
+
+// Topic words with possessives and simple verb endings stripped, so "parked" finds "park"
+const memoryTokens = (text: string): string[] =>
+  tokenize(text.replace(/'s\b/gi, ''))
+    .filter(token => !isStopword(token) && !QUERY_FILLER.has(token))
+    .map(token => stem(token.replace(/(?<=\w{3})(?:ed|ing)$/, '')));
+
+// Allow a typo in longer words: "pasword" still finds "password"
+const tokensMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  const shortest = Math.min(a.length, b.length);
+  if (shortest < 4) return false;
+  return editDistance(a, b) <= (shortest >= 7 ? 2 : 1);
+};
+
+// Share of the fact's subject the query covers - 0 unless every query word is found
+const matchScore = (queryTokens: string[], fact: MemoryFact): number => {
+  const factTokens = memoryTokens(fact.subject);
+  if (queryTokens.length === 0 || factTokens.length === 0) return 0;
+  if (!queryTokens.every(q => factTokens.some(f => tokensMatch(q, f)))) return 0;
+  return factTokens.filter(f => queryTokens.some(q => tokensMatch(q, f))).length / factTokens.length;
+};
+
+// Notes ("I parked on level 3") only need every query word to appear
+const MIN_SUBJECT_COVERAGE = 0.6;
+
+export const findFacts = (query: string, facts: MemoryFact[]): MemoryFact[] => {
+  const queryTokens = memoryTokens(query);
+  return facts
+    .map(fact => ({ fact, score: matchScore(queryTokens, fact) }))
+    .filter(({ fact, score }) => score > 0 && (!fact.value || score >= MIN_SUBJECT_COVERAGE))
+    .sort((a, b) => b.score - a.score || b.fact.updatedAt - a.fact.updatedAt)
+    .map(({ fact }) => fact);
+};
+
+// Looser than findFacts: any shared topic word makes a fact worth giving a cloud model
+export const findRelatedFacts = (message: string, facts: MemoryFact[]): MemoryFact[] => {
+  const messageTokens = memoryTokens(message);
+  return facts
+    .map(fact => {
+      const factTokens = memoryTokens(`${fact.subject} ${fact.value}`);
+      return { fact, overlap: factTokens.filter(f => messageTokens.some(m => tokensMatch(m, f))).length };
+    })
+    .filter(({ overlap }) => overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || b.fact.updatedAt - a.fact.updatedAt)
+    .map(({ fact }) => fact);
+};
+
+// Same subject, ignoring case and possessive noise - used to update instead of duplicate
+export const findSameSubject = (subject: string, facts: MemoryFact[]): MemoryFact | undefined => {
+  const key = memoryTokens(subject).join(' ');
+  return facts.find(fact => fact.value && memoryTokens(fact.subject).join(' ') === key);
+};
+
+const PERSPECTIVE: Record<string, string> = {
+  my: 'your', mine: 'yours', myself: 'yourself', i: 'you', me: 'you', am: 'are',
+  "i'm": "you're", "i've": "you've", "i'll": "you'll", "i'd": "you'd",
+};
+
+// "my sister's birthday" -> "your sister's birthday"
+export const toSecondPerson = (text: string): string =>
+  text.replace(/\b(?:my|mine|myself|i'm|i've|i'll|i'd|i|me|am)\b/gi, word => PERSPECTIVE[word.toLowerCase()]);
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+// Mid-sentence form: "your sister's birthday is June 3", "you parked on level 3"
+export const describeFactInline = (fact: MemoryFact): string =>
+  fact.value ? `${toSecondPerson(fact.subject)} ${fact.verb} ${fact.value}` : toSecondPerson(fact.subject);
+
+export const describeFact = (fact: MemoryFact): string =>
+  fact.value ? `${capitalize(describeFactInline(fact))}.` : `You told me that ${describeFactInline(fact)}.`;
+
+// In the user's own words for a cloud model: "my sister's birthday is June 3"
+export const describeFactForCloud = (fact: MemoryFact): string =>
+  fact.value ? `${fact.subject} ${fact.verb} ${fact.value}` : fact.subject;
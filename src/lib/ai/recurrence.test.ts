@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { describeRecurrence, EVERY_DAY, MIN_INTERVAL_SECONDS, nextOccurrence, parseRecurrence, WEEKDAYS, WEEKEND } from './recurrence';
+
+describe('parseRecurrence', () => {
+  it.each([
+    ['every 2 hours drink water', { intervalSeconds: 7200 }],
+    ['every other minute', { intervalSeconds: 120 }],
+    ['every 10 seconds', null],
+    ['daily at 9', { weekdays: EVERY_DAY }],
+    ['every morning', { weekdays: EVERY_DAY }],
+    ['every weekday at 8', { weekdays: WEEKDAYS }],
+    ['on weekends', { weekdays: WEEKEND }],
+    ['every monday', { weekdays: [1] }],
+    ['on Mondays and Thursdays', { weekdays: [1, 4] }],
+    ['every tues and thurs', { weekdays: [2, 4] }],
+    ['every weds', { weekdays: [3] }],
+  ])('%s', (text, expected) => {
+    const match = parseRecurrence(text);
+    if (expected === null) expect(match).toBeNull();
+    else expect(match).toMatchObject(expected);
+  });
+
+  it.each([
+    'on monday',
+    'remind me thus to call mom',
+    'thus spoke zarathustra',
+    'I sat down',
+    'the weekday menu',
+  ])('%s is not a repeat', (text) => {
+    expect(parseRecurrence(text)).toBeNull();
+  });
+
+  it('never repeats faster than Android allows', () => {
+    expect(parseRecurrence('every minute')?.intervalSeconds).toBe(MIN_INTERVAL_SECONDS);
+  });
+});
+
+describe('nextOccurrence', () => {
+  // Wednesday 10 January 2024, 9:00
+  const from = new Date(2024, 0, 10, 9, 0);
+
+  it.each([
+    [{ weekdays: [3], hour: 10, minute: 0 }, new Date(2024, 0, 10, 10, 0)],
+    [{ weekdays: [3], hour: 8, minute: 0 }, new Date(2024, 0, 17, 8, 0)],
+    [{ weekdays: WEEKDAYS, hour: 8, minute: 30 }, new Date(2024, 0, 11, 8, 30)],
+  ])('weekly %j', (weekly, expected) => {
+    expect(nextOccurrence({ kind: 'weekly', ...weekly }, from)).toEqual(expected);
+  });
+
+  it('continues intervals from the previous time, skipping missed ones', () => {
+    const previous = from.getTime() - 150 * 60 * 1000;
+    expect(nextOccurrence({ kind: 'interval', seconds: 3600 }, from, previous)).toEqual(new Date(from.getTime() + 30 * 60 * 1000));
+  });
+});
+
+describe('describeRecurrence', () => {
+  it.each([
+    [{ kind: 'interval', seconds: 3600 }, 'every hour'],
+    [{ kind: 'interval', seconds: 7200 }, 'every 2 hours'],
+    [{ kind: 'interval', seconds: 900 }, 'every 15 minutes'],
+  ] as const)('%j -> %s', (recurrence, text) => {
+    expect(describeRecurrence(recurrence)).toBe(text);
+  });
+
+  it('names the days', () => {
+    expect(describeRecurrence({ kind: 'weekly', weekdays: WEEKDAYS, hour: 8, minute: 0 })).toMatch(/^every weekday at /);
+    expect(describeRecurrence({ kind: 'weekly', weekdays: [1, 4], hour: 6, minute: 30 })).toMatch(/^every Monday and Thursday at /);
+  });
+});
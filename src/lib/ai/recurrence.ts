@@ -0,0 +1,117 @@
+/**
+ * Repeating schedules - "every weekday", "on Mondays and Thursdays", "every 2 hours".
+ * Only the repetition is parsed here; the time of day comes from the reminder parser.
+ */
+
+export type Recurrence =
+  | { kind: 'interval'; seconds: number }
+  // Weekdays use Date#getDay numbering: 0 is Sunday
+  | { kind: 'weekly'; weekdays: number[]; hour: number; minute: number };
+
+export interface RecurrenceMatch {
+  // The words that described the repetition, to strip from the reminder text
+  phrase: string;
+  weekdays?: number[];
+  intervalSeconds?: number;
+}
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const WEEKEND = [0, 6];
+
+// Android can't repeat more often than this without being throttled
+export const MIN_INTERVAL_SECONDS = 60;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Only real spellings - a plural needs the "day", so "thus" isn't Thursdays
+const DAY_STEMS = ['sun', 'mon', 'tues?', 'wed(?:s|nes)?', 'thu(?:rs?)?', 'fri', 'sat(?:ur)?'];
+const DAY = String.raw`(?:${DAY_STEMS.join('|')})(?:days?)?`;
+
+const COUNT_WORDS: Record<string, number> = { other: 2, two: 2, three: 3, four: 4, five: 5, six: 6, ten: 10, fifteen: 15, twenty: 20, thirty: 30 };
+
+const INTERVAL_PATTERN = /\b(?:every|each)\s+(?:(\d+|other|two|three|four|five|six|ten|fifteen|twenty|thirty)\s+)?(minutes?|mins?|hours?|hrs?)\b/i;
+const DAILY_PATTERN = /\b(?:every\s+(?:single\s+)?day|each\s+day|daily)\b/i;
+// "every morning" - the part of day is left for the time parser
+const EVERY_PART_PATTERN = /\b(?:every|each)\s+(?=(?:morning|afternoon|evening|night)\b)/i;
+const WEEKDAYS_PATTERN = /\b(?:(?:every|each|on)\s+)?(?:week\s?days|weekday)\b/i;
+const WEEKEND_PATTERN = /\b(?:(?:every|each|on)\s+)?(?:the\s+)?weekends?\b/i;
+const DAY_LIST_PATTERN = new RegExp(String.raw`\b(every|each|on)?\s*(${DAY}(?:\s*(?:,|and|&|\s)\s*${DAY})*)\b`, 'i');
+
+const dayIndex = (word: string): number =>
+  DAY_STEMS.findIndex(stem => new RegExp(`^${stem}(?:days?)?$`, 'i').test(word));
+
+export const parseRecurrence = (text: string): RecurrenceMatch | null => {
+  const interval = text.match(INTERVAL_PATTERN);
+  if (interval) {
+    const count = interval[1] ? COUNT_WORDS[interval[1].toLowerCase()] ?? Number(interval[1]) : 1;
+    const unit = interval[2].toLowerCase().startsWith('h') ? 3600 : 60;
+    return { phrase: interval[0], intervalSeconds: Math.max(MIN_INTERVAL_SECONDS, count * unit) };
+  }
+
+  const daily = text.match(DAILY_PATTERN) ?? text.match(EVERY_PART_PATTERN);
+  if (daily) return { phrase: daily[0], weekdays: EVERY_DAY };
+
+  const weekdays = text.match(WEEKDAYS_PATTERN);
+  if (weekdays && /every|each|on|days/i.test(weekdays[0])) return { phrase: weekdays[0], weekdays: WEEKDAYS };
+
+  const weekend = text.match(WEEKEND_PATTERN);
+  if (weekend && /every|each|on|weekends/i.test(weekend[0])) return { phrase: weekend[0], weekdays: WEEKEND };
+
+  // "every monday" or a plural "mondays and thursdays" - a bare "monday" is a one-off
+  const days = text.match(DAY_LIST_PATTERN);
+  if (days) {
+    const words = days[2].split(/\s*(?:,|and|&|\s)\s*/).filter(Boolean);
+    const repeating = /every|each/i.test(days[1] ?? '') || words.some(word => /days$/i.test(word));
+    if (repeating) {
+      const indexes = [...new Set(words.map(dayIndex).filter(index => index >= 0))].sort();
+      if (indexes.length > 0) return { phrase: days[0], weekdays: indexes };
+    }
+  }
+
+  return null;
+};
+
+// First occurrence strictly after `from`. Intervals continue from `previous` when given.
+export const nextOccurrence = (recurrence: Recurrence, from: Date, previous?: number): Date => {
+  if (recurrence.kind === 'interval') {
+    const step = recurrence.seconds * 1000;
+    if (previous === undefined) return new Date(from.getTime() + step);
+    const missed = Math.max(0, Math.floor((from.getTime() - previous) / step) + 1);
+    return new Date(previous + missed * step);
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset, recurrence.hour, recurrence.minute);
+    if (recurrence.weekdays.includes(candidate.getDay()) && candidate > from) return candidate;
+  }
+  // Unreachable with at least one weekday - fall back to a week out
+  return new Date(from.getTime() + 7 * 86400000);
+};
+
+const sameDays = (a: number[], b: number[]) => a.length === b.length && a.every(day => b.includes(day));
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+const joinList = (parts: string[]): string =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+// "every 2 hours", "every weekday at 8:00 AM", "every Monday and Thursday at 6:30 AM"
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  if (recurrence.kind === 'interval') {
+    const { seconds } = recurrence;
+    if (seconds % 3600 === 0) return seconds === 3600 ? 'every hour' : `every ${seconds / 3600} hours`;
+    return seconds === 60 ? 'every minute' : `every ${Math.round(seconds / 60)} minutes`;
+  }
+
+  const time = new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit' })
+    .format(new Date(2000, 0, 1, recurrence.hour, recurrence.minute));
+  const { weekdays } = recurrence;
+  const days = sameDays(weekdays, EVERY_DAY)
+    ? 'every day'
+    : sameDays(weekdays, WEEKDAYS)
+      ? 'every weekday'
+      : sameDays(weekdays, WEEKEND)
+        ? 'every Saturday and Sunday'
+        : `every ${joinList(weekdays.map(day => capitalize(DAY_NAMES[day])))}`;
+  return `${days} at ${time}`;
+};
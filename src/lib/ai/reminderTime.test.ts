@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { describeReminderTime, parseReminder } from './reminderTime';
+
+// Wednesday, January 10, 2024, 10:00 AM
+const now = new Date(2024, 0, 10, 10, 0);
+
+describe('parseReminder', () => {
+  it.each([
+    ['remind me to call mom at 5pm tomorrow', 'call mom', new Date(2024, 0, 11, 17, 0)],
+    ['remind me in 20 minutes to stretch', 'stretch', new Date(2024, 0, 10, 10, 20)],
+    ['remind me in 2 hours to check the oven', 'check the oven', new Date(2024, 0, 10, 12, 0)],
+    ['remind me next Tuesday morning to pay rent', 'pay rent', new Date(2024, 0, 16, 9, 0)],
+    ['remind me on the 3rd at noon to renew my passport', 'renew my passport', new Date(2024, 1, 3, 12, 0)],
+    ['remind me tomorrow to buy milk', 'buy milk', new Date(2024, 0, 11, 9, 0)],
+    ['remind me to take out the trash tonight', 'take out the trash', new Date(2024, 0, 10, 20, 0)],
+  ])('%s', (input, text, at) => {
+    expect(parseReminder(input, now)).toEqual({ text, at, hasExplicitTime: true, connector: 'to' });
+  });
+
+  it.each([
+    // 9am, today the 10th and Wednesday have all passed at 10am on Wednesday the 10th
+    ['remind me at 9am to water the plants', new Date(2024, 0, 11, 9, 0)],
+    ['remind me on the 10th at 9am to call', new Date(2024, 1, 10, 9, 0)],
+    ['remind me on Wednesday at 8am to jog', new Date(2024, 0, 17, 8, 0)],
+  ])('rolls past times forward: %s', (input, at) => {
+    expect(parseReminder(input, now)?.at).toEqual(at);
+  });
+
+  it.each([
+    ['remind me at 11am that the game starts', 'the game starts', 'that'],
+    ['remind me about the meeting', 'the meeting', 'about'],
+  ])('keeps the connector: %s', (input, text, connector) => {
+    expect(parseReminder(input, now)).toMatchObject({ text, connector });
+  });
+
+  it('defaults to an hour out without a time', () => {
+    expect(parseReminder('remind me about the meeting', now)).toMatchObject({
+      at: new Date(2024, 0, 10, 11, 0),
+      hasExplicitTime: false,
+    });
+  });
+
+  it.each([
+    ['remind me every weekday at 8 to take vitamins', 'take vitamins', new Date(2024, 0, 11, 8, 0), [1, 2, 3, 4, 5]],
+    // Repeating reminders don't need the "remind me"
+    ['every monday at 7am take out the bins', 'take out the bins', new Date(2024, 0, 15, 7, 0), [1]],
+  ])('repeats: %s', (input, text, at, weekdays) => {
+    expect(parseReminder(input, now)).toMatchObject({ text, at, recurrence: { kind: 'weekly', weekdays } });
+  });
+
+  it('ignores anything that is not a reminder', () => {
+    expect(parseReminder('set a timer', now)).toBeNull();
+  });
+});
+
+describe('describeReminderTime', () => {
+  it.each([
+    [new Date(2024, 0, 10, 10, 1), 'in a minute (10:01 AM)'],
+    [new Date(2024, 0, 10, 10, 20), 'in 20 minutes (10:20 AM)'],
+    [new Date(2024, 0, 10, 20, 0), 'today at 8:00 PM'],
+    [new Date(2024, 0, 11, 17, 0), 'tomorrow at 5:00 PM'],
+    [new Date(2024, 0, 16, 9, 0), 'on Tuesday at 9:00 AM'],
+    [new Date(2024, 1, 3, 12, 0), 'on Saturday, February 3 at 12:00 PM'],
+    [new Date(2025, 0, 20, 9, 0), 'on Monday, January 20, 2025 at 9:00 AM'],
+  ])('%s', (at, description) => {
+    expect(describeReminderTime(at, now)).toBe(description);
+  });
+});
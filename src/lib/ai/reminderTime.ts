@@ -0,0 +1,219 @@
+/**
+ * Reminder scheduling - turns "remind me to call mom at 5pm tomorrow" into
+ * an exact time and a clean reminder text ("call mom").
+ * Times that already passed roll forward to their next occurrence.
+ * Repeating reminders ("every weekday at 8 take vitamins") don't need the "remind me".
+ */
+
+import { parseDateExpression } from './dateArithmetic';
+import { nextOccurrence, parseRecurrence, type Recurrence } from './recurrence';
+import { parseClockTime, type ClockTime } from './worldClock';
+
+export interface ParsedReminder {
+  // What to remind about, without the scheduling words: "call mom"
+  text: string;
+  at: Date;
+  // False when the user gave no time at all and we picked the default
+  hasExplicitTime: boolean;
+  // How the text reads after "remind you": "to call mom", "that the game starts", "about the meeting"
+  connector: ReminderConnector;
+  // Set for repeating reminders - `at` is then the first occurrence
+  recurrence?: Recurrence;
+}
+
+export type ReminderConnector = 'to' | 'that' | 'about';
+
+const DEFAULT_DELAY_MS = 60 * 60 * 1000;
+
+// When "tomorrow morning" or "next Tuesday" should go off
+const PART_OF_DAY_HOURS: Record<string, number> = {
+  morning: 9,
+  afternoon: 14,
+  evening: 18,
+  night: 20,
+  tonight: 20,
+};
+const DEFAULT_HOUR = PART_OF_DAY_HOURS.morning;
+
+const SECONDS_PER_UNIT: Record<string, number> = { s: 1, m: 60, h: 3600 };
+
+const RECURRING_START_PATTERN = /^\s*(?:every|each|daily)\b/i;
+const PREFIX_PATTERN = /^\s*(?:(?:hey\s+)?jarvis,?\s+)?(?:please\s+)?(?:(?:can|could|will)\s+you\s+)?(?:remind\s+me|set\s+(?:a\s+|an?\s+)?reminder|add\s+a\s+reminder)\s*(?:(to|that|about|of|for)\s+)?/i;
+const RELATIVE_PATTERN = /\b(?:in|after)\s+(an?|half\s+an|\d+(?:\.\d+)?)\s+(seconds?|secs?|minutes?|mins?|hours?|hrs?)(?:\s+(?:and\s+)?(\d+)\s+(minutes?|mins?|seconds?|secs?))?\b/i;
+const CLOCK_PATTERN = /\b(?:at\s+|by\s+)?(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}|noon|midday|midnight)(?![\w:])/i;
+// "at 5" with no am/pm - resolved against the part of day or the clock
+const BARE_HOUR_PATTERN = /\b(?:at|by)\s+(\d{1,2})(?:\s*o'clock)?(?![\w:])/i;
+const PART_OF_DAY_PATTERN = /\b(?:(?:in\s+the|this|at)\s+)?(morning|afternoon|evening|night)\b|\b(tonight)\b/i;
+// Connectors left dangling once the time words are gone
+const DANGLING_PATTERN = /^(?:(?:to|that|about|on|at|by|for|in|and)\s+)+|(?:\s+(?:on|at|by|for|in|and|the))+$/gi;
+
+const MAX_DATE_WORDS = 5;
+
+// Seconds in "an hour", "20 minutes", "2 hours and 30 minutes"
+const relativeSeconds = (match: RegExpMatchArray): number => {
+  const amount = /^an?$/i.test(match[1]) ? 1 : /^half/i.test(match[1]) ? 0.5 : Number(match[1]);
+  const extra = match[3] ? Number(match[3]) * SECONDS_PER_UNIT[match[4][0].toLowerCase()] : 0;
+  return amount * SECONDS_PER_UNIT[match[2][0].toLowerCase()] + extra;
+};
+
+// Longest run of words that reads as a date: "next tuesday", "on the 3rd", "june 3"
+const findDatePhrase = (text: string, now: Date): { phrase: string; date: Date } | null => {
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let start = 0; start < words.length; start++) {
+    for (let end = Math.min(words.length, start + MAX_DATE_WORDS); end > start; end--) {
+      const phrase = words.slice(start, end).join(' ');
+      const candidate = phrase.toLowerCase().replace(/[.,!?]+$/, '');
+      // A bare number is never a date on its own
+      if (/^\d+$/.test(candidate)) continue;
+      const date = parseDateExpression(candidate.replace(/^(?:on|for)\s+/, ''), now, 'future');
+      if (date) return { phrase, date };
+    }
+  }
+  return null;
+};
+
+// How far to jump when the resolved time is already behind us
+const rollForward = (at: Date, datePhrase: string | undefined): Date => {
+  const next = new Date(at);
+  const phrase = datePhrase?.toLowerCase() ?? '';
+  if (/(?:sun|mon|tues|wednes|thurs|fri|satur)day/.test(phrase)) next.setDate(next.getDate() + 7);
+  else if (/^(?:on\s+)?(?:the\s+)?\d{1,2}(?:st|nd|rd|th)$/.test(phrase)) next.setMonth(next.getMonth() + 1);
+  else if (!phrase || /^(?:on\s+)?(?:today|tonight)$/.test(phrase)) next.setDate(next.getDate() + 1);
+  else next.setFullYear(next.getFullYear() + 1);
+  return next;
+};
+
+const atTime = (day: Date, { hour, minute }: ClockTime): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+
+const cleanText = (text: string): string =>
+  text.replace(/\s+/g, ' ').trim().replace(/[.,!?]+$/, '').replace(DANGLING_PATTERN, '').trim();
+
+// The connector may come after the time: "remind me at 9am to stretch"
+const connectorFor = (leading: string | undefined, rest: string): ReminderConnector => {
+  // "set a reminder for tomorrow to buy bread" - "for" only introduced the time
+  const lead = leading && !/^for$/i.test(leading) ? leading : rest.trim().match(/^(to|that|about)\s/i)?.[1];
+  const word = (lead ?? '').toLowerCase();
+  return word === 'to' || word === 'that' ? word : 'about';
+};
+
+export const parseReminder = (input: string, now: Date = new Date()): ParsedReminder | null => {
+  const prefix = input.match(PREFIX_PATTERN);
+  if (!prefix && !RECURRING_START_PATTERN.test(input)) return null;
+
+  let rest = input.slice(prefix ? prefix[0].length : 0).replace(/\b([ap])\.m\.?/gi, '$1m');
+  const remove = (match: RegExpMatchArray) => {
+    rest = `${rest.slice(0, match.index)} ${rest.slice((match.index ?? 0) + match[0].length)}`;
+  };
+
+  const repeat = parseRecurrence(rest);
+  if (repeat) rest = rest.replace(repeat.phrase, ' ');
+  else if (!prefix) return null;
+  // Without "remind me", "every day take vitamins" reads as an instruction
+  const leading = prefix ? prefix[1] : rest.trim().match(/^(to|that|about)\s/i)?.[1] ?? 'to';
+
+  if (repeat?.intervalSeconds) {
+    const recurrence: Recurrence = { kind: 'interval', seconds: repeat.intervalSeconds };
+    return {
+      text: cleanText(rest),
+      at: nextOccurrence(recurrence, now),
+      hasExplicitTime: true,
+      connector: connectorFor(leading, rest),
+      recurrence,
+    };
+  }
+
+  const relative = repeat ? null : rest.match(RELATIVE_PATTERN);
+  if (relative) {
+    remove(relative);
+    return {
+      text: cleanText(rest),
+      at: new Date(now.getTime() + relativeSeconds(relative) * 1000),
+      hasExplicitTime: true,
+      connector: connectorFor(leading, rest),
+    };
+  }
+
+  let time: ClockTime | null = null;
+  let bareHour: number | null = null;
+  const clock = rest.match(CLOCK_PATTERN);
+  if (clock) {
+    time = parseClockTime(clock[1].toLowerCase().replace(/\s+/g, ''));
+    if (time) remove(clock);
+  } else {
+    const bare = rest.match(BARE_HOUR_PATTERN);
+    if (bare && Number(bare[1]) >= 1 && Number(bare[1]) <= 12) {
+      bareHour = Number(bare[1]) % 12;
+      remove(bare);
+    }
+  }
+
+  const partMatch = rest.match(PART_OF_DAY_PATTERN);
+  const partOfDay = partMatch ? (partMatch[1] ?? partMatch[2]).toLowerCase() : null;
+  if (partMatch) remove(partMatch);
+
+  // The repeat already says which days
+  const dateMatch = repeat ? null : findDatePhrase(rest, now);
+  if (dateMatch) rest = rest.replace(dateMatch.phrase, ' ');
+  const datePhrase = dateMatch?.phrase ?? (partOfDay === 'tonight' ? 'tonight' : undefined);
+  const day = dateMatch?.date ?? new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (bareHour !== null) {
+    const afternoon = partOfDay !== null && partOfDay !== 'morning';
+    // "at 5" on its own day is the next 5 o'clock; on another day, 1-6 means afternoon
+    if (afternoon || ((dateMatch || repeat) && bareHour >= 1 && bareHour <= 6)) {
+      time = { hour: bareHour + 12, minute: 0 };
+    } else if (!dateMatch && !repeat && atTime(day, { hour: bareHour, minute: 0 }) <= now) {
+      time = { hour: bareHour + 12, minute: 0 };
+    } else {
+      time = { hour: bareHour, minute: 0 };
+    }
+  }
+  if (!time && partOfDay) time = { hour: PART_OF_DAY_HOURS[partOfDay], minute: 0 };
+
+  const text = cleanText(rest);
+  const connector = connectorFor(leading, rest);
+
+  if (repeat?.weekdays) {
+    // "every day is a gift" - without "remind me" a repeat needs a time to count
+    if (!prefix && !time) return null;
+    const { hour, minute } = time ?? { hour: DEFAULT_HOUR, minute: 0 };
+    const recurrence: Recurrence = { kind: 'weekly', weekdays: repeat.weekdays, hour, minute };
+    return { text, at: nextOccurrence(recurrence, now), hasExplicitTime: true, connector, recurrence };
+  }
+
+  if (!time && !dateMatch) {
+    return { text, at: new Date(now.getTime() + DEFAULT_DELAY_MS), hasExplicitTime: false, connector };
+  }
+
+  let at = atTime(day, time ?? { hour: DEFAULT_HOUR, minute: 0 });
+  if (at <= now) at = rollForward(at, datePhrase);
+  return { text, at, hasExplicitTime: true, connector };
+};
+
+const formatClock = (date: Date): string =>
+  new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit' }).format(date);
+
+const startOfDay = (date: Date): number => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// "in 20 minutes (3:45 PM)", "tomorrow at 5:00 PM", "on Tuesday, November 3 at 12:00 PM"
+export const describeReminderTime = (at: Date, now: Date = new Date()): string => {
+  const minutes = Math.round((at.getTime() - now.getTime()) / 60000);
+  if (minutes < 60) {
+    return `in ${minutes <= 1 ? 'a minute' : `${minutes} minutes`} (${formatClock(at)})`;
+  }
+
+  const days = Math.round((startOfDay(at) - startOfDay(now)) / 86400000);
+  if (days === 0) return `today at ${formatClock(at)}`;
+  if (days === 1) return `tomorrow at ${formatClock(at)}`;
+  if (days < 7) {
+    return `on ${new Intl.DateTimeFormat(undefined, { weekday: 'long' }).format(at)} at ${formatClock(at)}`;
+  }
+  const date = new Intl.DateTimeFormat(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: at.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
+  }).format(at);
+  return `on ${date} at ${formatClock(at)}`;
+};
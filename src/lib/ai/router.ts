@@ -0,0 +1,92 @@
+/**
+ * Hybrid provider router.
+ * The local engine always answers first; remote providers are only consulted
+ * when the local answer is low confidence AND the user has opted in.
+ */
+
+import { abortableDelay, isAbortError } from './abort';
+import type { AIProvider, ProviderRequest, ProviderResponse } from './types';
+
+// The local engine reports 0.3 for the `unknown` intent
+export const LOW_CONFIDENCE_THRESHOLD = 0.3;
+
+interface RouteOptions {
+  local: AIProvider;
+  remote: AIProvider[];
+  allowRemote: boolean;
+}
+
+export const shouldEscalate = (result: ProviderResponse, allowRemote: boolean): boolean => {
+  return allowRemote && result.confidence <= LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const routeMessage = async (
+  request: ProviderRequest,
+  { local, remote, allowRemote }: RouteOptions
+): Promise<ProviderResponse> => {
+  const localResult = await local.generate(request);
+
+  if (!shouldEscalate(localResult, allowRemote)) {
+    return localResult;
+  }
+
+  for (const provider of remote) {
+    if (!provider.isAvailable()) continue;
+    try {
+      return await provider.generate(request);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error(`Provider ${provider.id} failed, falling back:`, e);
+    }
+  }
+
+  // Every remote provider failed or was unavailable - keep the local answer
+  return localResult;
+};
+
+// Pace a finished answer out word by word so it reads like a stream
+export const replayAsStream = async (
+  text: string,
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const words = text.split(' ');
+  for (let i = 0; i < words.length; i++) {
+    await abortableDelay(30 + Math.random() * 50, signal);
+    onChunk(words[i] + (i < words.length - 1 ? ' ' : ''));
+  }
+};
+
+// Streaming variant of routeMessage - remote tokens are forwarded as they arrive
+export const routeStream = async (
+  request: ProviderRequest,
+  { local, remote, allowRemote }: RouteOptions,
+  onChunk: (chunk: string) => void
+): Promise<ProviderResponse> => {
+  const localResult = await local.generate(request);
+
+  if (shouldEscalate(localResult, allowRemote)) {
+    for (const provider of remote) {
+      if (!provider.isAvailable()) continue;
+      let emitted = false;
+      try {
+        if (provider.stream) {
+          return await provider.stream(request, (chunk) => {
+            emitted = true;
+            onChunk(chunk);
+          });
+        }
+        const result = await provider.generate(request);
+        await replayAsStream(result.response, onChunk, request.signal);
+        return result;
+      } catch (e) {
+        // Text already shown can't be taken back - let the caller report it
+        if (emitted || isAbortError(e)) throw e;
+        console.error(`Provider ${provider.id} failed, falling back:`, e);
+      }
+    }
+  }
+
+  await replayAsStream(localResult.response, onChunk, request.signal);
+  return localResult;
+};
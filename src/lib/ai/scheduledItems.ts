@@ -0,0 +1,165 @@
+/**
+ * Timers, alarms and reminders the assistant created - shared types plus
+ * the commands that work on them: "what timers do I have", "cancel the pasta
+ * timer", "snooze for 5 minutes", "add 2 minutes".
+ */
+
+import { describeRecurrence, type Recurrence } from './recurrence';
+import { describeReminderTime } from './reminderTime';
+
+export type ScheduledKind = 'timer' | 'alarm' | 'reminder';
+
+export interface ScheduledItem {
+  // Also the LocalNotifications id, so it must fit in a 32-bit int
+  id: number;
+  kind: ScheduledKind;
+  // "pasta", "call mom" - empty for unnamed timers and alarms
+  label: string;
+  at: number;
+  createdAt: number;
+  // Timers keep their length so they can be described as "your 10 minute timer"
+  durationSeconds?: number;
+  // When it went off - fired items are kept for a while so they can be snoozed
+  firedAt?: number;
+  // Scheduled with LocalNotifications rather than an in-page timeout
+  isNative: boolean;
+  // Repeating items never fire for good - `at` is always the next occurrence
+  recurrence?: Recurrence;
+  lastFiredAt?: number;
+  paused?: boolean;
+  // Weekly repeats need one native notification per weekday - defaults to [id]
+  notificationIds?: number[];
+}
+
+export type ScheduleCommand =
+  | { kind: 'list'; filter?: ScheduledKind }
+  | { kind: 'cancel'; filter?: ScheduledKind; target: string; all: boolean }
+  | { kind: 'snooze'; seconds: number }
+  | { kind: 'addTime'; seconds: number; filter?: ScheduledKind; target: string };
+
+export const DEFAULT_SNOOZE_SECONDS = 10 * 60;
+
+const KINDS = String.raw`(timers?|alarms?|reminders?)`;
+const AMOUNT = String.raw`(\d+|an?|one|two|three|four|five|ten|fifteen|twenty|thirty)`;
+const UNIT = String.raw`(seconds?|secs?|minutes?|mins?|hours?|hrs?)`;
+
+const LIST_PATTERNS = [
+  new RegExp(String.raw`^(?:what|which)\s+${KINDS}\s+(?:do\s+i\s+have|have\s+i\s+(?:got|set)|are\s+(?:set|running|on|there|pending|active|left))`),
+  new RegExp(String.raw`^(?:list|show|read)(?:\s+me)?\s+(?:all\s+)?(?:of\s+)?(?:my\s+|the\s+)?(?:active\s+|pending\s+)?${KINDS}$`),
+  new RegExp(String.raw`^(?:do\s+i\s+have\s+any|are\s+there\s+any|any)\s+${KINDS}(?:\s+(?:set|running|on|pending))?$`),
+  new RegExp(String.raw`^(?:my\s+)?${KINDS}$`),
+  /^how\s+(?:much\s+time|long)\s+(?:is\s+)?(?:left|remaining)(?:\s+(?:on|in)\s+(?:the\s+|my\s+)?.*?(timers?))?$/,
+  /^what(?:\s+is|'s)\s+(?:scheduled|coming\s+up|pending)$/,
+  /^what\s+(?:do\s+i\s+have|have\s+i\s+got)\s+(?:scheduled|coming\s+up|set)$/,
+];
+
+const CANCEL_PATTERN = new RegExp(String.raw`^(?:cancel|delete|remove|stop|clear|turn\s+off|dismiss|get\s+rid\s+of)\s+(all\s+)?(?:of\s+)?(?:the\s+|my\s+|that\s+)?(.*?)\s*${KINDS}(?:\s+(?:for|to|called|named|about|at)\s+(.+))?$`);
+const SNOOZE_PATTERN = new RegExp(String.raw`^snooze(?:\s+(?:it|that|this|the\s+\w+|my\s+\w+))?(?:\s+(?:for\s+)?(?:another\s+)?${AMOUNT}\s+(?:more\s+)?${UNIT})?$`);
+const ADD_TIME_PATTERN = new RegExp(String.raw`^(?:add|put|give\s+(?:me|it))\s+(?:another\s+)?${AMOUNT}\s+(?:more\s+)?${UNIT}(?:\s+(?:more\s+)?(?:to|on)\s+(?:the\s+|my\s+|that\s+)?(.*?)\s*${KINDS}?)?$`);
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+};
+
+const toSeconds = (amount: string, unit: string): number =>
+  (NUMBER_WORDS[amount] ?? Number(amount)) * (unit.startsWith('h') ? 3600 : unit.startsWith('m') ? 60 : 1);
+
+const toKind = (word: string | undefined): ScheduledKind | undefined =>
+  word ? (word.replace(/s$/, '') as ScheduledKind) : undefined;
+
+const normalize = (message: string): string =>
+  message
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[?!.]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const parseScheduleCommand = (message: string): ScheduleCommand | null => {
+  const text = normalize(message);
+
+  for (const pattern of LIST_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return { kind: 'list', filter: toKind(match[1]) };
+  }
+
+  const cancel = text.match(CANCEL_PATTERN);
+  if (cancel) {
+    return { kind: 'cancel', all: Boolean(cancel[1]), target: (cancel[2] || cancel[4] || '').trim(), filter: toKind(cancel[3]) };
+  }
+
+  const snooze = text.match(SNOOZE_PATTERN);
+  if (snooze) {
+    return { kind: 'snooze', seconds: snooze[1] ? toSeconds(snooze[1], snooze[2]) : DEFAULT_SNOOZE_SECONDS };
+  }
+
+  const addTime = text.match(ADD_TIME_PATTERN);
+  if (addTime) {
+    return { kind: 'addTime', seconds: toSeconds(addTime[1], addTime[2]), target: (addTime[3] || '').trim(), filter: toKind(addTime[4]) };
+  }
+
+  return null;
+};
+
+// Pending items first, soonest first
+export const upcomingItems = (items: ScheduledItem[], filter?: ScheduledKind): ScheduledItem[] =>
+  items
+    .filter(item => !item.firedAt && (!filter || item.kind === filter))
+    .sort((a, b) => a.at - b.at);
+
+// "pasta", "the 10 minute", "7 am" - matched against labels, durations and times
+export const findItems = (target: string, items: ScheduledItem[]): ScheduledItem[] => {
+  const words = target.toLowerCase().split(/\s+/).filter(word => word && !/^(?:the|my|a|an|one)$/.test(word));
+  if (words.length === 0) return items;
+  return items.filter(item => {
+    const haystack = `${item.label} ${item.durationSeconds ? formatSpan(item.durationSeconds) : ''} ${describeItemTime(item)}`.toLowerCase();
+    return words.every(word => haystack.includes(word.replace(/s$/, '')));
+  });
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// "4 minutes 10 seconds", "1 hour 5 minutes"
+export const formatSpan = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  const parts = [
+    hours ? plural(hours, 'hour') : '',
+    minutes ? plural(minutes, 'minute') : '',
+    rest && hours === 0 ? plural(rest, 'second') : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '0 seconds';
+};
+
+const describeItemTime = (item: ScheduledItem, now: Date = new Date()): string => {
+  if (item.recurrence) return `${describeRecurrence(item.recurrence)}${item.paused ? ' (paused)' : ''}`;
+  return item.kind === 'timer' ? `${formatSpan((item.at - now.getTime()) / 1000)} left` : describeReminderTime(new Date(item.at), now);
+};
+
+// "the pasta timer", "your 10 minute timer", "your alarm", "your \"call mom\" reminder"
+export const describeItemName = (item: ScheduledItem): string => {
+  if (item.kind === 'timer') {
+    if (item.label) return `the ${item.label} timer`;
+    return item.durationSeconds ? `your ${formatSpan(item.durationSeconds).replace(/s\b/g, '')} timer` : 'your timer';
+  }
+  if (item.kind === 'alarm') return item.label ? `your ${item.label} alarm` : 'your alarm';
+  return item.label ? `your "${item.label}" reminder` : 'your reminder';
+};
+
+// "the pasta timer with 4 minutes left", "your alarm tomorrow at 7:00 AM"
+export const describeItem = (item: ScheduledItem, now: Date = new Date()): string =>
+  item.kind === 'timer' && !item.recurrence
+    ? `${describeItemName(item)} with ${describeItemTime(item, now)}`
+    : `${describeItemName(item)} ${describeItemTime(item, now)}`;
+
+const joinList = (parts: string[]): string =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+export const describeItemList = (items: ScheduledItem[], filter?: ScheduledKind, now: Date = new Date()): string => {
+  if (items.length === 0) return `You don't have any ${filter ? `${filter}s` : 'timers, alarms or reminders'} set.`;
+  const count = plural(items.length, filter ?? 'thing');
+  const intro = filter ? `You have ${count}` : `You have ${count} scheduled`;
+  return `${intro}: ${joinList(items.map(item => describeItem(item, now)))}.`;
+};
@@ -0,0 +1,97 @@
+/**
+ * Server-sent events client for OpenAI-style chat completion streams.
+ * Handles lines split across network chunks, `[DONE]`, keep-alive comments
+ * and error payloads sent in the middle of a stream.
+ */
+
+type DeltaHandler = (delta: string) => void;
+
+interface ParsedLine {
+  done: boolean;
+  delta: string;
+}
+
+const parseEventLine = (rawLine: string): ParsedLine => {
+  const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+  // Blank lines separate events, `:` lines are keep-alive comments
+  if (line === '' || line.startsWith(':') || !line.startsWith('data:')) {
+    return { done: false, delta: '' };
+  }
+
+  const data = line.slice(5).trim();
+  if (data === '[DONE]') {
+    return { done: true, delta: '' };
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    // Malformed event - skip it rather than abort the whole answer
+    return { done: false, delta: '' };
+  }
+
+  if (parsed?.error) {
+    const message = typeof parsed.error === 'string' ? parsed.error : parsed.error.message;
+    throw new Error(message || 'Stream reported an error');
+  }
+
+  const delta = parsed?.choices?.[0]?.delta?.content;
+  return { done: false, delta: typeof delta === 'string' ? delta : '' };
+};
+
+// Read a chat completion stream, calling onDelta for every content token.
+// Resolves with the full content once the stream finishes.
+export const readChatStream = async (
+  body: ReadableStream<Uint8Array>,
+  onDelta: DeltaHandler = () => {}
+): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let finished = false;
+
+  const emit = (delta: string) => {
+    if (!delta) return;
+    content += delta;
+    onDelta(delta);
+  };
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Only complete lines are parsed - a partial line stays buffered
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+
+        const parsed = parseEventLine(line);
+        if (parsed.done) {
+          finished = true;
+          break;
+        }
+        emit(parsed.delta);
+      }
+    }
+
+    // Flush anything left once the connection closes
+    if (!finished) {
+      buffer += decoder.decode();
+      for (const line of buffer.split('\n')) {
+        const parsed = parseEventLine(line);
+        if (parsed.done) break;
+        emit(parsed.delta);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  return content;
+};
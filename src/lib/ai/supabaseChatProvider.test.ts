@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatRequestBody } from './supabaseChatProvider';
+import type { ChatTurn } from './types';
+
+const history: ChatTurn[] = [
+  { role: 'user', content: 'remember that my locker code is 4512' },
+  { role: 'assistant', content: "Got it, I'll remember that your locker code is 4512." },
+  { role: 'user', content: 'what is the capital of france' },
+  { role: 'assistant', content: 'Paris.' },
+  { role: 'user', content: "what's my locker code" },
+  { role: 'assistant', content: 'Your locker code is 4512.' },
+];
+
+describe('buildChatRequestBody', () => {
+  it('keeps memory commands and their answers on the device by default', () => {
+    const body = buildChatRequestBody({ message: 'and germany?', history });
+
+    expect(body.conversationHistory).toEqual([
+      { role: 'user', content: 'what is the capital of france' },
+      { role: 'assistant', content: 'Paris.' },
+    ]);
+  });
+
+  it('sends the whole history when memory sharing is on', () => {
+    const body = buildChatRequestBody({ message: 'and germany?', history, shareMemories: true });
+
+    expect(body.conversationHistory).toEqual(history);
+  });
+});
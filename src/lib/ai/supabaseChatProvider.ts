@@ -0,0 +1,96 @@
+/**
+ * Cloud provider backed by the Supabase `chat` edge function.
+ * Only used when the user has opted in to cloud answers.
+ */
+
+import { isMemoryCommand } from './personalMemory';
+import { readChatStream } from './sseStream';
+import type { AIProvider, ChatTurn, ProviderRequest, ProviderResponse } from './types';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export const CHAT_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/chat`;
+
+// Mirror the edge function's validation limits so requests are never rejected
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 10000;
+const MAX_USER_FACTS = 20;
+const MAX_FACT_LENGTH = 500;
+
+// Drop memory commands along with the replies to them
+const withoutMemoryTurns = (history: ChatTurn[]): ChatTurn[] =>
+  history.filter((turn, i) => {
+    const asked = turn.role === 'user' ? turn : history[i - 1];
+    return !(asked?.role === 'user' && isMemoryCommand(asked.content));
+  });
+
+// Build the request body the edge function expects
+export const buildChatRequestBody = ({ message, history, isVoiceMode, userFacts, shareMemories }: ProviderRequest) => ({
+  messages: [{ role: 'user', content: message.slice(0, MAX_MESSAGE_LENGTH) }],
+  conversationHistory: (shareMemories ? history : withoutMemoryTurns(history)).slice(-MAX_HISTORY_MESSAGES).map(m => ({
+    role: m.role,
+    content: m.content.slice(0, MAX_MESSAGE_LENGTH),
+  })),
+  isVoiceMode: Boolean(isVoiceMode),
+  ...(userFacts?.length && {
+    userFacts: userFacts.slice(0, MAX_USER_FACTS).map(fact => fact.slice(0, MAX_FACT_LENGTH)),
+  }),
+});
+
+// Turn a non-2xx edge function response into an Error with its message
+export const readChatError = async (response: Response): Promise<Error> => {
+  try {
+    const data = await response.json();
+    if (data && typeof data.error === 'string') {
+      return new Error(data.error);
+    }
+  } catch {
+    // Body was not JSON - fall through to the generic message
+  }
+  return new Error(`Chat function failed with status ${response.status}`);
+};
+
+// Open a streaming request against the chat function
+const openChatStream = async (request: ProviderRequest): Promise<ReadableStream<Uint8Array>> => {
+  const response = await fetch(CHAT_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(buildChatRequestBody(request)),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    throw await readChatError(response);
+  }
+  if (!response.body) {
+    throw new Error('Chat function returned no stream');
+  }
+
+  return response.body;
+};
+
+const streamChat = async (
+  request: ProviderRequest,
+  onChunk?: (chunk: string) => void
+): Promise<ProviderResponse> => {
+  const body = await openChatStream(request);
+  const content = (await readChatStream(body, onChunk)).trim();
+  if (!content) {
+    throw new Error('Chat function returned an empty response');
+  }
+
+  return { response: content, confidence: 0.9, provider: supabaseChatProvider.id };
+};
+
+export const supabaseChatProvider: AIProvider = {
+  id: 'supabase-chat',
+  label: 'Jarvis Cloud',
+  isOffline: false,
+  isAvailable: () => Boolean(SUPABASE_URL && SUPABASE_PUBLISHABLE_KEY) && navigator.onLine,
+  generate: (request) => streamChat(request),
+  stream: (request, onChunk) => streamChat(request, onChunk),
+};
@@ -0,0 +1,58 @@
+/**
+ * Small text utilities shared by the offline ranking code
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with',
+  'about', 'as', 'from', 'into', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does',
+  'did', 'i', "i'm", 'me', 'my', 'you', 'your', 'it', "it's", 'its', 'this', 'that', 'these',
+  'those', 'what', "what's", 'which', 'who', 'how', 'can', 'could', 'would', 'should', 'will',
+  'please', 'tell', 'know', 'so', 'just', 'some', 'any', 'there', 'their', 'they', 'we', 'our',
+  'us', 'he', 'she', 'his', 'her', 'them', 'than', 'then', 'too', 'very', 'up', 'out', 'not',
+]);
+
+export const isStopword = (token: string): boolean => STOPWORDS.has(token);
+
+// Crude suffix stripping so "numbers" and "number" line up
+export const stem = (token: string): string => {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+};
+
+// Lowercased, stemmed tokens without stopwords
+export const contentTokens = (text: string): string[] => {
+  return tokenize(text)
+    .filter(token => !STOPWORDS.has(token))
+    .map(stem);
+};
+
+export const ngrams = (tokens: string[], n: number): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i + n <= tokens.length; i++) {
+    grams.push(tokens.slice(i, i + n).join(' '));
+  }
+  return grams;
+};
+
+// Levenshtein distance - insertions, deletions and substitutions all cost 1
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
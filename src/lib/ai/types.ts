@@ -0,0 +1,36 @@
+/**
+ * Shared types for the assistant's AI provider layer
+ */
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  message: string;
+  history: ChatTurn[];
+  isVoiceMode?: boolean;
+  signal?: AbortSignal;
+  // Remembered facts the user agreed to share with cloud providers
+  userFacts?: string[];
+  // Memory commands in the history only leave the device when this is on
+  shareMemories?: boolean;
+}
+
+export interface ProviderResponse {
+  response: string;
+  confidence: number;
+  provider: string;
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  // Offline providers never send anything off the device
+  isOffline: boolean;
+  isAvailable: () => boolean;
+  generate: (request: ProviderRequest) => Promise<ProviderResponse>;
+  // Providers that can emit tokens as they arrive implement this too
+  stream?: (request: ProviderRequest, onChunk: (chunk: string) => void) => Promise<ProviderResponse>;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits, formatConversion, parseConversionRequest } from './unitConversion';
+
+const convert = (input: string, isVoiceMode = false): string | null => {
+  const request = parseConversionRequest(input);
+  return request && formatConversion(convertUnits(request), { isVoiceMode });
+};
+
+describe('unit conversion', () => {
+  it.each([
+    ['72 fahrenheit in celsius', '72 degrees Fahrenheit = 22.22 degrees Celsius'],
+    ['convert 72°F to celsius', '72 degrees Fahrenheit = 22.22 degrees Celsius'],
+    ['-40 celsius in fahrenheit', '-40 degrees Celsius = -40 degrees Fahrenheit'],
+    ['5 km is how many miles', '5 kilometers = 3.107 miles'],
+    ['one hundred meters in feet', '100 meters = 328.1 feet'],
+    ['1 acre in square meters', '1 acre = 4,047 square meters'],
+    ['100 kph in mph', '100 kilometers per hour = 62.14 miles per hour'],
+    ['2 gb in mb', '2 gigabytes = 2,000 megabytes'],
+    ['3 hours in minutes', '3 hours = 180 minutes'],
+    ['1 ½ cups of milk in ml', '1.5 cups = 354.9 milliliters'],
+    // "ounces" next to a volume means fluid ounces
+    ['how many ounces in a cup', '1 cup = 8 fluid ounces'],
+  ])('%s', (input, answer) => {
+    expect(convert(input)).toBe(answer);
+  });
+
+  it.each([
+    ['how many grams in 3 cups of flour', '3 cups of flour ≈ 375 grams'],
+    ['half a cup of sugar in grams', '0.5 cups of sugar ≈ 100 grams'],
+    ['200 g of brown sugar in cups', '200 grams of brown sugar ≈ 0.939 cups'],
+  ])('cooking: %s', (input, answer) => {
+    expect(convert(input)).toBe(answer);
+  });
+
+  it('says approximately out loud', () => {
+    expect(convert('how many grams in 3 cups of flour', true)).toBe('3 cups of flour is about 375 grams.');
+  });
+
+  it('explains conversions it cannot make', () => {
+    expect(convert('how many grams in a cup')).toMatch(/depends on the ingredient/);
+    expect(convert('5 km in kilograms')).toBe("I can't convert kilometers to kilograms - they measure different things.");
+  });
+
+  it('ignores everything else', () => {
+    expect(parseConversionRequest('what is the weather')).toBeNull();
+    expect(parseConversionRequest('tell me a joke')).toBeNull();
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Offline unit converter.
+ * Understands requests like "how many grams in 3 cups of flour", "72 fahrenheit in celsius"
+ * or "convert 5 km to miles". Cooking conversions between volume and weight use a table
+ * of ingredient densities.
+ */
+
+import { formatNumberForSpeech, replaceNumberWords } from './mathLanguage';
+
+export type Dimension = 'length' | 'mass' | 'volume' | 'temperature' | 'area' | 'speed' | 'data' | 'time';
+
+export interface UnitDefinition {
+  id: string;
+  dimension: Dimension;
+  // value in base unit = (value + offset) * factor
+  factor: number;
+  offset?: number;
+  singular: string;
+  plural: string;
+  aliases: string[];
+}
+
+const unit = (
+  id: string,
+  dimension: Dimension,
+  factor: number,
+  singular: string,
+  plural: string,
+  aliases: string[],
+  offset?: number
+): UnitDefinition => ({ id, dimension, factor, offset, singular, plural, aliases: [singular, plural, ...aliases] });
+
+// Base units: metre, gram, millilitre, kelvin, square metre, metres per second, byte, second
+export const UNITS: UnitDefinition[] = [
+  // Length
+  unit('mm', 'length', 0.001, 'millimeter', 'millimeters', ['mm', 'millimetre', 'millimetres']),
+  unit('cm', 'length', 0.01, 'centimeter', 'centimeters', ['cm', 'centimetre', 'centimetres']),
+  unit('m', 'length', 1, 'meter', 'meters', ['m', 'metre', 'metres']),
+  unit('km', 'length', 1000, 'kilometer', 'kilometers', ['km', 'kms', 'kilometre', 'kilometres', 'klick', 'klicks']),
+  unit('in', 'length', 0.0254, 'inch', 'inches', ['"']),
+  unit('ft', 'length', 0.3048, 'foot', 'feet', ['ft', "'"]),
+  unit('yd', 'length', 0.9144, 'yard', 'yards', ['yd', 'yds']),
+  unit('mi', 'length', 1609.344, 'mile', 'miles', ['mi']),
+  unit('nmi', 'length', 1852, 'nautical mile', 'nautical miles', ['nmi']),
+
+  // Mass
+  unit('mg', 'mass', 0.001, 'milligram', 'milligrams', ['mg', 'milligramme', 'milligrammes']),
+  unit('g', 'mass', 1, 'gram', 'grams', ['g', 'gr', 'gramme', 'grammes']),
+  unit('kg', 'mass', 1000, 'kilogram', 'kilograms', ['kg', 'kgs', 'kilo', 'kilos', 'kilogramme', 'kilogrammes']),
+  unit('t', 'mass', 1e6, 'metric ton', 'metric tons', ['tonne', 'tonnes', 'metric tonne', 'metric tonnes']),
+  unit('oz', 'mass', 28.349523125, 'ounce', 'ounces', ['oz']),
+  unit('lb', 'mass', 453.59237, 'pound', 'pounds', ['lb', 'lbs']),
+  unit('st', 'mass', 6350.29318, 'stone', 'stone', ['stones']),
+  unit('ton', 'mass', 907184.74, 'ton', 'tons', ['short ton', 'short tons']),
+
+  // Volume (US customary measures)
+  unit('ml', 'volume', 1, 'milliliter', 'milliliters', ['ml', 'millilitre', 'millilitres']),
+  unit('l', 'volume', 1000, 'liter', 'liters', ['l', 'litre', 'litres']),
+  unit('tsp', 'volume', 4.92892159375, 'teaspoon', 'teaspoons', ['tsp', 'tsps']),
+  unit('tbsp', 'volume', 14.78676478125, 'tablespoon', 'tablespoons', ['tbsp', 'tbsps', 'tbs', 'tbl']),
+  unit('floz', 'volume', 29.5735295625, 'fluid ounce', 'fluid ounces', ['fl oz', 'floz', 'fl. oz']),
+  unit('cup', 'volume', 236.5882365, 'cup', 'cups', []),
+  unit('pt', 'volume', 473.176473, 'pint', 'pints', ['pt', 'pts']),
+  unit('qt', 'volume', 946.352946, 'quart', 'quarts', ['qt', 'qts']),
+  unit('gal', 'volume', 3785.411784, 'gallon', 'gallons', ['gal', 'gals']),
+  unit('m3', 'volume', 1e6, 'cubic meter', 'cubic meters', ['m3', 'm³', 'cubic metre', 'cubic metres']),
+
+  // Temperature
+  unit('c', 'temperature', 1, 'degree Celsius', 'degrees Celsius', ['celsius', 'centigrade', '°c', 'c', 'degrees c'], 273.15),
+  unit('f', 'temperature', 5 / 9, 'degree Fahrenheit', 'degrees Fahrenheit', ['fahrenheit', '°f', 'f', 'degrees f'], 459.67),
+  unit('k', 'temperature', 1, 'kelvin', 'kelvin', ['kelvins']),
+
+  // Area
+  unit('cm2', 'area', 1e-4, 'square centimeter', 'square centimeters', ['cm2', 'cm²', 'sq cm', 'square centimetre', 'square centimetres']),
+  unit('m2', 'area', 1, 'square meter', 'square meters', ['m2', 'm²', 'sq m', 'square metre', 'square metres']),
+  unit('km2', 'area', 1e6, 'square kilometer', 'square kilometers', ['km2', 'km²', 'sq km', 'square kilometre', 'square kilometres']),
+  unit('in2', 'area', 0.00064516, 'square inch', 'square inches', ['in2', 'in²', 'sq in']),
+  unit('ft2', 'area', 0.09290304, 'square foot', 'square feet', ['ft2', 'ft²', 'sq ft', 'sqft']),
+  unit('yd2', 'area', 0.83612736, 'square yard', 'square yards', ['yd2', 'yd²', 'sq yd']),
+  unit('mi2', 'area', 2589988.110336, 'square mile', 'square miles', ['mi2', 'mi²', 'sq mi']),
+  unit('ac', 'area', 4046.8564224, 'acre', 'acres', []),
+  unit('ha', 'area', 10000, 'hectare', 'hectares', ['ha']),
+
+  // Speed
+  unit('mps', 'speed', 1, 'meter per second', 'meters per second', ['m/s', 'mps', 'metre per second', 'metres per second']),
+  unit('kph', 'speed', 1000 / 3600, 'kilometer per hour', 'kilometers per hour', ['km/h', 'kmh', 'kph', 'km per hour', 'kilometre per hour', 'kilometres per hour']),
+  unit('mph', 'speed', 0.44704, 'mile per hour', 'miles per hour', ['mph', 'mi/h']),
+  unit('fps', 'speed', 0.3048, 'foot per second', 'feet per second', ['ft/s', 'fps']),
+  unit('kn', 'speed', 1852 / 3600, 'knot', 'knots', ['kn', 'kt', 'kts']),
+
+  // Data size (decimal prefixes, plus binary ones for the pedants)
+  unit('bit', 'data', 0.125, 'bit', 'bits', []),
+  unit('byte', 'data', 1, 'byte', 'bytes', []),
+  unit('kb', 'data', 1e3, 'kilobyte', 'kilobytes', ['kb']),
+  unit('mb', 'data', 1e6, 'megabyte', 'megabytes', ['mb', 'megs']),
+  unit('gb', 'data', 1e9, 'gigabyte', 'gigabytes', ['gb', 'gigs']),
+  unit('tb', 'data', 1e12, 'terabyte', 'terabytes', ['tb']),
+  unit('kbit', 'data', 125, 'kilobit', 'kilobits', ['kbit', 'kbits']),
+  unit('mbit', 'data', 125000, 'megabit', 'megabits', ['mbit', 'mbits']),
+  unit('gbit', 'data', 1.25e8, 'gigabit', 'gigabits', ['gbit', 'gbits']),
+  unit('kib', 'data', 1024, 'kibibyte', 'kibibytes', ['kib']),
+  unit('mib', 'data', 1024 ** 2, 'mebibyte', 'mebibytes', ['mib']),
+  unit('gib', 'data', 1024 ** 3, 'gibibyte', 'gibibytes', ['gib']),
+
+  // Time
+  unit('ms', 'time', 0.001, 'millisecond', 'milliseconds', ['ms']),
+  unit('s', 'time', 1, 'second', 'seconds', ['sec', 'secs']),
+  unit('min', 'time', 60, 'minute', 'minutes', ['min', 'mins']),
+  unit('h', 'time', 3600, 'hour', 'hours', ['hr', 'hrs']),
+  unit('day', 'time', 86400, 'day', 'days', []),
+  unit('week', 'time', 604800, 'week', 'weeks', ['wk', 'wks']),
+  unit('month', 'time', 2629746, 'month', 'months', []),
+  unit('year', 'time', 31556952, 'year', 'years', ['yr', 'yrs']),
+];
+
+// Grams per US cup - close enough for the kitchen, not for the lab
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  'water': 236.6,
+  'milk': 245,
+  'buttermilk': 245,
+  'cream': 238,
+  'yogurt': 245,
+  'butter': 227,
+  'oil': 218,
+  'honey': 340,
+  'maple syrup': 315,
+  'syrup': 328,
+  'flour': 125,
+  'bread flour': 127,
+  'whole wheat flour': 120,
+  'almond flour': 96,
+  'sugar': 200,
+  'brown sugar': 213,
+  'powdered sugar': 120,
+  'icing sugar': 120,
+  "confectioners' sugar": 120,
+  'confectioners sugar': 120,
+  'cocoa': 85,
+  'cocoa powder': 85,
+  'cornstarch': 128,
+  'baking powder': 192,
+  'baking soda': 220,
+  'salt': 288,
+  'rice': 185,
+  'oats': 90,
+  'rolled oats': 90,
+  'peanut butter': 258,
+  'chocolate chips': 170,
+  'raisins': 145,
+  'nuts': 120,
+};
+
+export interface ConversionRequest {
+  amount: number;
+  from: UnitDefinition;
+  to: UnitDefinition;
+  // Free text after "of", e.g. "all-purpose flour"
+  ingredient?: string;
+}
+
+export type ConversionResult =
+  | { ok: true; request: ConversionRequest; value: number; approximate: boolean; ingredient?: string }
+  | { ok: false; message: string };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Every alias may belong to several units ("ounce" is a weight and a fluid ounce)
+const UNITS_BY_ALIAS = new Map<string, UnitDefinition[]>();
+for (const definition of UNITS) {
+  for (const alias of definition.aliases) {
+    const key = alias.toLowerCase();
+    const existing = UNITS_BY_ALIAS.get(key) ?? [];
+    if (!existing.includes(definition)) UNITS_BY_ALIAS.set(key, [...existing, definition]);
+  }
+}
+// "ounces" in "how many ounces in a cup" means fluid ounces
+for (const alias of ['ounce', 'ounces', 'oz']) {
+  UNITS_BY_ALIAS.get(alias)?.push(UNITS.find(u => u.id === 'floz')!);
+}
+
+// Longest aliases first so "fl oz" wins over "oz" and "°f" over "f"
+const UNIT_PATTERN = `(${[...UNITS_BY_ALIAS.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|')})(?![a-z0-9²³])`;
+
+const FRACTIONS: Record<string, string> = { '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4', '⅛': ' 1/8' };
+
+const QUANTITY = String.raw`(\d+(?:\.\d+)?(?:\s+\d+/\d+)?|\d+/\d+|\.\d+)`;
+const INGREDIENT = String.raw`([a-z][a-z' -]*?)`;
+
+// "how many grams (are) in 3 cups of flour", "how many cups is 200 g of sugar"
+const HOW_MANY_PATTERN = new RegExp(
+  String.raw`how\s+(?:many|much)\s+${UNIT_PATTERN}(?:\s+of\s+${INGREDIENT})?\s+(?:(?:are|is)\s+(?:there\s+)?)?(?:in|is|are|makes?|equals?|per)\s+(?:${QUANTITY}\s*)?${UNIT_PATTERN}(?:\s+of\s+${INGREDIENT})?\s*$`
+);
+
+// "3 cups of flour in grams", "convert 72°f to celsius", "5 km is how many miles"
+const DIRECT_PATTERN = new RegExp(
+  String.raw`(?:^|[^a-z0-9.])(-?)${QUANTITY}\s*${UNIT_PATTERN}(?:\s+of\s+${INGREDIENT})?\s+(?:in|to|into|as|equals?|is|are)\s+(?:how\s+many\s+|how\s+much\s+)?${UNIT_PATTERN}\s*$`
+);
+
+const parseQuantity = (text: string | undefined): number => {
+  if (!text) return 1;
+  return text.trim().split(/\s+/).reduce((total, part) => {
+    const [numerator, denominator] = part.split('/');
+    return total + (denominator ? Number(numerator) / Number(denominator) : Number(numerator));
+  }, 0);
+};
+
+// Lowercase, spell out number words and tidy up "a cup", "half a cup" and "1 ½ cups"
+const normalizeInput = (input: string): string => {
+  let text = input.toLowerCase().replace(/[?!]+/g, ' ').replace(/\s+/g, ' ').trim();
+  text = text.replace(/[½⅓⅔¼¾⅛]/g, match => FRACTIONS[match]);
+  text = replaceNumberWords(text).replace(/\.$/, '').trim();
+  return text
+    .replace(/\bdegrees?\s+(celsius|centigrade|fahrenheit|kelvin)\b/g, '$1')
+    .replace(/\b(\d+(?:\.\d+)?)\s*°\s*([cf])\b/g, '$1 °$2')
+    .replace(/\bhalf\s+(?:of\s+)?an?\b/g, '1/2')
+    .replace(/\ba\s+half\b/g, '1/2')
+    .replace(/\b(?:a\s+)?quarter\s+(?:of\s+)?an?\b/g, '1/4')
+    .replace(/\b(?:a|an|one)\s+(?=[a-z°])/g, '1 ')
+    .replace(/\b(\d+)\s+and\s+(?:a\s+)?(1\/\d)\b/g, '$1 $2');
+};
+
+// Pick the pair of candidate units that make sense together
+const pickUnits = (fromAlias: string, toAlias: string): [UnitDefinition, UnitDefinition] => {
+  const fromCandidates = UNITS_BY_ALIAS.get(fromAlias)!;
+  const toCandidates = UNITS_BY_ALIAS.get(toAlias)!;
+  for (const from of fromCandidates) {
+    const to = toCandidates.find(candidate => candidate.dimension === from.dimension);
+    if (to) return [from, to];
+  }
+  return [fromCandidates[0], toCandidates[0]];
+};
+
+// Parse a conversion request - null when the message isn't one
+export const parseConversionRequest = (input: string): ConversionRequest | null => {
+  const text = normalizeInput(input);
+
+  const howMany = text.match(HOW_MANY_PATTERN);
+  if (howMany) {
+    const [, toAlias, toIngredient, quantity, fromAlias, fromIngredient] = howMany;
+    const [from, to] = pickUnits(fromAlias, toAlias);
+    return { amount: parseQuantity(quantity), from, to, ingredient: (fromIngredient || toIngredient)?.trim() };
+  }
+
+  const direct = text.match(DIRECT_PATTERN);
+  if (direct) {
+    const [, sign, quantity, fromAlias, ingredient, toAlias] = direct;
+    const [from, to] = pickUnits(fromAlias, toAlias);
+    const amount = parseQuantity(quantity);
+    return { amount: sign ? -amount : amount, from, to, ingredient: ingredient?.trim() };
+  }
+
+  return null;
+};
+
+// Longest known ingredient mentioned, so "brown sugar" beats "sugar"
+const findIngredient = (text: string): string | undefined => {
+  return Object.keys(INGREDIENT_DENSITIES)
+    .filter(name => new RegExp(`\\b${escapeRegExp(name)}s?\\b`).test(text))
+    .sort((a, b) => b.length - a.length)[0];
+};
+
+const toBase = (value: number, definition: UnitDefinition) => (value + (definition.offset ?? 0)) * definition.factor;
+const fromBase = (value: number, definition: UnitDefinition) => value / definition.factor - (definition.offset ?? 0);
+
+export const convertUnits = (request: ConversionRequest): ConversionResult => {
+  const { amount, from, to, ingredient } = request;
+
+  if (from.dimension === to.dimension) {
+    return { ok: true, request, value: fromBase(toBase(amount, from), to), approximate: false };
+  }
+
+  const isCooking = [from.dimension, to.dimension].sort().join() === 'mass,volume';
+  if (!isCooking) {
+    return { ok: false, message: `I can't convert ${from.plural} to ${to.plural} - they measure different things.` };
+  }
+
+  if (!ingredient) {
+    return {
+      ok: false,
+      message: `Converting ${from.plural} to ${to.plural} depends on the ingredient. Try something like "how many grams in a cup of flour".`,
+    };
+  }
+
+  const knownIngredient = findIngredient(ingredient);
+  if (!knownIngredient) {
+    const examples = ['flour', 'sugar', 'butter', 'milk', 'rice', 'honey'].join(', ');
+    return { ok: false, message: `I don't know how much ${ingredient} weighs per cup yet. I know ${examples} and a few more.` };
+  }
+
+  const gramsPerMl = INGREDIENT_DENSITIES[knownIngredient] / 236.5882365;
+  const baseValue = from.dimension === 'volume'
+    ? toBase(amount, from) * gramsPerMl
+    : toBase(amount, from) / gramsPerMl;
+  return { ok: true, request, value: fromBase(baseValue, to), approximate: true, ingredient };
+};
+
+// Four significant figures, whole numbers once the value is large
+const roundConversion = (value: number): number => {
+  if (Math.abs(value) >= 1000) return Math.round(value);
+  return Number(value.toPrecision(4));
+};
+
+const formatAmount = (value: number): string => value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+const unitName = (definition: UnitDefinition, value: number) => (Math.abs(value) === 1 ? definition.singular : definition.plural);
+
+export const formatConversion = (result: ConversionResult, { isVoiceMode }: { isVoiceMode?: boolean } = {}): string => {
+  if (result.ok === false) return result.message;
+
+  const { request, approximate, ingredient } = result;
+  const value = roundConversion(result.value);
+  const formatNumber = isVoiceMode ? formatNumberForSpeech : formatAmount;
+  const source = `${formatNumber(request.amount)} ${unitName(request.from, request.amount)}${ingredient ? ` of ${ingredient}` : ''}`;
+  const target = `${formatNumber(value)} ${unitName(request.to, value)}`;
+
+  if (isVoiceMode) {
+    return `${source} is ${approximate ? 'about ' : ''}${target}.`;
+  }
+  return `${source} ${approximate ? '≈' : '='} ${target}`;
+};
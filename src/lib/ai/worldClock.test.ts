@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { describeConversion, parseClockTime, parseWorldClockRequest, resolvePlace } from './worldClock';
+
+const place = (name: string) => {
+  const resolved = resolvePlace(name);
+  if (!resolved) throw new Error(`unknown place ${name}`);
+  return resolved;
+};
+
+describe('parseWorldClockRequest', () => {
+  it.each([
+    ['what time is it in Tokyo', { kind: 'current', place: { name: 'Tokyo', timeZone: 'Asia/Tokyo' }, query: 'tokyo' }],
+    ['convert 3pm London to Pacific time', {
+      kind: 'convert',
+      time: { hour: 15, minute: 0 },
+      from: { name: 'London', timeZone: 'Europe/London' },
+      to: { name: 'Pacific time', timeZone: 'America/Los_Angeles' },
+    }],
+    ['3:30 p.m. in nyc to london', {
+      kind: 'convert',
+      time: { hour: 15, minute: 30 },
+      from: { name: 'New York', timeZone: 'America/New_York' },
+      to: { name: 'London', timeZone: 'Europe/London' },
+    }],
+    ['show my world clock', { kind: 'favorites' }],
+    ['add Tokyo to my favorite cities', { kind: 'addFavorite', place: { name: 'Tokyo', timeZone: 'Asia/Tokyo' }, query: 'tokyo' }],
+    ['remove Paris from my favorites', { kind: 'removeFavorite', query: 'paris' }],
+  ])('%s', (input, request) => {
+    expect(parseWorldClockRequest(input)).toEqual(request);
+  });
+
+  it('converts to your own time when no target is named', () => {
+    expect(parseWorldClockRequest('when is 9am New York for me')).toMatchObject({
+      kind: 'convert',
+      from: { name: 'New York' },
+      to: { name: 'your time' },
+    });
+  });
+
+  it('keeps the query for places it does not know', () => {
+    expect(parseWorldClockRequest('what time is it in Atlantis')).toEqual({ kind: 'current', place: null, query: 'atlantis' });
+  });
+
+  it.each(['what is the time', 'tell me a joke'])('leaves %s to the clock skill', input => {
+    expect(parseWorldClockRequest(input)).toBeNull();
+  });
+});
+
+describe('parseClockTime', () => {
+  it.each([
+    ['noon', { hour: 12, minute: 0 }],
+    ['3pm', { hour: 15, minute: 0 }],
+    ['15:00', { hour: 15, minute: 0 }],
+    ["9 o'clock", { hour: 9, minute: 0 }],
+    ['13pm', null],
+    ['25:00', null],
+  ])('%s', (input, time) => {
+    expect(parseClockTime(input)).toEqual(time);
+  });
+});
+
+describe('describeConversion', () => {
+  it.each([
+    // Both sides in standard time, both in daylight time, then only the US in daylight time
+    [new Date(Date.UTC(2024, 0, 10, 12)), '3:00 PM in London is 7:00 AM in Pacific time.'],
+    [new Date(Date.UTC(2024, 6, 10, 12)), '3:00 PM in London is 7:00 AM in Pacific time.'],
+    [new Date(Date.UTC(2024, 2, 20, 12)), '3:00 PM in London is 8:00 AM in Pacific time.'],
+  ])('follows daylight saving on %s', (now, answer) => {
+    expect(describeConversion({ hour: 15, minute: 0 }, place('london'), place('pacific'), now)).toBe(answer);
+  });
+
+  it('names the day when the conversion crosses midnight', () => {
+    expect(describeConversion({ hour: 22, minute: 0 }, place('new york'), place('tokyo'), new Date(Date.UTC(2024, 0, 10, 12))))
+      .toBe('10:00 PM in New York is 12:00 PM (the next day, Thursday) in Tokyo.');
+  });
+});
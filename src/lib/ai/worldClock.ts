@@ -0,0 +1,374 @@
+/**
+ * World clock and time-zone conversion.
+ * Bundles a city-to-IANA-zone table and converts times through Intl.DateTimeFormat,
+ * so daylight saving is always handled by the platform's own zone data.
+ */
+
+export interface Place {
+  // Display name, e.g. "Tokyo" or "Pacific time"
+  name: string;
+  timeZone: string;
+}
+
+export interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+export type WorldClockRequest =
+  | { kind: 'current'; place: Place | null; query: string }
+  | { kind: 'convert'; time: ClockTime; from: Place; to: Place }
+  | { kind: 'favorites' }
+  | { kind: 'addFavorite'; place: Place | null; query: string }
+  | { kind: 'removeFavorite'; query: string };
+
+// [display name, IANA zone, extra aliases]
+const PLACES: Array<[string, string, string[]?]> = [
+  // North America
+  ['New York', 'America/New_York', ['nyc', 'new york city', 'manhattan', 'brooklyn']],
+  ['Boston', 'America/New_York'],
+  ['Washington', 'America/New_York', ['washington dc', 'dc']],
+  ['Philadelphia', 'America/New_York'],
+  ['Miami', 'America/New_York'],
+  ['Atlanta', 'America/New_York'],
+  ['Detroit', 'America/Detroit'],
+  ['Toronto', 'America/Toronto'],
+  ['Montreal', 'America/Toronto'],
+  ['Halifax', 'America/Halifax'],
+  ["St. John's", 'America/St_Johns', ['st johns', 'newfoundland']],
+  ['Chicago', 'America/Chicago'],
+  ['Houston', 'America/Chicago'],
+  ['Dallas', 'America/Chicago'],
+  ['Austin', 'America/Chicago'],
+  ['Minneapolis', 'America/Chicago'],
+  ['New Orleans', 'America/Chicago'],
+  ['Mexico City', 'America/Mexico_City', ['mexico']],
+  ['Denver', 'America/Denver'],
+  ['Salt Lake City', 'America/Denver'],
+  ['Calgary', 'America/Edmonton'],
+  ['Phoenix', 'America/Phoenix', ['arizona']],
+  ['Los Angeles', 'America/Los_Angeles', ['la', 'l.a.', 'hollywood']],
+  ['San Francisco', 'America/Los_Angeles', ['sf', 'silicon valley', 'bay area']],
+  ['San Diego', 'America/Los_Angeles'],
+  ['Las Vegas', 'America/Los_Angeles', ['vegas']],
+  ['Seattle', 'America/Los_Angeles'],
+  ['Portland', 'America/Los_Angeles'],
+  ['Vancouver', 'America/Vancouver'],
+  ['Anchorage', 'America/Anchorage', ['alaska']],
+  ['Honolulu', 'Pacific/Honolulu', ['hawaii']],
+
+  // Central and South America
+  ['Havana', 'America/Havana', ['cuba']],
+  ['Bogotá', 'America/Bogota', ['bogota', 'colombia']],
+  ['Lima', 'America/Lima', ['peru']],
+  ['Caracas', 'America/Caracas', ['venezuela']],
+  ['Santiago', 'America/Santiago', ['chile']],
+  ['Buenos Aires', 'America/Argentina/Buenos_Aires', ['argentina']],
+  ['São Paulo', 'America/Sao_Paulo', ['sao paulo', 'brazil']],
+  ['Rio de Janeiro', 'America/Sao_Paulo', ['rio']],
+
+  // Europe
+  ['London', 'Europe/London', ['uk', 'united kingdom', 'england', 'britain']],
+  ['Edinburgh', 'Europe/London', ['scotland']],
+  ['Manchester', 'Europe/London'],
+  ['Dublin', 'Europe/Dublin', ['ireland']],
+  ['Reykjavik', 'Atlantic/Reykjavik', ['iceland']],
+  ['Lisbon', 'Europe/Lisbon', ['portugal']],
+  ['Madrid', 'Europe/Madrid', ['spain']],
+  ['Barcelona', 'Europe/Madrid'],
+  ['Paris', 'Europe/Paris', ['france']],
+  ['Brussels', 'Europe/Brussels', ['belgium']],
+  ['Amsterdam', 'Europe/Amsterdam', ['netherlands', 'holland']],
+  ['Berlin', 'Europe/Berlin', ['germany']],
+  ['Munich', 'Europe/Berlin'],
+  ['Frankfurt', 'Europe/Berlin'],
+  ['Zurich', 'Europe/Zurich', ['switzerland']],
+  ['Geneva', 'Europe/Zurich'],
+  ['Rome', 'Europe/Rome', ['italy']],
+  ['Milan', 'Europe/Rome'],
+  ['Vienna', 'Europe/Vienna', ['austria']],
+  ['Prague', 'Europe/Prague', ['czechia', 'czech republic']],
+  ['Warsaw', 'Europe/Warsaw', ['poland']],
+  ['Budapest', 'Europe/Budapest', ['hungary']],
+  ['Copenhagen', 'Europe/Copenhagen', ['denmark']],
+  ['Oslo', 'Europe/Oslo', ['norway']],
+  ['Stockholm', 'Europe/Stockholm', ['sweden']],
+  ['Helsinki', 'Europe/Helsinki', ['finland']],
+  ['Athens', 'Europe/Athens', ['greece']],
+  ['Bucharest', 'Europe/Bucharest', ['romania']],
+  ['Kyiv', 'Europe/Kiev', ['kiev', 'ukraine']],
+  ['Istanbul', 'Europe/Istanbul', ['turkey']],
+  ['Moscow', 'Europe/Moscow'],
+
+  // Africa and the Middle East
+  ['Casablanca', 'Africa/Casablanca', ['morocco']],
+  ['Lagos', 'Africa/Lagos', ['nigeria']],
+  ['Accra', 'Africa/Accra', ['ghana']],
+  ['Cairo', 'Africa/Cairo', ['egypt']],
+  ['Nairobi', 'Africa/Nairobi', ['kenya']],
+  ['Addis Ababa', 'Africa/Addis_Ababa', ['ethiopia']],
+  ['Johannesburg', 'Africa/Johannesburg', ['south africa']],
+  ['Cape Town', 'Africa/Johannesburg'],
+  ['Jerusalem', 'Asia/Jerusalem', ['israel']],
+  ['Tel Aviv', 'Asia/Jerusalem'],
+  ['Riyadh', 'Asia/Riyadh', ['saudi arabia']],
+  ['Doha', 'Asia/Qatar', ['qatar']],
+  ['Dubai', 'Asia/Dubai', ['uae', 'united arab emirates']],
+  ['Abu Dhabi', 'Asia/Dubai'],
+  ['Tehran', 'Asia/Tehran', ['iran']],
+
+  // Asia
+  ['Karachi', 'Asia/Karachi', ['pakistan']],
+  ['Mumbai', 'Asia/Kolkata', ['bombay', 'india']],
+  ['New Delhi', 'Asia/Kolkata', ['delhi']],
+  ['Bengaluru', 'Asia/Kolkata', ['bangalore']],
+  ['Chennai', 'Asia/Kolkata'],
+  ['Hyderabad', 'Asia/Kolkata'],
+  ['Kolkata', 'Asia/Kolkata', ['calcutta']],
+  ['Kathmandu', 'Asia/Kathmandu', ['nepal']],
+  ['Dhaka', 'Asia/Dhaka', ['bangladesh']],
+  ['Bangkok', 'Asia/Bangkok', ['thailand']],
+  ['Hanoi', 'Asia/Ho_Chi_Minh'],
+  ['Ho Chi Minh City', 'Asia/Ho_Chi_Minh', ['saigon', 'vietnam']],
+  ['Jakarta', 'Asia/Jakarta', ['indonesia']],
+  ['Kuala Lumpur', 'Asia/Kuala_Lumpur', ['malaysia']],
+  ['Singapore', 'Asia/Singapore'],
+  ['Manila', 'Asia/Manila', ['philippines']],
+  ['Hong Kong', 'Asia/Hong_Kong'],
+  ['Shanghai', 'Asia/Shanghai', ['china']],
+  ['Beijing', 'Asia/Shanghai'],
+  ['Shenzhen', 'Asia/Shanghai'],
+  ['Taipei', 'Asia/Taipei', ['taiwan']],
+  ['Seoul', 'Asia/Seoul', ['south korea', 'korea']],
+  ['Tokyo', 'Asia/Tokyo', ['japan']],
+  ['Osaka', 'Asia/Tokyo'],
+
+  // Oceania
+  ['Perth', 'Australia/Perth'],
+  ['Adelaide', 'Australia/Adelaide'],
+  ['Brisbane', 'Australia/Brisbane'],
+  ['Sydney', 'Australia/Sydney'],
+  ['Melbourne', 'Australia/Melbourne'],
+  ['Auckland', 'Pacific/Auckland', ['new zealand']],
+  ['Wellington', 'Pacific/Auckland'],
+
+  // Zone names people say out loud
+  ['Pacific time', 'America/Los_Angeles', ['pacific', 'pt', 'pst', 'pdt', 'west coast']],
+  ['Mountain time', 'America/Denver', ['mountain', 'mt', 'mst', 'mdt']],
+  ['Central time', 'America/Chicago', ['central', 'ct', 'cst', 'cdt']],
+  ['Eastern time', 'America/New_York', ['eastern', 'et', 'est', 'edt', 'east coast']],
+  ['UTC', 'UTC', ['gmt', 'zulu', 'universal time', 'coordinated universal time', 'greenwich mean time']],
+  ['Central European time', 'Europe/Paris', ['cet', 'cest']],
+  ['British time', 'Europe/London', ['bst']],
+  ['India time', 'Asia/Kolkata', ['ist', 'indian standard time']],
+  ['Japan time', 'Asia/Tokyo', ['jst']],
+  ['Australian Eastern time', 'Australia/Sydney', ['aest', 'aedt']],
+];
+
+const PLACES_BY_ALIAS = new Map<string, Place>();
+for (const [name, timeZone, aliases = []] of PLACES) {
+  for (const alias of [name, ...aliases]) {
+    const key = alias.toLowerCase();
+    if (!PLACES_BY_ALIAS.has(key)) PLACES_BY_ALIAS.set(key, { name, timeZone });
+  }
+}
+
+// Ways of saying "wherever I am"
+const LOCAL_ALIASES = /^(?:me|my time|my time zone|local|local time|here|mine|where i am|my place)$/;
+
+export const getLocalTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const getLocalPlace = (): Place => ({ name: 'your time', timeZone: getLocalTimeZone() });
+
+// Accept any valid IANA name too ("europe/berlin")
+const asTimeZone = (text: string): string | null => {
+  if (!text.includes('/') && text !== 'utc') return null;
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: text }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+};
+
+// Find a city, country, zone abbreviation or IANA zone
+export const resolvePlace = (input: string): Place | null => {
+  const text = input.toLowerCase().trim()
+    .replace(/^(?:the\s+)?(?:city\s+of\s+)?/, '')
+    .replace(/[?.!,]+$/, '')
+    .trim();
+  if (LOCAL_ALIASES.test(text)) return getLocalPlace();
+  const place = PLACES_BY_ALIAS.get(text) ?? PLACES_BY_ALIAS.get(text.replace(/\s+(?:time|time zone|timezone)$/, ''));
+  if (place) return place;
+
+  const timeZone = asTimeZone(text);
+  return timeZone ? { name: timeZone.split('/').pop()!.replace(/_/g, ' '), timeZone } : null;
+};
+
+// All place names, for suggestions in the UI
+export const getKnownPlaceNames = (): string[] => PLACES.map(([name]) => name);
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return { year: value('year'), month: value('month') - 1, day: value('day'), hour: value('hour') % 24, minute: value('minute') };
+};
+
+// Minutes the zone is ahead of UTC at a given instant
+const getOffsetMinutes = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month, day, hour, minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+// The instant at which a zone's wall clock shows the given time
+const zonedTimeToInstant = ({ year, month, day, hour, minute }: ZonedParts, timeZone: string): Date => {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  const firstGuess = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  // Re-check in case the first guess landed on the other side of a DST change
+  const instant = new Date(wallClock - getOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+  const check = getZonedParts(instant, timeZone);
+  // Times skipped by a spring-forward change resolve to just after it
+  return check.hour === hour && check.minute === minute ? instant : new Date(firstGuess);
+};
+
+const dayIndex = ({ year, month, day }: ZonedParts): number => Date.UTC(year, month, day) / 86400000;
+
+const formatTime = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat(undefined, { timeZone, hour: 'numeric', minute: '2-digit' }).format(date);
+
+const formatWeekday = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat(undefined, { timeZone, weekday: 'long' }).format(date);
+
+const formatHours = (minutes: number): string => {
+  const hours = Math.abs(minutes) / 60;
+  const text = Number.isInteger(hours) ? String(hours) : hours.toFixed(1).replace(/\.0$/, '');
+  return `${text} hour${hours === 1 ? '' : 's'}`;
+};
+
+// "13 hours ahead of you", "the same time as you"
+const describeOffset = (date: Date, timeZone: string): string => {
+  const difference = getOffsetMinutes(date, timeZone) - getOffsetMinutes(date, getLocalTimeZone());
+  if (difference === 0) return 'the same time as you';
+  return `${formatHours(difference)} ${difference > 0 ? 'ahead of' : 'behind'} you`;
+};
+
+// Calendar days a zone is ahead of (or behind) another at the same instant
+const dayDifference = (date: Date, timeZone: string, relativeTo: string): number =>
+  dayIndex(getZonedParts(date, timeZone)) - dayIndex(getZonedParts(date, relativeTo));
+
+// " (the next day, Tuesday)" when the place is already on another day
+const describeDay = (date: Date, timeZone: string, relativeTo: string): string => {
+  const difference = dayDifference(date, timeZone, relativeTo);
+  if (difference === 0) return '';
+  return ` (${difference > 0 ? 'the next day' : 'the day before'}, ${formatWeekday(date, timeZone)})`;
+};
+
+export const describeCurrentTime = (place: Place, now: Date = new Date()): string => {
+  const day = dayDifference(now, place.timeZone, getLocalTimeZone()) === 0 ? '' : ` on ${formatWeekday(now, place.timeZone)}`;
+  return `It's ${formatTime(now, place.timeZone)}${day} in ${place.name} - ${describeOffset(now, place.timeZone)}.`;
+};
+
+const describePlace = (place: Place): string => (place.name === 'your time' ? 'your time' : `in ${place.name}`);
+
+// Convert a wall-clock time today in one place to another place
+export const describeConversion = (time: ClockTime, from: Place, to: Place, now: Date = new Date()): string => {
+  const today = getZonedParts(now, from.timeZone);
+  const instant = zonedTimeToInstant({ ...today, hour: time.hour, minute: time.minute }, from.timeZone);
+  const source = `${formatTime(instant, from.timeZone)} ${describePlace(from)}`;
+  const target = `${formatTime(instant, to.timeZone)}${describeDay(instant, to.timeZone, from.timeZone)} ${describePlace(to)}`;
+  return `${source.charAt(0).toUpperCase()}${source.slice(1)} is ${target}.`;
+};
+
+export const describeWorldClock = (places: Place[], { isVoiceMode }: { isVoiceMode?: boolean } = {}, now: Date = new Date()): string => {
+  if (isVoiceMode) {
+    return places.map(place => `In ${place.name} it's ${formatTime(now, place.timeZone)}`).join(', ') + '.';
+  }
+  const localZone = getLocalTimeZone();
+  return places
+    .map(place => `${place.name}: ${formatTime(now, place.timeZone)}${describeDay(now, place.timeZone, localZone)}`)
+    .join('\n');
+};
+
+// "3pm", "3:30 p.m.", "15:00", "noon", "9 o'clock"
+const TIME_PATTERN = String.raw`(noon|midday|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}|\d{1,2}\s+o'clock)`;
+
+export const parseClockTime = (text: string): ClockTime | null => {
+  if (text === 'noon' || text === 'midday') return { hour: 12, minute: 0 };
+  if (text === 'midnight') return { hour: 0, minute: 0 };
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|o'clock)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (match[3] === 'am' || match[3] === 'pm') {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+};
+
+const FAVORITES = String.raw`(?:my\s+)?(?:favou?rite\s+(?:cities|city|places?|time\s*zones?)|favou?rites|world\s*clock|cities)`;
+
+const ADD_FAVORITE_PATTERN = new RegExp(String.raw`^(?:add|save|put)\s+(.+?)\s+(?:to|in|on|as)\s+(?:a\s+)?${FAVORITES}$`);
+const REMOVE_FAVORITE_PATTERN = new RegExp(String.raw`^(?:remove|delete|drop|take)\s+(.+?)\s+(?:from|off|out\s+of)\s+${FAVORITES}$`);
+const SHOW_FAVORITES_PATTERN = new RegExp(String.raw`^(?:(?:show|open|check|read)\s+(?:me\s+)?(?:my\s+)?world\s*clock|(?:my\s+)?world\s*clock|what\s+time\s+is\s+it\s+(?:in|for)\s+(?:all\s+)?(?:of\s+)?${FAVORITES}|(?:what\s+are\s+)?(?:the\s+)?times?\s+(?:in|for)\s+${FAVORITES})$`);
+const CURRENT_TIME_PATTERN = /^(?:what\s+(?:is\s+)?(?:the\s+)?(?:current\s+|local\s+)?time\s+(?:is\s+it\s+|is\s+)?(?:right\s+now\s+|now\s+)?(?:in|at)|(?:current\s+|local\s+)?time\s+(?:in|at))\s+(.+?)(?:\s+(?:right\s+now|now|today))?$/;
+const CONVERT_PATTERN = new RegExp(String.raw`^(?:convert\s+|(?:what|when)(?:\s+time)?\s+is\s+)?${TIME_PATTERN}\s+(?:in\s+)?(.+?)(?:\s+(?:in|to|into|for)\s+(.+?))?(?:\s+time)?$`);
+
+const normalize = (input: string): string =>
+  input
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/\b([ap])\.m\.?/g, '$1m')
+    .replace(/\bwhat's\b/g, 'what is')
+    .replace(/[?!]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/[.,]$/, '')
+    .trim();
+
+export const parseWorldClockRequest = (input: string): WorldClockRequest | null => {
+  const text = normalize(input);
+
+  if (SHOW_FAVORITES_PATTERN.test(text)) return { kind: 'favorites' };
+
+  const add = text.match(ADD_FAVORITE_PATTERN);
+  if (add) return { kind: 'addFavorite', place: resolvePlace(add[1]), query: add[1] };
+
+  const remove = text.match(REMOVE_FAVORITE_PATTERN);
+  if (remove) return { kind: 'removeFavorite', query: remove[1] };
+
+  const current = text.match(CURRENT_TIME_PATTERN);
+  if (current) return { kind: 'current', place: resolvePlace(current[1]), query: current[1] };
+
+  const convert = text.match(CONVERT_PATTERN);
+  if (convert) {
+    const time = parseClockTime(convert[1]);
+    const from = resolvePlace(convert[2]);
+    const to = convert[3] ? resolvePlace(convert[3]) : getLocalPlace();
+    if (time && from && to) return { kind: 'convert', time, from, to };
+  }
+
+  return null;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_APPS, findApp, type AppEntry } from './apps';
+
+const lookup = (spoken: string, apps: AppEntry[] = BUILT_IN_APPS) => {
+  const found = findApp(spoken, apps);
+  return found.kind === 'none' ? ['none'] : [found.kind, found.app.id];
+};
+
+describe('findApp', () => {
+  it.each([
+    ['WhatsApp', 'whatsapp'],
+    // Spacing, "the" and a trailing "app" don't matter
+    ['whats app', 'whatsapp'],
+    ['the whatsapp app', 'whatsapp'],
+    ['my camera', 'camera'],
+    ['google maps app', 'maps'],
+    ['open up spotify', 'spotify'],
+    ['twitter', 'x'],
+    // Typos close enough to just open
+    ['spotfy', 'spotify'],
+    ['whatsap', 'whatsapp'],
+    ['youtub', 'youtube'],
+    ['insta', 'instagram'],
+  ])('opens %s', (spoken, id) => {
+    expect(lookup(spoken)).toEqual(['exact', id]);
+  });
+
+  it('asks about a near miss instead of opening it', () => {
+    expect(lookup('gmial')).toEqual(['suggestion', 'gmail']);
+  });
+
+  it.each(['netflix', '', 'the app'])('finds nothing for %j', spoken => {
+    expect(lookup(spoken)).toEqual(['none']);
+  });
+
+  it('finds apps the user added', () => {
+    const bank: AppEntry = { id: 'bank', name: 'My Bank', aliases: ['bank'], packageName: 'com.example.bank', custom: true };
+    expect(lookup('bank', [...BUILT_IN_APPS, bank])).toEqual(['exact', 'bank']);
+    expect(lookup('bank')).toEqual(['none']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Apps the assistant can open. Built-ins ship here; users add their own from
+ * settings (see useAppRegistry). Lookup is fuzzy - close misses become a
+ * "did you mean ...?" instead of a dead end.
+ */
+
+import { editDistance } from '@/lib/ai/text';
+
+export interface AppEntry {
+  id: string;
+  // Shown and spoken back: "WhatsApp"
+  name: string;
+  // What people say: "whatsapp", "whats app"
+  aliases: string[];
+  // Android package, opened with an intent when there's no URI
+  packageName?: string;
+  // URI scheme or intent URI, tried first on native: "whatsapp://"
+  uri?: string;
+  // Where the web build goes instead
+  webUrl?: string;
+  // Added by the user rather than shipped with the app
+  custom?: boolean;
+}
+
+export type AppLookup =
+  | { kind: 'exact'; app: AppEntry }
+  // Close enough to ask about, not close enough to just open
+  | { kind: 'suggestion'; app: AppEntry }
+  | { kind: 'none' };
+
+export const BUILT_IN_APPS: AppEntry[] = [
+  { id: 'spotify', name: 'Spotify', aliases: ['spotify'], packageName: 'com.spotify.music', uri: 'spotify://', webUrl: 'https://open.spotify.com' },
+  { id: 'youtube', name: 'YouTube', aliases: ['youtube', 'you tube'], packageName: 'com.google.android.youtube', uri: 'vnd.youtube://', webUrl: 'https://youtube.com' },
+  { id: 'youtube-music', name: 'YouTube Music', aliases: ['youtube music', 'yt music'], packageName: 'com.google.android.apps.youtube.music', webUrl: 'https://music.youtube.com' },
+  { id: 'apple-music', name: 'Apple Music', aliases: ['apple music'], packageName: 'com.apple.android.music', webUrl: 'https://music.apple.com' },
+  { id: 'soundcloud', name: 'SoundCloud', aliases: ['soundcloud', 'sound cloud'], packageName: 'com.soundcloud.android', webUrl: 'https://soundcloud.com' },
+  { id: 'whatsapp', name: 'WhatsApp', aliases: ['whatsapp', 'whats app'], packageName: 'com.whatsapp', uri: 'whatsapp://', webUrl: 'https://web.whatsapp.com' },
+  { id: 'instagram', name: 'Instagram', aliases: ['instagram', 'insta'], packageName: 'com.instagram.android', uri: 'instagram://', webUrl: 'https://instagram.com' },
+  { id: 'x', name: 'X', aliases: ['x', 'twitter'], packageName: 'com.twitter.android', uri: 'twitter://', webUrl: 'https://x.com' },
+  { id: 'facebook', name: 'Facebook', aliases: ['facebook'], packageName: 'com.facebook.katana', uri: 'fb://', webUrl: 'https://facebook.com' },
+  { id: 'chrome', name: 'Chrome', aliases: ['chrome', 'browser'], packageName: 'com.android.chrome', uri: 'googlechrome://', webUrl: 'https://google.com' },
+  { id: 'maps', name: 'Google Maps', aliases: ['maps', 'google maps'], packageName: 'com.google.android.apps.maps', uri: 'geo:0,0', webUrl: 'https://maps.google.com' },
+  { id: 'gmail', name: 'Gmail', aliases: ['gmail', 'email', 'mail'], packageName: 'com.google.android.gm', webUrl: 'https://mail.google.com' },
+  { id: 'calendar', name: 'Calendar', aliases: ['calendar'], packageName: 'com.google.android.calendar', uri: 'content://com.android.calendar/time/', webUrl: 'https://calendar.google.com' },
+  { id: 'camera', name: 'Camera', aliases: ['camera'], uri: 'intent:#Intent;action=android.media.action.IMAGE_CAPTURE;end' },
+  { id: 'clock', name: 'Clock', aliases: ['clock', 'alarms'], uri: 'intent:#Intent;action=android.intent.action.SHOW_ALARMS;end' },
+  { id: 'messages', name: 'Messages', aliases: ['messages', 'sms', 'texts'], uri: 'sms:' },
+  { id: 'phone', name: 'Phone', aliases: ['phone', 'dialer'], uri: 'tel:' },
+];
+
+// Anything this similar is a typo; anything less but above SUGGEST is worth asking about
+const EXACT_SIMILARITY = 0.85;
+const SUGGEST_SIMILARITY = 0.6;
+const MIN_PREFIX_LENGTH = 4;
+
+// "What's App" and "whatsapp" compare equal
+const squash = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const similarity = (a: string, b: string): number =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+const containsWord = (text: string, word: string): boolean =>
+  new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+
+export const findApp = (spoken: string, apps: AppEntry[]): AppLookup => {
+  const text = spoken.toLowerCase().replace(/^(?:the|my)\s+/, '').replace(/\s+app$/, '').trim();
+  const target = squash(text);
+  if (!target) return { kind: 'none' };
+  // "whats app" loses its "app" above - put it back for names that end in one
+  const withApp = `${target}app`;
+
+  let best: { app: AppEntry; score: number } | null = null;
+  for (const app of apps) {
+    for (const alias of [app.name, ...app.aliases]) {
+      const key = squash(alias);
+      if (!key) continue;
+      if (key === target || key === withApp) return { kind: 'exact', app };
+      // "google maps app", "open up spotify" - the alias as a whole word
+      let score = containsWord(text, alias.toLowerCase()) ? EXACT_SIMILARITY : similarity(key, target);
+      // "insta", "whats" - the start of a longer name
+      if (target.length >= MIN_PREFIX_LENGTH && key.startsWith(target)) score = Math.max(score, SUGGEST_SIMILARITY);
+      if (!best || score > best.score) best = { app, score };
+    }
+  }
+
+  if (!best || best.score < SUGGEST_SIMILARITY) return { kind: 'none' };
+  return { kind: best.score >= EXACT_SIMILARITY ? 'exact' : 'suggestion', app: best.app };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composeUri,
+  describeComposeQuestion,
+  parseCallDraft,
+  parseEmailDraft,
+  parseMessageDraft,
+  toAddress,
+  type ComposeDraft,
+} from './compose';
+
+describe('parseMessageDraft', () => {
+  it.each([
+    ["Alex saying I'm running late", { recipient: 'Alex', body: "I'm running late" }],
+    // No delimiter - a name, or a name and a capitalised surname
+    ["Alex I'm running late", { recipient: 'Alex', body: "I'm running late" }],
+    ["Alex Smith I'm running late", { recipient: 'Alex Smith', body: "I'm running late" }],
+    ['my mom: on my way', { recipient: 'my mom', body: 'on my way' }],
+    ["555 123 4567 that I'm outside", { recipient: '555 123 4567', address: '5551234567', body: "I'm outside" }],
+  ])('%s', (text, draft) => {
+    expect(parseMessageDraft(text)).toEqual(draft);
+  });
+
+  it.each(['it', 'back', ''])('has no recipient in %j', text => {
+    expect(parseMessageDraft(text)).toBeNull();
+  });
+});
+
+describe('parseEmailDraft', () => {
+  it.each([
+    ['sam at example dot com saying see you there', { recipient: 'sam at example dot com', address: 'sam@example.com', body: 'see you there' }],
+    ['Sam about the meeting saying see you at 3', { recipient: 'Sam', subject: 'the meeting', body: 'see you at 3' }],
+    ['Sam', { recipient: 'Sam' }],
+    ['it', null],
+  ])('%s', (text, draft) => {
+    expect(parseEmailDraft(text)).toEqual(draft);
+  });
+});
+
+describe('parseCallDraft', () => {
+  it.each([
+    // A call has no body - the name ends where the message would start
+    ["my mom and tell her I'm late", { recipient: 'my mom' }],
+    ['Sam now', { recipient: 'Sam' }],
+    ['the dentist please', { recipient: 'the dentist' }],
+    ['555-123-4567', { recipient: '555-123-4567', address: '5551234567' }],
+    ['me', null],
+  ])('%s', (text, draft) => {
+    expect(parseCallDraft(text)).toEqual(draft);
+  });
+});
+
+describe('toAddress', () => {
+  it.each([
+    ['+1 555 123 4567', '+15551234567'],
+    ['Sam@Example.com', 'sam@example.com'],
+    ['sam at mail dot example dot com', 'sam@mail.example.com'],
+    ['Alex', undefined],
+  ])('%s', (recipient, address) => {
+    expect(toAddress(recipient)).toBe(address);
+  });
+});
+
+describe('confirmation', () => {
+  const message: ComposeDraft = { recipient: 'Alex', address: '5551234', body: "I'm late & sorry" };
+  const email: ComposeDraft = { recipient: 'Sam', address: 'sam@example.com', subject: 'Lunch', body: 'See you at 1' };
+
+  it("prefills the phone's own apps", () => {
+    expect(composeUri('message', message)).toBe("sms:5551234?body=I'm%20late%20%26%20sorry");
+    expect(composeUri('call', message)).toBe('tel:5551234');
+    expect(composeUri('email', email)).toBe('mailto:sam@example.com?subject=Lunch&body=See%20you%20at%201');
+    // Names without an address leave the app to pick the contact
+    expect(composeUri('message', { recipient: 'Alex' })).toBe('sms:');
+    expect(composeUri('email', { recipient: 'Sam' })).toBe('mailto:');
+  });
+
+  it('reads the draft back before sending', () => {
+    expect(describeComposeQuestion('message', message)).toBe(`Send "I'm late & sorry" to Alex?`);
+    expect(describeComposeQuestion('message', { recipient: 'Alex' })).toBe('Start a message to Alex?');
+    expect(describeComposeQuestion('call', message)).toBe('Call Alex?');
+    expect(describeComposeQuestion('email', email)).toBe('Email Sam about "Lunch" saying "See you at 1"?');
+  });
+});
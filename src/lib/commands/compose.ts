@@ -0,0 +1,132 @@
+/**
+ * Outbound messages, calls and emails - who to, and what to say. Nothing is
+ * sent from here: drafts become prefilled sms:, tel: and mailto: links, and
+ * only after the user confirms the read-back.
+ */
+
+export type ComposeChannel = 'message' | 'call' | 'email';
+
+export interface ComposeDraft {
+  // As said: "Alex", "the dentist", "555 1234"
+  recipient: string;
+  // A number or email address, when one was said rather than a name
+  address?: string;
+  body?: string;
+  subject?: string;
+}
+
+// Where the recipient ends and the message starts, when it's said out loud
+const BODY_DELIMITER = /\s+(?:saying|that\s+says|to\s+say|and\s+say|and\s+tell\s+(?:him|her|them)|telling\s+(?:him|her|them)|that)\s+|\s*:\s*/i;
+const SUBJECT_DELIMITER = /\s+(?:about|regarding)\s+/i;
+// "my mom", "the dentist", "uncle bob" - names that take two words
+const TWO_WORD_PREFIX = /^(?:my|the|our|aunt|auntie|uncle|grandma|grandpa|dr\.?|doctor|mr\.?|mrs\.?|ms\.?)$/i;
+const PHONE_NUMBER = /^\+?\d[\d\s().-]+\d$/;
+const EMAIL_ADDRESS = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// "sam at example dot com"
+const SPOKEN_EMAIL = /^([a-z0-9._-]+)\s+at\s+([a-z0-9-]+(?:\s+dot\s+[a-z0-9-]+)+)$/i;
+
+export const toAddress = (recipient: string): string | undefined => {
+  const text = recipient.trim();
+  if (PHONE_NUMBER.test(text)) return text.replace(/[^\d+]/g, '');
+  if (EMAIL_ADDRESS.test(text)) return text.toLowerCase();
+  const spoken = text.match(SPOKEN_EMAIL);
+  if (spoken) return `${spoken[1]}@${spoken[2].replace(/\s+dot\s+/gi, '.')}`.toLowerCase();
+  return undefined;
+};
+
+// Without a delimiter, take a number, a two-word name, or a name plus a
+// capitalised surname: "Alex Smith I'm running late"
+const splitLeadingRecipient = (text: string): [string, string] => {
+  const number = text.match(/^\+?\d[\d\s().-]+\d/);
+  if (number) return [number[0], text.slice(number[0].length)];
+
+  const words = text.split(/\s+/);
+  let count = TWO_WORD_PREFIX.test(words[0]) ? 2 : 1;
+  if (count === 1 && /^[A-Z][a-z]+$/.test(words[1] ?? '') && !/^I(?:'m|'ll|'d|'ve)?$/.test(words[1])) count = 2;
+  return [words.slice(0, count).join(' '), words.slice(count).join(' ')];
+};
+
+const clean = (text: string): string => text.trim().replace(/^[,\s]+|[,\s]+$/g, '');
+
+// Pronouns, filler and "message received" don't say who to write to or call
+const NOT_RECIPIENTS = /^(?:it|me|this|that|him|her|them|you|us|back|off|out|for|of|on|up|in|a|an|someone|somebody|is|was|are|were|isn't|wasn't|has|had|received|sent|delivered|failed|bounced|later)\b/i;
+
+// "Alex saying I'm running late", "Alex I'm running late"
+export const parseMessageDraft = (text: string): ComposeDraft | null => {
+  const rest = clean(text);
+  if (!rest) return null;
+
+  const delimiter = rest.match(BODY_DELIMITER);
+  const [recipient, body] = delimiter?.index
+    ? [rest.slice(0, delimiter.index), rest.slice(delimiter.index + delimiter[0].length)]
+    : splitLeadingRecipient(rest);
+  if (!clean(recipient) || NOT_RECIPIENTS.test(clean(recipient))) return null;
+  return { recipient: clean(recipient), address: toAddress(recipient), body: clean(body) || undefined };
+};
+
+// "Sam about the meeting", "sam at example dot com saying see you there"
+export const parseEmailDraft = (text: string): ComposeDraft | null => {
+  let rest = clean(text);
+  let body: string | undefined;
+  let subject: string | undefined;
+
+  const bodyAt = rest.match(BODY_DELIMITER);
+  if (bodyAt?.index) {
+    body = clean(rest.slice(bodyAt.index + bodyAt[0].length)) || undefined;
+    rest = rest.slice(0, bodyAt.index);
+  }
+  const subjectAt = rest.match(SUBJECT_DELIMITER);
+  if (subjectAt?.index) {
+    subject = clean(rest.slice(subjectAt.index + subjectAt[0].length)) || undefined;
+    rest = rest.slice(0, subjectAt.index);
+  }
+  const recipient = clean(rest);
+  if (!recipient || NOT_RECIPIENTS.test(recipient)) return null;
+  return { recipient, address: toAddress(recipient), subject, body };
+};
+
+// "my mom and tell her I'm late" - a call has no body, so only the name counts
+const CALL_END = new RegExp(String.raw`${BODY_DELIMITER.source}|\s+and\s+`, 'i');
+
+export const parseCallDraft = (text: string): ComposeDraft | null => {
+  const rest = clean(text);
+  const end = rest.search(CALL_END);
+  const recipient = clean(end > 0 ? rest.slice(0, end) : rest).replace(/\s+(?:now|please|for\s+me)$/i, '');
+  if (!recipient || NOT_RECIPIENTS.test(recipient)) return null;
+  return { recipient, address: toAddress(recipient) };
+};
+
+const encode = encodeURIComponent;
+
+// Prefilled link for the phone's own messaging, dialer or mail app
+export const composeUri = (channel: ComposeChannel, draft: ComposeDraft): string => {
+  const to = draft.address ?? '';
+  switch (channel) {
+    case 'call':
+      return `tel:${to}`;
+    case 'message':
+      return draft.body ? `sms:${to}?body=${encode(draft.body)}` : `sms:${to}`;
+    case 'email': {
+      const params = [
+        draft.subject && `subject=${encode(draft.subject)}`,
+        draft.body && `body=${encode(draft.body)}`,
+      ].filter(Boolean);
+      return `mailto:${to}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+    }
+  }
+};
+
+// The read-back: "Send "I'm running late" to Alex?"
+export const describeComposeQuestion = (channel: ComposeChannel, draft: ComposeDraft): string => {
+  switch (channel) {
+    case 'call':
+      return `Call ${draft.recipient}?`;
+    case 'message':
+      return draft.body ? `Send "${draft.body}" to ${draft.recipient}?` : `Start a message to ${draft.recipient}?`;
+    case 'email': {
+      const about = draft.subject ? ` about "${draft.subject}"` : '';
+      const saying = draft.body ? ` saying "${draft.body}"` : '';
+      return `Email ${draft.recipient}${about}${saying}?`;
+    }
+  }
+};
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { parsePhoneAction } from '@/hooks/usePhoneActions';
+import { checkCommandCorpus } from './corpus';
+
+describe('phone command corpus', () => {
+  it('parses every utterance as listed', () => {
+    expect(checkCommandCorpus(parsePhoneAction)).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * What the phone command grammar must and must not match. Each entry is an
+ * utterance, the action type it should produce (null for "not a command"),
+ * and optionally fields the action must carry. Add a line here for every
+ * misfire you fix.
+ */
+
+import type { PhoneAction } from '@/hooks/usePhoneActions';
+
+export interface CorpusEntry {
+  utterance: string;
+  expect: PhoneAction['type'] | null;
+  fields?: Partial<Pick<PhoneAction, 'app' | 'hour' | 'minute' | 'duration' | 'query' | 'label' | 'provider'>>;
+  // Who a message, call or email is for, as read back
+  recipient?: string;
+}
+
+export const PHONE_COMMAND_CORPUS: CorpusEntry[] = [
+  // Alarms
+  { utterance: 'Set an alarm for 7:30 am', expect: 'alarm', fields: { hour: 7, minute: 30 } },
+  { utterance: 'set alarm for 6pm', expect: 'alarm', fields: { hour: 18, minute: 0 } },
+  { utterance: 'wake me up at 6', expect: 'alarm', fields: { hour: 6 } },
+  { utterance: 'alarm for Mondays at 6:30', expect: 'alarm', fields: { hour: 6, minute: 30 } },
+  { utterance: 'hey jarvis, can you set an alarm for 7 every weekday', expect: 'alarm', fields: { hour: 7 } },
+  { utterance: 'set an alarm', expect: 'alarm' },
+
+  // Timers
+  { utterance: 'set a timer for 5 minutes', expect: 'timer', fields: { duration: 300 } },
+  { utterance: 'Set a 5 minute timer', expect: 'timer', fields: { duration: 300 } },
+  { utterance: 'set a pasta timer for 10 minutes', expect: 'timer', fields: { duration: 600, label: 'pasta' } },
+  { utterance: 'start a timer for 1 hour and 30 minutes', expect: 'timer', fields: { duration: 5400 } },
+  { utterance: 'timer for 90 seconds', expect: 'timer', fields: { duration: 90 } },
+  { utterance: 'set a timer for 5 minutes please', expect: 'timer', fields: { duration: 300 } },
+  { utterance: 'pause the timer', expect: null },
+  { utterance: 'stop my pasta timer', expect: null },
+  { utterance: 'resume the timer', expect: null },
+
+  // Reminders
+  { utterance: 'remind me to call mom at 5pm tomorrow', expect: 'reminder' },
+  { utterance: 'Set a reminder for tomorrow to buy bread', expect: 'reminder' },
+  { utterance: 'I need you to remind me to water the plants tonight', expect: 'reminder' },
+  { utterance: 'every 2 hours drink water', expect: 'reminder' },
+  { utterance: 'every weekday at 8 take vitamins', expect: 'reminder' },
+  { utterance: 'every day is a gift', expect: null },
+  { utterance: "don't remind me", expect: null },
+  { utterance: 'why did you remind me', expect: null },
+  { utterance: 'remind me what my locker code is', expect: null },
+  { utterance: "remind me of my sister's birthday", expect: null },
+  { utterance: 'remind me where I parked', expect: null },
+
+  // Music
+  { utterance: 'play some jazz', expect: 'play_music', fields: { query: 'some jazz' } },
+  { utterance: 'play bohemian rhapsody on spotify', expect: 'play_music', fields: { query: 'bohemian rhapsody', provider: 'spotify' } },
+  { utterance: 'play lo-fi on YouTube', expect: 'play_music', fields: { query: 'lo-fi', provider: 'youtube' } },
+  { utterance: 'play Beethoven on YouTube Music', expect: 'play_music', fields: { query: 'beethoven', provider: 'youtube-music' } },
+  { utterance: 'play my Discover Weekly', expect: 'play_music', fields: { provider: 'spotify' } },
+  { utterance: 'play the album Abbey Road by the Beatles', expect: 'play_music', fields: { provider: undefined } },
+  { utterance: 'play stand by me', expect: 'play_music', fields: { query: 'stand by me' } },
+  { utterance: 'play some music', expect: 'play_music', fields: { query: '' } },
+  { utterance: 'can you play rock and roll please', expect: 'play_music', fields: { query: 'rock and roll' } },
+  { utterance: 'I want to listen to lo-fi beats', expect: 'play_music', fields: { query: 'lo-fi beats' } },
+  { utterance: 'I want to relax and play some jazz', expect: 'play_music', fields: { query: 'some jazz' } },
+  { utterance: "what's the play about", expect: null },
+  { utterance: 'how was the school play', expect: null },
+  { utterance: 'go play with the dog', expect: null },
+  { utterance: "let's play a game", expect: null },
+  { utterance: 'how do I play guitar', expect: null },
+  { utterance: 'who will play in the final', expect: null },
+  { utterance: 'ok play some jazz', expect: 'play_music', fields: { query: 'some jazz' } },
+  { utterance: 'pause', expect: 'media_control' },
+  { utterance: 'pause the music', expect: 'media_control' },
+  { utterance: 'stop playing', expect: 'media_control' },
+  { utterance: 'I need to pause and think', expect: null },
+  { utterance: 'resume the music', expect: 'media_control' },
+  { utterance: 'skip this song', expect: 'media_control' },
+  { utterance: 'play the next track', expect: 'media_control' },
+  { utterance: 'go back to the previous song', expect: 'media_control' },
+  { utterance: 'turn it up', expect: 'media_control' },
+  { utterance: 'turn the volume down to 30%', expect: 'media_control' },
+  { utterance: 'set volume to half', expect: 'media_control' },
+  { utterance: 'make it a bit quieter', expect: 'media_control' },
+  { utterance: 'mute the music', expect: 'media_control' },
+  { utterance: 'turn down for what', expect: null },
+  { utterance: 'what was the last thing I said', expect: null },
+  { utterance: 'pause for a second', expect: null },
+  { utterance: 'that was a long pause', expect: null },
+
+  // Apps
+  { utterance: 'open spotify', expect: 'open_app', fields: { app: 'spotify' } },
+  { utterance: 'play spotify', expect: 'open_app', fields: { app: 'spotify' } },
+  { utterance: 'open maps', expect: 'open_app', fields: { app: 'maps' } },
+  { utterance: 'launch the camera app', expect: 'open_app', fields: { app: 'camera' } },
+  { utterance: 'start youtube', expect: 'open_app', fields: { app: 'youtube' } },
+  { utterance: 'open netflix', expect: 'open_app', fields: { app: 'netflix' } },
+  { utterance: 'start whats app', expect: 'open_app' },
+  { utterance: 'start whatsup', expect: null },
+  { utterance: 'start over', expect: null },
+  { utterance: "let's start again", expect: null },
+
+  // Messages, calls and email
+  { utterance: "text Alex I'm running late", expect: 'message', recipient: 'Alex' },
+  { utterance: 'send a text message to my mom saying happy birthday', expect: 'message' },
+  { utterance: 'message 555 123 4567 that I am outside', expect: 'message' },
+  { utterance: 'text Alex saying I got your message', expect: 'message' },
+  { utterance: 'message received', expect: null },
+  { utterance: 'text me later', expect: null },
+  { utterance: 'call the dentist', expect: 'call', recipient: 'the dentist' },
+  { utterance: 'give Grandma a call', expect: 'call', recipient: 'Grandma' },
+  { utterance: "call my mom and tell her I'm late", expect: 'call', recipient: 'my mom' },
+  { utterance: 'call Alex and say I am on my way', expect: 'call', recipient: 'Alex' },
+  { utterance: 'call Sam now', expect: 'call', recipient: 'Sam' },
+  { utterance: 'call it a day', expect: null },
+  { utterance: 'call me Jarvis', expect: null },
+  { utterance: 'what do you call a baby kangaroo', expect: null },
+  { utterance: 'email Sam about the meeting', expect: 'email', recipient: 'Sam' },
+  { utterance: 'send an email to sam at example dot com saying see you there', expect: 'email' },
+  { utterance: 'email is broken', expect: null },
+  { utterance: 'email bounced', expect: null },
+  { utterance: 'open email', expect: 'open_app', fields: { app: 'email' } },
+
+  // Conversation
+  { utterance: 'what time is it', expect: null },
+  { utterance: 'tell me a joke', expect: null },
+  { utterance: 'how do I set up my new phone', expect: null },
+];
+
+// One line per entry the parser gets wrong - empty means the grammar is healthy
+export const checkCommandCorpus = (
+  parse: (utterance: string) => PhoneAction | null,
+  corpus: CorpusEntry[] = PHONE_COMMAND_CORPUS
+): string[] =>
+  corpus.flatMap(({ utterance, expect, fields = {}, recipient }) => {
+    const action = parse(utterance);
+    const type = action?.type ?? null;
+    if (type !== expect) return [`"${utterance}": expected ${expect ?? 'no command'}, got ${type ?? 'no command'}`];
+    const wrong = Object.entries(fields).filter(([key, value]) => action?.[key as keyof PhoneAction] !== value);
+    const failures = wrong.map(([key, value]) =>
+      `"${utterance}": expected ${key} ${JSON.stringify(value)}, got ${JSON.stringify(action?.[key as keyof PhoneAction])}`);
+    if (recipient !== undefined && action?.compose?.recipient !== recipient) {
+      failures.push(`"${utterance}": expected recipient "${recipient}", got ${JSON.stringify(action?.compose?.recipient)}`);
+    }
+    return failures;
+  });
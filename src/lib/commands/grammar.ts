@@ -0,0 +1,198 @@
+/**
+ * Declarative command grammar. Rules are data - phrase templates with typed
+ * slots, a priority, required anchor words and negative phrases - compiled
+ * once into regular expressions.
+ *
+ * Template syntax:
+ *   word          literal word
+ *   (a|b c)       one of the alternatives
+ *   [a|b c]       optionally one of the alternatives
+ *   {name:type}   a slot, parsed by the slot type's parser
+ *   ...           any words, or none
+ *
+ * Templates match the whole utterance, after a polite prefix like
+ * "hey jarvis, can you please".
+ */
+
+export interface SlotParser<T = unknown> {
+  // Return null when the text isn't a valid value - the template then doesn't match
+  parse: (text: string) => T | null;
+}
+
+export type SlotValues = Record<string, unknown>;
+
+export interface CommandRule<R> {
+  id: string;
+  // Higher priorities are tried first; ties go to the earlier rule
+  priority: number;
+  patterns: string[];
+  // Every anchor word must appear somewhere in the utterance
+  anchors?: string[];
+  // Any of these phrases rules the command out, even if a pattern matched
+  negatives?: string[];
+  build: (slots: SlotValues, utterance: string) => R | null;
+}
+
+export interface CommandMatch<R> {
+  ruleId: string;
+  value: R;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  // Slot name and type for each capture group, in order
+  slots: { name: string; type: string }[];
+}
+
+interface CompiledRule<R> {
+  rule: CommandRule<R>;
+  patterns: CompiledPattern[];
+  anchors: RegExp[];
+  negatives: RegExp[];
+}
+
+const LEADING_FILLER = String.raw`(?:(?:hey\s+)?jarvis,?\s+)?(?:please\s+)?(?:(?:can|could|will|would)\s+you\s+)?(?:please\s+)?`;
+const TRAILING_FILLER = String.raw`(?:,?\s+(?:please|for\s+me|thanks|thank\s+you))*`;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits on `|` outside nested brackets
+const splitAlternatives = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === '|' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+};
+
+const closingIndex = (template: string, start: number): number => {
+  const open = template[start];
+  const close = { '(': ')', '[': ']', '{': '}' }[open] ?? '';
+  let depth = 0;
+  for (let i = start; i < template.length; i++) {
+    if (template[i] === open) depth++;
+    if (template[i] === close && --depth === 0) return i;
+  }
+  throw new Error(`Unclosed "${open}" in command template "${template}"`);
+};
+
+// Each token carries its own leading whitespace so optional parts can vanish cleanly
+const compileTemplate = (template: string, slots: CompiledPattern['slots']): string => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < template.length) {
+    const char = template[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === '[') {
+      const end = closingIndex(template, i);
+      const alternatives = splitAlternatives(template.slice(i + 1, end))
+        .map(alternative => compileTemplate(alternative.trim(), slots));
+      tokens.push(`(?:${alternatives.join('|')})${char === '[' ? '?' : ''}`);
+      i = end + 1;
+    } else if (char === '{') {
+      const end = closingIndex(template, i);
+      const [name, type = 'text'] = template.slice(i + 1, end).split(':').map(part => part.trim());
+      slots.push({ name, type });
+      tokens.push(String.raw`\s*(.+?)`);
+      i = end + 1;
+    } else if (template.startsWith('...', i)) {
+      tokens.push(String.raw`(?:\s*.*?)`);
+      i += 3;
+    } else {
+      const word = template.slice(i).match(/^[^\s()[\]{}|]+/)?.[0] ?? char;
+      tokens.push(String.raw`\s*\b${escapeRegex(word)}\b`);
+      i += word.length;
+    }
+  }
+  return tokens.join('');
+};
+
+const compilePattern = (template: string): CompiledPattern => {
+  const slots: CompiledPattern['slots'] = [];
+  const body = compileTemplate(template, slots);
+  return { regex: new RegExp(`^\\s*${LEADING_FILLER}${body}${TRAILING_FILLER}\\s*$`, 'i'), slots };
+};
+
+// Negative phrases and anchors match anywhere, without slots
+const compilePhrase = (template: string): RegExp => new RegExp(compileTemplate(template, []).replace(/^\\s\*/, ''), 'i');
+
+export const normalizeUtterance = (utterance: string): string =>
+  utterance
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[?!.]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export interface CommandMatcher<R> {
+  match: (utterance: string) => CommandMatch<R> | null;
+  rules: CommandRule<R>[];
+}
+
+export const compileGrammar = <R>(rules: CommandRule<R>[], slotTypes: Record<string, SlotParser>): CommandMatcher<R> => {
+  const compiled: CompiledRule<R>[] = rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => ({
+      rule,
+      patterns: rule.patterns.map(compilePattern),
+      anchors: (rule.anchors ?? []).map(compilePhrase),
+      negatives: (rule.negatives ?? []).map(compilePhrase),
+    }));
+
+  for (const { rule, patterns } of compiled) {
+    for (const { slots } of patterns) {
+      const unknown = slots.find(slot => !slotTypes[slot.type]);
+      if (unknown) throw new Error(`Unknown slot type "${unknown.type}" in command rule "${rule.id}"`);
+    }
+  }
+
+  // Matching runs on normalized text; build gets the utterance as said
+  const matchRule = ({ rule, patterns, anchors, negatives }: CompiledRule<R>, text: string, utterance: string): R | null => {
+    if (!anchors.every(anchor => anchor.test(text))) return null;
+    if (negatives.some(negative => negative.test(text))) return null;
+
+    for (const { regex, slots } of patterns) {
+      const match = text.match(regex);
+      if (!match) continue;
+
+      const values: SlotValues = {};
+      const parsed = slots.every(({ name, type }, index) => {
+        const raw = match[index + 1];
+        // Slots inside optional groups may not have matched
+        if (raw === undefined) return true;
+        const value = slotTypes[type].parse(raw.trim());
+        if (value === null) return false;
+        values[name] = value;
+        return true;
+      });
+      if (!parsed) continue;
+
+      const value = rule.build(values, utterance);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  return {
+    rules,
+    match: (utterance) => {
+      const text = normalizeUtterance(utterance);
+      for (const entry of compiled) {
+        const value = matchRule(entry, text, utterance.trim());
+        if (value !== null) return { ruleId: entry.rule.id, value };
+      }
+      return null;
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findMusicProvider, getMusicProvider, musicSearchTarget, parseMusicRequest, type MusicProviderId } from './music';
+
+describe('parseMusicRequest', () => {
+  it.each([
+    ['the album abbey road by the beatles on youtube music', {
+      query: { kind: 'album', text: 'the album abbey road by the beatles', title: 'abbey road', artist: 'the beatles' },
+      provider: 'youtube-music',
+    }],
+    ['songs by taylor swift on apple music', {
+      query: { kind: 'artist', text: 'songs by taylor swift', artist: 'taylor swift' },
+      provider: 'apple-music',
+    }],
+    ['the song yesterday by the beatles', {
+      query: { kind: 'track', text: 'the song yesterday by the beatles', title: 'yesterday', artist: 'the beatles' },
+    }],
+    ['chill playlist', { query: { kind: 'playlist', text: 'chill playlist', title: 'chill' } }],
+    // "stand by me" is a song, not a song by "me"
+    ['stand by me', { query: { kind: 'any', text: 'stand by me' } }],
+    ['lo-fi on youtube', { query: { kind: 'any', text: 'lo-fi' }, provider: 'youtube' }],
+    ['bohemian rhapsody using soundcloud', { query: { kind: 'any', text: 'bohemian rhapsody' }, provider: 'soundcloud' }],
+    ['jazz spotify', { query: { kind: 'any', text: 'jazz' }, provider: 'spotify' }],
+    ['the beatles in the spotify app', { query: { kind: 'any', text: 'the beatles' }, provider: 'spotify' }],
+  ])('%s', (spoken, request) => {
+    expect(parseMusicRequest(spoken)).toEqual(request);
+  });
+
+  it.each([
+    ['my discover weekly', 'spotify'],
+    ['my supermix', 'youtube-music'],
+  ])('sends %s to the only service that has it', (spoken, provider) => {
+    expect(parseMusicRequest(spoken)).toMatchObject({ query: { kind: 'playlist' }, provider });
+  });
+
+  it.each([
+    ['some music', undefined],
+    ['youtube music', 'youtube-music'],
+  ])('just opens the provider for %s', (spoken, provider) => {
+    expect(parseMusicRequest(spoken)).toEqual({ query: { kind: 'any', text: '' }, provider });
+  });
+
+  it('ignores nothing at all', () => {
+    expect(parseMusicRequest('  ')).toBeNull();
+  });
+});
+
+describe('findMusicProvider', () => {
+  it.each([
+    ['YouTube Music app', 'youtube-music'],
+    ['spotify', 'spotify'],
+    ['tidal', null],
+  ])('%s', (spoken, provider) => {
+    expect(findMusicProvider(spoken)).toBe(provider);
+  });
+});
+
+describe('search links', () => {
+  const album = parseMusicRequest('the album abbey road by the beatles')!.query;
+
+  it.each([
+    ['spotify', 'https://open.spotify.com/search/abbey%20road%20the%20beatles/albums'],
+    ['youtube', 'https://www.youtube.com/results?search_query=abbey%20road%20the%20beatles%20full%20album'],
+    ['youtube-music', 'https://music.youtube.com/search?q=album%20abbey%20road%20the%20beatles'],
+    ['apple-music', 'https://music.apple.com/search?term=abbey%20road%20the%20beatles'],
+    ['soundcloud', 'https://soundcloud.com/search/albums?q=abbey%20road%20the%20beatles'],
+  ] as [MusicProviderId, string][])('%s', (provider, url) => {
+    expect(getMusicProvider(provider).searchUrl(album)).toBe(url);
+  });
+
+  it('opens the search in the app with the site as a fallback', () => {
+    expect(musicSearchTarget(getMusicProvider('spotify'), album)).toEqual({
+      uri: 'intent://open.spotify.com/search/abbey%20road%20the%20beatles/albums#Intent;scheme=https;package=com.spotify.music;S.browser_fallback_url=https%3A%2F%2Fopen.spotify.com%2Fsearch%2Fabbey%2520road%2520the%2520beatles%2Falbums;end',
+      webUrl: 'https://open.spotify.com/search/abbey%20road%20the%20beatles/albums',
+    });
+  });
+
+  it('opens the provider when there is nothing to search for', () => {
+    expect(musicSearchTarget(getMusicProvider('spotify'), { kind: 'any', text: '' }))
+      .toEqual({ packageName: 'com.spotify.music', webUrl: 'https://open.spotify.com' });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Music providers and what people ask them for. "play the album X by Y on
+ * YouTube Music" becomes a provider plus a structured query, and each
+ * provider turns the query into its own search link.
+ */
+
+import type { AppTarget } from '@/hooks/useNativeCapabilities';
+
+export type MusicProviderId = 'spotify' | 'youtube' | 'youtube-music' | 'apple-music' | 'soundcloud';
+
+export type MusicQueryKind = 'any' | 'track' | 'album' | 'artist' | 'playlist';
+
+export interface MusicQuery {
+  kind: MusicQueryKind;
+  // Everything asked for, minus the provider: "the album abbey road by the beatles"
+  text: string;
+  // Song, album or playlist name
+  title?: string;
+  artist?: string;
+}
+
+export interface MusicRequest {
+  query: MusicQuery;
+  // Only when one was named or implied - otherwise the default from settings
+  provider?: MusicProviderId;
+}
+
+export interface MusicProvider {
+  id: MusicProviderId;
+  name: string;
+  aliases: string[];
+  packageName: string;
+  // Where the web build goes when there's nothing to search for
+  homeUrl: string;
+  // Web search link for a query
+  searchUrl: (query: MusicQuery) => string;
+}
+
+const encode = encodeURIComponent;
+
+// What to type into a search box that has no filters
+const searchText = (query: MusicQuery): string =>
+  query.title ? [query.title, query.artist].filter(Boolean).join(' ') : query.artist ?? query.text;
+
+const SPOTIFY_TABS: Partial<Record<MusicQueryKind, string>> = {
+  track: '/tracks', album: '/albums', artist: '/artists', playlist: '/playlists',
+};
+
+// YouTube's encoded search filters
+const YOUTUBE_FILTERS: Partial<Record<MusicQueryKind, string>> = {
+  artist: '&sp=EgIQAg%3D%3D', playlist: '&sp=EgIQAw%3D%3D',
+};
+
+const SOUNDCLOUD_TABS: Partial<Record<MusicQueryKind, string>> = {
+  track: '/sounds', album: '/albums', artist: '/people', playlist: '/sets',
+};
+
+export const MUSIC_PROVIDERS: MusicProvider[] = [
+  {
+    id: 'spotify',
+    name: 'Spotify',
+    aliases: ['spotify'],
+    packageName: 'com.spotify.music',
+    homeUrl: 'https://open.spotify.com',
+    searchUrl: (query) => `https://open.spotify.com/search/${encode(searchText(query))}${SPOTIFY_TABS[query.kind] ?? ''}`,
+  },
+  {
+    id: 'youtube-music',
+    name: 'YouTube Music',
+    aliases: ['youtube music', 'you tube music', 'yt music'],
+    packageName: 'com.google.android.apps.youtube.music',
+    homeUrl: 'https://music.youtube.com',
+    // No filters in the URL - name the kind so albums and playlists rank first
+    searchUrl: (query) => {
+      const prefix = query.kind === 'album' || query.kind === 'playlist' ? `${query.kind} ` : '';
+      return `https://music.youtube.com/search?q=${encode(prefix + searchText(query))}`;
+    },
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    aliases: ['youtube', 'you tube'],
+    packageName: 'com.google.android.youtube',
+    homeUrl: 'https://www.youtube.com',
+    searchUrl: (query) => {
+      const text = query.kind === 'album' ? `${searchText(query)} full album` : searchText(query);
+      return `https://www.youtube.com/results?search_query=${encode(text)}${YOUTUBE_FILTERS[query.kind] ?? ''}`;
+    },
+  },
+  {
+    id: 'apple-music',
+    name: 'Apple Music',
+    aliases: ['apple music', 'itunes'],
+    packageName: 'com.apple.android.music',
+    homeUrl: 'https://music.apple.com',
+    searchUrl: (query) => `https://music.apple.com/search?term=${encode(searchText(query))}`,
+  },
+  {
+    id: 'soundcloud',
+    name: 'SoundCloud',
+    aliases: ['soundcloud', 'sound cloud'],
+    packageName: 'com.soundcloud.android',
+    homeUrl: 'https://soundcloud.com',
+    searchUrl: (query) => `https://soundcloud.com/search${SOUNDCLOUD_TABS[query.kind] ?? ''}?q=${encode(searchText(query))}`,
+  },
+];
+
+export const DEFAULT_MUSIC_PROVIDER: MusicProviderId = 'spotify';
+
+export const getMusicProvider = (id: MusicProviderId): MusicProvider =>
+  MUSIC_PROVIDERS.find(provider => provider.id === id) ?? MUSIC_PROVIDERS[0];
+
+// Personal mixes only one service has - "play my Discover Weekly" means Spotify
+const PROVIDER_PLAYLISTS: { provider: MusicProviderId; names: string[] }[] = [
+  { provider: 'spotify', names: ['discover weekly', 'release radar', 'daily mix', 'liked songs', 'on repeat', 'repeat rewind', 'daylist', 'time capsule'] },
+  { provider: 'youtube-music', names: ['supermix', 'my supermix', 'replay mix', 'discover mix', 'new release mix'] },
+  { provider: 'apple-music', names: ['favorites mix', 'new music mix', 'get up mix', 'chill mix'] },
+];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "youtube music" wins over "youtube"
+const PROVIDER_ALIASES = MUSIC_PROVIDERS
+  .flatMap(provider => provider.aliases.map(alias => ({ alias, provider: provider.id })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+// "... on youtube music", "... using spotify", or just "... spotify"
+const PROVIDER_SUFFIX = new RegExp(
+  `\\s+(?:(?:on|in|using|with|from|via|through)\\s+)?(?:the\\s+)?(${PROVIDER_ALIASES.map(({ alias }) => escapeRegex(alias)).join('|')})(?:\\s+app)?$`,
+  'i'
+);
+
+export const findMusicProvider = (spoken: string): MusicProviderId | null => {
+  const text = spoken.toLowerCase().trim().replace(/\s+app$/, '');
+  return PROVIDER_ALIASES.find(({ alias }) => alias === text)?.provider ?? null;
+};
+
+const QUERY_PATTERNS: { kind: MusicQueryKind; pattern: RegExp }[] = [
+  { kind: 'album', pattern: /^(?:the\s+)?album\s+(?<title>.+?)(?:\s+by\s+(?<artist>.+))?$/i },
+  { kind: 'album', pattern: /^(?<title>.+?)\s+album(?:\s+by\s+(?<artist>.+))?$/i },
+  { kind: 'playlist', pattern: /^(?:the\s+|my\s+)?playlist\s+(?:called\s+)?(?<title>.+)$/i },
+  { kind: 'playlist', pattern: /^(?:the\s+|my\s+)?(?<title>.+?)\s+playlist$/i },
+  { kind: 'artist', pattern: /^(?:(?:some\s+)?(?:songs|music|tracks|stuff)\s+(?:by|from)|(?:the\s+)?artist)\s+(?<artist>.+)$/i },
+  { kind: 'track', pattern: /^(?:the\s+)?(?:song|track)\s+(?<title>.+?)(?:\s+by\s+(?<artist>.+))?$/i },
+  { kind: 'track', pattern: /^(?<title>.+?)\s+by\s+(?<artist>.+)$/i },
+];
+
+const NOT_ARTISTS = /^(?:me|you|us|him|her|them|it|myself|yourself)$/i;
+
+export const parseMusicQuery = (text: string): MusicQuery => {
+  for (const { kind, pattern } of QUERY_PATTERNS) {
+    const groups = text.match(pattern)?.groups;
+    // "stand by me" is a song, not a song by "me"
+    if (!groups || NOT_ARTISTS.test(groups.artist ?? '')) continue;
+    return { kind, text, title: groups.title?.trim(), artist: groups.artist?.trim() };
+  }
+  const personal = text.match(/^my\s+(.+)$/i);
+  if (personal && PROVIDER_PLAYLISTS.some(({ names }) => names.includes(personal[1].toLowerCase()))) {
+    return { kind: 'playlist', text, title: personal[1] };
+  }
+  return { kind: 'any', text };
+};
+
+// "lo-fi on youtube" -> lo-fi, YouTube. "some music" and "youtube music"
+// leave an empty query - just open the provider.
+export const parseMusicRequest = (spoken: string): MusicRequest | null => {
+  let text = spoken.trim();
+  if (!text) return null;
+
+  const named = findMusicProvider(text);
+  if (named) return { query: { kind: 'any', text: '' }, provider: named };
+
+  let provider: MusicProviderId | undefined;
+  const suffix = text.match(PROVIDER_SUFFIX);
+  if (suffix && suffix.index) {
+    provider = findMusicProvider(suffix[1]) ?? undefined;
+    text = text.slice(0, suffix.index).trim();
+  }
+  if (/^(?:(?:some|any|my|the)\s+)?(?:music|songs?|tunes|something)$/i.test(text)) {
+    return { query: { kind: 'any', text: '' }, provider };
+  }
+  const query = parseMusicQuery(text);
+  if (!provider && query.kind === 'playlist' && query.title) {
+    const title = query.title.toLowerCase();
+    provider = PROVIDER_PLAYLISTS.find(({ names }) => names.includes(title))?.provider;
+  }
+  return { query, provider };
+};
+
+// Opens the provider's app on the search when it's installed, its site otherwise
+export const musicSearchTarget = (provider: MusicProvider, query: MusicQuery): AppTarget => {
+  if (!query.text) return { packageName: provider.packageName, webUrl: provider.homeUrl };
+  const webUrl = provider.searchUrl(query);
+  const { host, pathname, search } = new URL(webUrl);
+  return {
+    uri: `intent://${host}${pathname}${search}#Intent;scheme=https;package=${provider.packageName};S.browser_fallback_url=${encode(webUrl)};end`,
+    webUrl,
+  };
+};
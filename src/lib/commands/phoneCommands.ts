@@ -0,0 +1,264 @@
+/**
+ * The phone action grammar - alarms, timers, reminders, music and apps.
+ * Add phrasings here rather than in code; the corpus in ./corpus lists what
+ * each rule must and must not match.
+ */
+
+import type { PhoneAction } from '@/hooks/usePhoneActions';
+import { parseRecurrence } from '@/lib/ai/recurrence';
+import { parseReminder } from '@/lib/ai/reminderTime';
+import type { MediaControlKind } from '@/lib/mediaControl';
+import { parseCallDraft, parseEmailDraft, parseMessageDraft } from './compose';
+import { compileGrammar, type CommandRule } from './grammar';
+import type { MusicRequest } from './music';
+import { SLOT_TYPES, type AlarmTime, type TimerSpec } from './slots';
+
+const REMINDER_START = /remind\s+me|(?:set|add|create|make)\s+(?:a\s+|an\s+|new\s+)?reminder/i;
+
+// Music rules share these - "what's the play about" and "play with the dog" aren't music
+const NOT_MUSIC = [
+  '(the|a|this|that|school|broadway|role|screen|power|foul|fair) play',
+  'play (with|outside|along|around|fair|dead|nice|games|a game|the game|ball|catch|tag|chess|cards|pretend|hard to get)',
+  "let's play",
+];
+
+// "message received", "email bounced" - news about a message, not a new one
+const NOT_COMPOSE = ['(message|text|sms|email|e-mail) (received|delivered|failed|bounced)'];
+
+// Longest first - "send a text message to" before "text"
+const MESSAGE_START = /\b(?:(?:send|write)\s+(?:an?\s+)?(?:text|message|sms)(?:\s+message)?\s+to|text|message|sms)\s+/i;
+const EMAIL_START = /\b(?:(?:send|write)\s+(?:an?\s+)?e-?mail\s+to|e-?mail)\s+/i;
+const CALL_START = /\b(?:(?:make|place)\s+a\s+(?:phone\s+)?call\s+to|call|dial)\s+/i;
+
+// What follows the command, as said - the slots only see lowercased text
+const afterCommand = (utterance: string, start: RegExp): string => {
+  const match = utterance.match(start);
+  return match?.index === undefined ? '' : utterance.slice(match.index + match[0].length).replace(/[?!.]+$/, '');
+};
+
+const media = (control: MediaControlKind, level?: number): PhoneAction => ({
+  type: 'media_control',
+  media: level === undefined ? { control } : { control, level },
+});
+
+export const PHONE_COMMAND_RULES: CommandRule<PhoneAction>[] = [
+  {
+    id: 'alarm.set',
+    priority: 30,
+    patterns: [
+      '(set|create|add|make) [an|a|my|the|new] ... alarm [{when:alarmTime}]',
+      'wake me [up] [{when:alarmTime}]',
+      '[an|a] alarm (for|at|on|every) {when:alarmTime}',
+    ],
+    anchors: ['(alarm|wake)'],
+    build: (slots, utterance) => {
+      const when = slots.when as AlarmTime | undefined;
+      // Only day-based repeats make sense for an alarm
+      const repeat = parseRecurrence(utterance.toLowerCase());
+      return {
+        type: 'alarm',
+        time: when?.time,
+        hour: when?.hour ?? 0,
+        minute: when?.minute ?? 0,
+        recurrence: when?.time && repeat?.weekdays
+          ? { kind: 'weekly', weekdays: repeat.weekdays, hour: when.hour, minute: when.minute }
+          : undefined,
+        message: utterance,
+      };
+    },
+  },
+  {
+    id: 'timer.set',
+    priority: 30,
+    patterns: [
+      '(set|start|create|make) [a|an|the|my|new] [{name:timerSpec}] timer [{spec:timerSpec}]',
+      '{name:timerSpec} timer',
+      'timer (for|of) {spec:timerSpec}',
+    ],
+    anchors: ['timer'],
+    // Working on a timer, not naming one "pause"
+    negatives: ['(pause|stop|cancel|resume|unpause|delete|remove|clear|dismiss) ... (timer|timers)'],
+    build: (slots, utterance) => {
+      const parts = [slots.name, slots.spec].filter(Boolean) as TimerSpec[];
+      const label = parts.map(part => part.label).filter(Boolean).join(' ');
+      return {
+        type: 'timer',
+        duration: parts.reduce((total, part) => total + part.duration, 0),
+        label: label || undefined,
+        message: utterance,
+      };
+    },
+  },
+  {
+    id: 'reminder.set',
+    priority: 30,
+    patterns: [
+      'remind me ...',
+      '(set|add|create|make) [a|an|new] reminder ...',
+      // "I need you to remind me..." - parse from the command onwards
+      '... remind me ...',
+    ],
+    negatives: [
+      // Recalling a memory or talking about reminders - not asking for a new one
+      'remind me (of|about|what|where|when|who|how) ...',
+      "(don't|do not|never|why did you|stop) ... remind me",
+    ],
+    build: (_slots, utterance) => {
+      const start = utterance.search(REMINDER_START);
+      return {
+        type: 'reminder',
+        message: utterance,
+        reminder: parseReminder(start > 0 ? utterance.slice(start) : utterance) ?? undefined,
+      };
+    },
+  },
+  {
+    id: 'message.send',
+    priority: 30,
+    patterns: [
+      '(text|message|sms) ...',
+      '(send|write) [a|an] (text|message|sms) [message] to ...',
+    ],
+    negatives: [...NOT_COMPOSE, '(text|message) me (later|back|sometime)'],
+    build: (_slots, utterance) => {
+      const compose = parseMessageDraft(afterCommand(utterance, MESSAGE_START));
+      return compose ? { type: 'message', compose } : null;
+    },
+  },
+  {
+    id: 'email.send',
+    priority: 30,
+    patterns: [
+      '(email|e-mail) ...',
+      '(send|write) [a|an] (email|e-mail) to ...',
+    ],
+    negatives: NOT_COMPOSE,
+    build: (_slots, utterance) => {
+      const compose = parseEmailDraft(afterCommand(utterance, EMAIL_START));
+      return compose ? { type: 'email', compose } : null;
+    },
+  },
+  {
+    id: 'call.start',
+    priority: 30,
+    patterns: [
+      '(call|dial) ...',
+      '(make|place) a [phone] call to ...',
+      'give ... a (call|ring)',
+    ],
+    negatives: ['call it a day', 'what (do|would|should) (you|we|i) call'],
+    build: (_slots, utterance) => {
+      const giveCall = utterance.match(/\bgive\s+(.+?)\s+a\s+(?:call|ring)\b/i);
+      const compose = parseCallDraft(giveCall ? giveCall[1] : afterCommand(utterance, CALL_START));
+      return compose ? { type: 'call', compose } : null;
+    },
+  },
+  {
+    // "every 2 hours drink water" is a reminder without saying so
+    id: 'reminder.recurring',
+    priority: 20,
+    patterns: ['(every|each|daily) ...'],
+    build: (_slots, utterance) => {
+      const reminder = parseReminder(utterance);
+      return reminder?.recurrence ? { type: 'reminder', message: utterance, reminder } : null;
+    },
+  },
+  {
+    id: 'spotify.open',
+    priority: 25,
+    patterns: ['[play|open|launch|start] spotify [app]'],
+    build: () => ({ type: 'open_app', app: 'spotify' }),
+  },
+  {
+    id: 'media.pause',
+    priority: 20,
+    patterns: [
+      '(pause|stop) [the|my|this|that] (music|song|track|playback|spotify|audio)',
+      'stop playing [music|the music|this|that|it]',
+      'pause [it|this|that|playback]',
+      'pause ...',
+    ],
+    negatives: ['pause (and|to|for) ...', '(a|the) pause', 'pause ... (timer|timers|alarm|alarms|reminder|reminders)'],
+    build: () => media('pause'),
+  },
+  {
+    id: 'media.resume',
+    priority: 20,
+    patterns: [
+      '(resume|unpause|continue) [the|my] [music|song|track|playback|playing]',
+      '(keep|continue|start) playing',
+      'play [it|the music|the song] again',
+    ],
+    build: () => media('resume'),
+  },
+  {
+    id: 'media.next',
+    priority: 20,
+    patterns: [
+      '(next|skip) [song|track|one]',
+      'skip [this|that|the] [song|track|one]',
+      '(play|go to|skip to) [the] next (song|track|one)',
+    ],
+    build: () => media('next'),
+  },
+  {
+    id: 'media.previous',
+    priority: 20,
+    patterns: [
+      '(previous|last) [song|track|one]',
+      '(play|go to|go back to) [the] (previous|last) (song|track|one)',
+      'go back [a|one] (song|track)',
+    ],
+    build: () => media('previous'),
+  },
+  {
+    id: 'media.volume',
+    priority: 20,
+    patterns: [
+      '(turn|crank) [it|the volume|the music|the sound] (up|down) [{level:volumeLevel}]',
+      '(turn|crank) (up|down) [the] (volume|music|sound)',
+      'volume (up|down)',
+      '(raise|increase|lower|decrease|reduce) [the] (volume|music|sound)',
+      '[make it] [a bit|a little] (louder|quieter|softer)',
+      '[set|put|change] [the] volume (to|at) {level:volumeLevel}',
+      'volume {level:volumeLevel}',
+    ],
+    build: (slots, utterance) => {
+      if (typeof slots.level === 'number') return media('volume_set', slots.level);
+      return /\b(?:up|raise|increase|louder)\b/i.test(utterance) ? media('volume_up') : media('volume_down');
+    },
+  },
+  {
+    id: 'media.mute',
+    priority: 20,
+    patterns: ['(mute|unmute) [the] [music|sound|audio|volume|it]'],
+    build: (_slots, utterance) => media(/\bunmute\b/i.test(utterance) ? 'unmute' : 'mute'),
+  },
+  {
+    id: 'music.play',
+    priority: 10,
+    patterns: [
+      '[ok|okay|now|just|go ahead and] play {query:musicQuery}',
+      "[i] (want|wanna|would like|'d like) to (hear|listen to) {query:musicQuery}",
+      // "I want to relax and play some jazz" - but not "how do I play guitar"
+      "[i] (want|wanna|would like|'d like) to ... and play {query:musicQuery}",
+    ],
+    negatives: NOT_MUSIC,
+    build: (slots) => {
+      const { query, provider } = slots.query as MusicRequest;
+      return { type: 'play_music', query: query.text, music: query, provider };
+    },
+  },
+  {
+    id: 'app.open',
+    priority: 10,
+    patterns: [
+      '(open|launch) {app:appName}',
+      // "start" is also "start over", "start again" - only for apps we know
+      'start {app:knownApp}',
+    ],
+    build: (slots) => ({ type: 'open_app', app: slots.app as string }),
+  },
+];
+
+export const phoneCommands = compileGrammar(PHONE_COMMAND_RULES, SLOT_TYPES);
@@ -0,0 +1,109 @@
+/**
+ * Typed slot parsers for the command grammar - "{spec:timerSpec}" in a
+ * template is parsed by `timerSpec` here. Parsers return null to reject.
+ */
+
+import { getAppRegistry } from '@/hooks/useAppRegistry';
+import type { SlotParser } from './grammar';
+import { findApp } from './apps';
+import { parseMusicRequest, type MusicRequest } from './music';
+
+export interface TimerSpec {
+  // 0 when no duration was said
+  duration: number;
+  label?: string;
+}
+
+export interface AlarmTime {
+  // As said: "for 7:30 am"
+  time?: string;
+  hour: number;
+  minute: number;
+}
+
+const DURATION_PATTERN = /(?:for\s+)?(\d+)[\s-]*(minute|min|second|sec|hour|hr)s?\b/gi;
+const TIMER_FILLER = new Set(['set', 'start', 'a', 'an', 'the', 'my', 'timer', 'for', 'of', 'called', 'named', 'and', 'please', 'hey', 'jarvis', 'new', 'can', 'could', 'you']);
+const ALARM_TIME_PATTERN = /(?:(?:for|at)\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i;
+
+// "1 hour and 30 minutes" adds up every part
+const totalSeconds = (text: string): number => {
+  let seconds = 0;
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const value = parseInt(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('hour') || unit === 'hr') seconds += value * 3600;
+    else if (unit.startsWith('min')) seconds += value * 60;
+    else seconds += value;
+  }
+  return seconds;
+};
+
+const text: SlotParser<string> = {
+  parse: (value) => value || null,
+};
+
+// Durations plus whatever is left as a name: "pasta", "10 minute"
+const timerSpec: SlotParser<TimerSpec> = {
+  parse: (value) => {
+    const words = value.replace(DURATION_PATTERN, ' ').replace(/[^a-z\s-]/g, ' ').split(/\s+/);
+    const label = words.filter(word => word && !TIMER_FILLER.has(word)).join(' ');
+    return { duration: totalSeconds(value), label: label || undefined };
+  },
+};
+
+// "for 7:30 am", "at 6" - no time at all still counts, so we can ask for one
+const alarmTime: SlotParser<AlarmTime> = {
+  parse: (value) => {
+    const match = value.match(ALARM_TIME_PATTERN);
+    if (!match) return { hour: 0, minute: 0 };
+    let hour = parseInt(match[1]);
+    const minute = match[2] ? parseInt(match[2]) : 0;
+    const period = match[3]?.toLowerCase();
+    if (period === 'pm' && hour !== 12) hour += 12;
+    if (period === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) return null;
+    return { time: match[0], hour, minute };
+  },
+};
+
+// "bohemian rhapsody on spotify" -> the song, on Spotify
+const musicQuery: SlotParser<MusicRequest> = {
+  parse: parseMusicRequest,
+};
+
+const VOLUME_WORDS: Record<string, number> = { max: 1, maximum: 1, full: 1, half: 0.5, halfway: 0.5, zero: 0, min: 0, minimum: 0 };
+
+// "50%", "50 percent", "half", "7" (out of 10) -> 0 to 1
+const volumeLevel: SlotParser<number> = {
+  parse: (value) => {
+    const text = value.replace(/^(?:to|at)\s+/, '').replace(/\s*(?:volume|level)$/, '').trim();
+    if (text in VOLUME_WORDS) return VOLUME_WORDS[text];
+    const match = text.match(/^(\d{1,3})\s*(%|percent|per cent)?$/);
+    if (!match) return null;
+    const number = parseInt(match[1]);
+    const level = match[2] || number > 10 ? number / 100 : number / 10;
+    return level <= 1 ? level : null;
+  },
+};
+
+const appName: SlotParser<string> = {
+  parse: (value) => value.replace(/^(?:the|my)\s+/, '').replace(/\s+app$/, '').trim() || null,
+};
+
+// Only apps we know - "start over" isn't an app
+const knownApp: SlotParser<string> = {
+  parse: (value) => {
+    const name = appName.parse(value);
+    return name && findApp(name, getAppRegistry()).kind === 'exact' ? name : null;
+  },
+};
+
+export const SLOT_TYPES: Record<string, SlotParser> = {
+  text,
+  timerSpec,
+  alarmTime,
+  musicQuery,
+  volumeLevel,
+  appName,
+  knownApp,
+};
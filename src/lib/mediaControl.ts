@@ -0,0 +1,100 @@
+/**
+ * Media playback control - pause, resume, skip and volume for whatever is
+ * playing. On Android the MediaControl plugin (native/android) sends media
+ * key events to the active player; on the web it falls back to the Media
+ * Session API and any audio or video in the page.
+ */
+
+import { registerPlugin } from '@capacitor/core';
+
+export type MediaKey = 'play' | 'pause' | 'next' | 'previous';
+
+export type VolumeDirection = 'up' | 'down' | 'mute' | 'unmute';
+
+export interface MediaControlResult {
+  // False when nothing was playing that we could reach
+  handled: boolean;
+  // Media volume from 0 to 1, when known
+  level?: number;
+}
+
+export interface MediaControlPlugin {
+  sendMediaKey(options: { key: MediaKey }): Promise<MediaControlResult>;
+  adjustVolume(options: { direction: VolumeDirection }): Promise<MediaControlResult>;
+  setVolume(options: { level: number }): Promise<MediaControlResult>;
+}
+
+export const MediaControl = registerPlugin<MediaControlPlugin>('MediaControl', {
+  web: () => import('./mediaControlWeb').then(module => new module.MediaControlWeb()),
+});
+
+export type MediaControlKind =
+  | 'pause'
+  | 'resume'
+  | 'next'
+  | 'previous'
+  | 'volume_up'
+  | 'volume_down'
+  | 'volume_set'
+  | 'mute'
+  | 'unmute';
+
+export interface MediaCommand {
+  control: MediaControlKind;
+  // volume_set only, from 0 to 1
+  level?: number;
+}
+
+export const runMediaCommand = async ({ control, level }: MediaCommand): Promise<MediaControlResult> => {
+  try {
+    switch (control) {
+      case 'pause':
+        return await MediaControl.sendMediaKey({ key: 'pause' });
+      case 'resume':
+        return await MediaControl.sendMediaKey({ key: 'play' });
+      case 'next':
+        return await MediaControl.sendMediaKey({ key: 'next' });
+      case 'previous':
+        return await MediaControl.sendMediaKey({ key: 'previous' });
+      case 'volume_up':
+        return await MediaControl.adjustVolume({ direction: 'up' });
+      case 'volume_down':
+        return await MediaControl.adjustVolume({ direction: 'down' });
+      case 'mute':
+        return await MediaControl.adjustVolume({ direction: 'mute' });
+      case 'unmute':
+        return await MediaControl.adjustVolume({ direction: 'unmute' });
+      case 'volume_set':
+        return await MediaControl.setVolume({ level: Math.min(1, Math.max(0, level ?? 0.5)) });
+    }
+  } catch (e) {
+    // Builds without the native plugin land here too
+    console.error('Failed to control media:', e);
+    return { handled: false };
+  }
+};
+
+// What undoes a command - pausing by mistake is the common case
+export const inverseMediaCommand = ({ control }: MediaCommand): MediaCommand | null => {
+  switch (control) {
+    case 'pause': return { control: 'resume' };
+    case 'resume': return { control: 'pause' };
+    case 'mute': return { control: 'unmute' };
+    case 'unmute': return { control: 'mute' };
+    default: return null;
+  }
+};
+
+export const describeMediaCommand = ({ control, level }: MediaCommand): string => {
+  switch (control) {
+    case 'pause': return 'Pause';
+    case 'resume': return 'Resume';
+    case 'next': return 'Next track';
+    case 'previous': return 'Previous track';
+    case 'volume_up': return 'Volume up';
+    case 'volume_down': return 'Volume down';
+    case 'volume_set': return `Volume ${Math.round((level ?? 0) * 100)}%`;
+    case 'mute': return 'Mute';
+    case 'unmute': return 'Unmute';
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * Web fallback for the MediaControl plugin. A page can't reach other apps'
+ * players, so this controls audio and video in the page and keeps the Media
+ * Session playback state in step for the browser's own media controls.
+ */
+
+import { WebPlugin } from '@capacitor/core';
+import type { MediaControlPlugin, MediaControlResult, MediaKey, VolumeDirection } from './mediaControl';
+
+const VOLUME_STEP = 0.1;
+
+const pageMedia = (): HTMLMediaElement[] => Array.from(document.querySelectorAll<HTMLMediaElement>('audio, video'));
+
+const setPlaybackState = (state: MediaSessionPlaybackState) => {
+  if ('mediaSession' in navigator) navigator.mediaSession.playbackState = state;
+};
+
+const averageVolume = (media: HTMLMediaElement[]): number =>
+  media.reduce((total, element) => total + (element.muted ? 0 : element.volume), 0) / media.length;
+
+export class MediaControlWeb extends WebPlugin implements MediaControlPlugin {
+  async sendMediaKey({ key }: { key: MediaKey }): Promise<MediaControlResult> {
+    const media = pageMedia();
+    const playing = media.filter(element => !element.paused);
+
+    switch (key) {
+      case 'pause':
+        playing.forEach(element => element.pause());
+        if (playing.length > 0) setPlaybackState('paused');
+        return { handled: playing.length > 0 };
+      case 'play': {
+        // Anything paused part-way through
+        const paused = media.filter(element => element.paused && element.currentTime > 0);
+        const resumed = await Promise.all(paused.map(element => element.play().then(() => true, () => false)));
+        const handled = resumed.some(Boolean);
+        if (handled) setPlaybackState('playing');
+        return { handled };
+      }
+      // Skipping needs a playlist the page doesn't have - restart or end the current item instead
+      case 'previous':
+        playing.forEach(element => { element.currentTime = 0; });
+        return { handled: playing.length > 0 };
+      case 'next':
+        playing.forEach(element => { element.currentTime = element.duration || element.currentTime; });
+        return { handled: playing.length > 0 };
+    }
+  }
+
+  async adjustVolume({ direction }: { direction: VolumeDirection }): Promise<MediaControlResult> {
+    const media = pageMedia();
+    if (media.length === 0) return { handled: false };
+
+    for (const element of media) {
+      if (direction === 'mute') element.muted = true;
+      else if (direction === 'unmute') element.muted = false;
+      else element.volume = Math.min(1, Math.max(0, element.volume + (direction === 'up' ? VOLUME_STEP : -VOLUME_STEP)));
+    }
+    return { handled: true, level: averageVolume(media) };
+  }
+
+  async setVolume({ level }: { level: number }): Promise<MediaControlResult> {
+    const media = pageMedia();
+    if (media.length === 0) return { handled: false };
+
+    for (const element of media) {
+      element.muted = false;
+      element.volume = level;
+    }
+    return { handled: true, level };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Buttons shown on native notifications. Action types are registered once at
+ * startup; each notification picks one with its actionTypeId.
+ */
+
+import type { ActionType } from '@capacitor/local-notifications';
+import { DEFAULT_SNOOZE_SECONDS, formatSpan } from './ai/scheduledItems';
+
+export const NOTIFICATION_ACTION_TYPES = {
+  // Reminders and alarms
+  reminder: 'jarvis-reminder',
+  timer: 'jarvis-timer',
+  // Assistant replies - answer back without opening the app
+  reply: 'jarvis-reply',
+} as const;
+
+export const NOTIFICATION_ACTIONS = {
+  snooze: 'snooze',
+  done: 'done',
+  restart: 'restart',
+  reply: 'reply',
+} as const;
+
+// What scheduled-item notifications carry so actions can find their item
+export interface ScheduledNotificationExtra {
+  itemId: number;
+}
+
+export const ACTION_TYPE_DEFINITIONS: ActionType[] = [
+  {
+    id: NOTIFICATION_ACTION_TYPES.reminder,
+    actions: [
+      { id: NOTIFICATION_ACTIONS.snooze, title: `Snooze ${formatSpan(DEFAULT_SNOOZE_SECONDS)}` },
+      { id: NOTIFICATION_ACTIONS.done, title: 'Done' },
+    ],
+  },
+  {
+    id: NOTIFICATION_ACTION_TYPES.timer,
+    actions: [{ id: NOTIFICATION_ACTIONS.restart, title: 'Restart' }],
+  },
+  {
+    id: NOTIFICATION_ACTION_TYPES.reply,
+    actions: [
+      {
+        id: NOTIFICATION_ACTIONS.reply,
+        title: 'Reply',
+        input: true,
+        inputPlaceholder: 'Ask Jarvis...',
+        inputButtonTitle: 'Send',
+      },
+    ],
+  },
+];
+
+export const isScheduledNotificationExtra = (extra: unknown): extra is ScheduledNotificationExtra =>
+  typeof extra === 'object' && extra !== null && typeof (extra as ScheduledNotificationExtra).itemId === 'number';
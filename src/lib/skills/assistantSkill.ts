@@ -0,0 +1,33 @@
+/**
+ * The conversational engine as a skill - the offline knowledge base,
+ * with cloud fallback when the user opted in. Catches everything else.
+ */
+
+import type { ChatTurn } from '@/lib/ai/types';
+import type { Skill } from './types';
+
+// Lowest possible claim so any dedicated skill wins
+const FALLBACK_SCORE = 0.1;
+
+interface AssistantEngine {
+  generate: (message: string, history: ChatTurn[], isVoiceMode: boolean, signal?: AbortSignal) => Promise<string>;
+  stream: (
+    message: string,
+    history: ChatTurn[],
+    isVoiceMode: boolean,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+}
+
+export const createAssistantSkill = (engine: AssistantEngine): Skill => ({
+  id: 'assistant',
+  label: 'Conversation',
+  canHandle: () => FALLBACK_SCORE,
+  handle: async (utterance, { history, isVoiceMode, signal, onChunk }) => {
+    const text = onChunk
+      ? await engine.stream(utterance, history, isVoiceMode, onChunk, signal)
+      : await engine.generate(utterance, history, isVoiceMode, signal);
+    return { kind: 'text', text };
+  },
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { isCommandLike, splitCommandClauses } from './clauses';
+
+describe('splitCommandClauses', () => {
+  it('splits two commands joined by "and"', () => {
+    expect(splitCommandClauses('set a timer for 5 minutes and play some jazz'))
+      .toEqual(['set a timer for 5 minutes', 'play some jazz']);
+  });
+
+  it('always splits on sequencing words', () => {
+    expect(splitCommandClauses('open spotify, then remind me to stretch in an hour'))
+      .toEqual(['open spotify', 'remind me to stretch in an hour']);
+    expect(splitCommandClauses('wake me up at 7 and after that play the news'))
+      .toEqual(['wake me up at 7', 'play the news']);
+  });
+
+  it('splits comma lists of commands', () => {
+    expect(splitCommandClauses('pause the music, set a timer for 10 minutes, and open maps'))
+      .toEqual(['pause the music', 'set a timer for 10 minutes', 'open maps']);
+  });
+
+  it('keeps an "and" that joins parts of one command', () => {
+    expect(splitCommandClauses('remind me to buy milk and eggs')).toEqual(['remind me to buy milk and eggs']);
+    expect(splitCommandClauses('set a timer for 5 minutes and 30 seconds')).toEqual(['set a timer for 5 minutes and 30 seconds']);
+  });
+
+  it('keeps the original separators when pieces are merged back', () => {
+    expect(splitCommandClauses('play rock, paper and scissors')).toEqual(['play rock, paper and scissors']);
+  });
+
+  it('keeps a call and what to say together', () => {
+    expect(splitCommandClauses('call mom and tell her I am late')).toEqual(['call mom and tell her I am late']);
+  });
+
+  it('splits a message from the command after it', () => {
+    expect(splitCommandClauses('text Alex that I am late and set a timer for 5 minutes'))
+      .toEqual(['text Alex that I am late', 'set a timer for 5 minutes']);
+  });
+
+  it('splits questions from commands', () => {
+    expect(splitCommandClauses('what is 5 plus 3, then set a timer for 2 minutes'))
+      .toEqual(['what is 5 plus 3', 'set a timer for 2 minutes']);
+  });
+
+  it('leaves ordinary sentences whole', () => {
+    expect(splitCommandClauses('what is the weather like today')).toEqual(['what is the weather like today']);
+  });
+});
+
+describe('isCommandLike', () => {
+  it('sees past polite filler', () => {
+    expect(isCommandLike('hey jarvis, could you set an alarm')).toBe(true);
+    expect(isCommandLike('can you please set an alarm')).toBe(true);
+    expect(isCommandLike('the weather is nice')).toBe(false);
+  });
+
+  it.each([
+    ['please play some jazz', true],
+    ['jarvis turn on the flashlight', true],
+    ['tell me a joke', false],
+  ])('%s', (text, expected) => {
+    expect(isCommandLike(text)).toBe(expected);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Splits "set a timer for 5 minutes and play some jazz" into separate commands.
+ * Sequencing words ("then", "after that") always split; a plain "and" only
+ * splits when both sides start like a command, so "remind me to buy milk and
+ * eggs" and "5 minutes and 30 seconds" stay whole.
+ */
+
+const HARD_SPLIT = /\s*,?\s*\b(?:and\s+then|and\s+after\s+that|after\s+that|afterwards|then)\b\s*,?\s*/i;
+const SOFT_SPLIT = /(\s*(?:,\s*and|,|\band)\s+)/i;
+
+const LEADING_FILLER = /^(?:(?:hey\s+)?jarvis,?\s+)?(?:please\s+)?(?:(?:can|could|will|would)\s+you\s+)?(?:please\s+)?(?:also\s+)?/i;
+
+// First words of the commands skills understand
+const COMMAND_START = /^(?:set|start|restart|play|open|launch|remind|wake|pause|stop|resume|skip|mute|unmute|cancel|snooze|delete|remove|clear|turn|text|call|dial|email|send|put|add|give|show|list|every|each|daily|alarm|timer)\b/i;
+
+const clean = (clause: string): string => clause.trim().replace(/^[,\s]+|[,.\s]+$/g, '');
+
+export const isCommandLike = (clause: string): boolean => COMMAND_START.test(clean(clause).replace(LEADING_FILLER, ''));
+
+// "and" splits are only kept where every piece reads as its own command
+const softSplit = (segment: string): string[] => {
+  // The capture group keeps separators at odd indexes so merged pieces read as said
+  const parts = segment.split(SOFT_SPLIT);
+  const clauses = [parts[0]];
+  for (let i = 1; i < parts.length; i += 2) {
+    const piece = parts[i + 1];
+    const last = clauses.length - 1;
+    if (isCommandLike(piece) && isCommandLike(clauses[last])) clauses.push(piece);
+    else clauses[last] = `${clauses[last]}${parts[i]}${piece}`;
+  }
+  return clauses.map(clean).filter(Boolean);
+};
+
+export const splitCommandClauses = (utterance: string): string[] =>
+  utterance.split(HARD_SPLIT).map(clean).filter(Boolean).flatMap(softSplit);
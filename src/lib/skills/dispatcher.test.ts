@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dispatchUtterance, MULTI_COMMAND_SKILL_ID, rankSkills } from './dispatcher';
+import type { Skill, SkillContext } from './types';
+
+const context: SkillContext = { isVoiceMode: false, history: [] };
+
+// Scores `score` for utterances containing `keyword`, and answers with its id
+const keywordSkill = (id: string, keyword: RegExp, score: number): Skill => ({
+  id,
+  label: id,
+  canHandle: (utterance) => (keyword.test(utterance) ? score : 0),
+  handle: vi.fn(async (utterance: string) => ({ kind: 'text' as const, text: `${id}: ${utterance}` })),
+});
+
+const fallback = keywordSkill('fallback', /./, 0.1);
+
+describe('dispatchUtterance', () => {
+  it('hands the utterance to the highest-scoring skill', async () => {
+    const timer = keywordSkill('timer', /timer/, 0.8);
+    const schedule = keywordSkill('schedule', /timer/, 0.9);
+
+    const dispatched = await dispatchUtterance('cancel my timer', context, [fallback, timer, schedule]);
+
+    expect(dispatched?.skillId).toBe('schedule');
+    expect(dispatched?.result.text).toBe('schedule: cancel my timer');
+    expect(timer.handle).not.toHaveBeenCalled();
+  });
+
+  it('breaks ties in favour of the earlier skill', async () => {
+    const first = keywordSkill('first', /music/, 0.8);
+    const second = keywordSkill('second', /music/, 0.8);
+
+    expect(rankSkills('play music', context, [first, second]).map(skill => skill.id)).toEqual(['first', 'second']);
+    expect((await dispatchUtterance('play music', context, [first, second]))?.skillId).toBe('first');
+  });
+
+  it('returns null when no skill claims the utterance', async () => {
+    const timer = keywordSkill('timer', /timer/, 0.8);
+
+    expect(await dispatchUtterance('hello', context, [timer])).toBeNull();
+  });
+
+  it('passes one-shot answers on to a streaming caller', async () => {
+    const onChunk = vi.fn();
+
+    await dispatchUtterance('hello', { ...context, onChunk }, [fallback]);
+
+    expect(onChunk).toHaveBeenCalledWith('fallback: hello');
+  });
+
+  it('runs each clause of a multi-command utterance in order', async () => {
+    const timer = keywordSkill('timer', /timer/, 0.8);
+    const music = keywordSkill('music', /play/, 0.8);
+
+    const dispatched = await dispatchUtterance(
+      'set a timer for 5 minutes and play some jazz',
+      context,
+      [fallback, timer, music]
+    );
+
+    expect(dispatched?.skillId).toBe(MULTI_COMMAND_SKILL_ID);
+    expect(dispatched?.result.kind).toBe('multi');
+    if (dispatched?.result.kind !== 'multi') return;
+    expect(dispatched.result.parts.map(part => part.text)).toEqual([
+      'timer: set a timer for 5 minutes',
+      'music: play some jazz',
+    ]);
+    expect(dispatched.result.text).toBe('timer: set a timer for 5 minutes. music: play some jazz.');
+  });
+
+  it('lets the conversational fallback answer clauses no command claims', async () => {
+    const timer = keywordSkill('timer', /timer/, 0.8);
+
+    const dispatched = await dispatchUtterance('what is 5 plus 3, then set a timer for 2 minutes', context, [fallback, timer]);
+
+    if (dispatched?.result.kind !== 'multi') throw new Error('expected a multi-command result');
+    expect(dispatched.result.parts.map(part => part.text)).toEqual([
+      'fallback: what is 5 plus 3',
+      'timer: set a timer for 2 minutes',
+    ]);
+  });
+
+  it('skips clauses no skill at all can answer', async () => {
+    const timer = keywordSkill('timer', /timer/, 0.8);
+
+    const dispatched = await dispatchUtterance('set a timer for 5 minutes then sing a song', context, [timer]);
+
+    if (dispatched?.result.kind !== 'multi') throw new Error('expected a multi-command result');
+    expect(dispatched.result.parts[1].text).toBe(`I didn't understand "sing a song", so I skipped it.`);
+  });
+
+  it('keeps a single skill when no clause is a known command', async () => {
+    const dispatched = await dispatchUtterance('tell me a story then sing a song', context, [fallback]);
+
+    expect(dispatched?.skillId).toBe('fallback');
+  });
+
+  it('reports a failing clause and carries on with the rest', async () => {
+    const broken: Skill = {
+      ...keywordSkill('broken', /timer/, 0.8),
+      handle: async () => { throw new Error('boom'); },
+    };
+    const music = keywordSkill('music', /play/, 0.8);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const dispatched = await dispatchUtterance('set a timer then play jazz', context, [broken, music]);
+
+    if (dispatched?.result.kind !== 'multi') throw new Error('expected a multi-command result');
+    expect(dispatched.result.parts.map(part => part.text)).toEqual([
+      'Something went wrong with "set a timer".',
+      'music: play jazz',
+    ]);
+  });
+
+  it('tells the skills that sat a turn out', async () => {
+    const timer = { ...keywordSkill('timer', /timer/, 0.8), onOtherSkillHandled: vi.fn() };
+    const music = { ...keywordSkill('music', /play/, 0.8), onOtherSkillHandled: vi.fn() };
+
+    await dispatchUtterance('play some jazz', context, [timer, music]);
+    expect(timer.onOtherSkillHandled).toHaveBeenCalledTimes(1);
+    expect(music.onOtherSkillHandled).not.toHaveBeenCalled();
+
+    await dispatchUtterance('set a timer then play jazz', context, [timer, music]);
+    expect(timer.onOtherSkillHandled).toHaveBeenCalledTimes(1);
+    expect(music.onOtherSkillHandled).not.toHaveBeenCalled();
+  });
+
+  it('stops the whole utterance when a clause is aborted', async () => {
+    const aborted: Skill = {
+      ...keywordSkill('aborted', /timer/, 0.8),
+      handle: async () => { throw new DOMException('Generation stopped', 'AbortError'); },
+    };
+    const music = keywordSkill('music', /play/, 0.8);
+
+    await expect(dispatchUtterance('set a timer then play jazz', context, [aborted, music])).rejects.toThrow('Generation stopped');
+    expect(music.handle).not.toHaveBeenCalled();
+  });
+});
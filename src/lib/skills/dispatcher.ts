@@ -0,0 +1,98 @@
+/**
+ * Skill dispatcher shared by text and voice mode.
+ * Every registered skill scores the utterance; the best one handles it.
+ * Utterances with several commands run clause by clause.
+ */
+
+import { isAbortError } from '@/lib/ai/abort';
+import { splitCommandClauses } from './clauses';
+import type { Skill, SkillContext, SkillResult } from './types';
+
+export const MULTI_COMMAND_SKILL_ID = 'multi-command';
+
+// Only worth splitting for a clause something more specific than the conversational fallback claims
+const MIN_CLAUSE_SCORE = 0.5;
+
+export interface DispatchResult {
+  skillId: string;
+  result: SkillResult;
+}
+
+const scoreSkills = (utterance: string, context: SkillContext, skills: Skill[]) =>
+  skills
+    .map((skill, index) => ({ skill, index, score: skill.canHandle(utterance, context) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+export const rankSkills = (utterance: string, context: SkillContext, skills: Skill[]): Skill[] =>
+  scoreSkills(utterance, context, skills).map(({ skill }) => skill);
+
+const isCommand = (utterance: string, context: SkillContext, skills: Skill[]): boolean => {
+  const [best] = scoreSkills(utterance, context, skills);
+  return Boolean(best && best.score >= MIN_CLAUSE_SCORE);
+};
+
+// Skills that sat the turn out can let go of pending follow-ups
+const notifyOthers = (handledBy: Skill[], skills: Skill[]) => {
+  for (const skill of skills) {
+    if (!handledBy.includes(skill)) skill.onOtherSkillHandled?.();
+  }
+};
+
+const endSentence = (text: string): string => (/[.!?]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+
+// Runs each clause in order - questions go to the conversational fallback like any other
+// utterance; ones no skill understands, or that fail, are reported and skipped
+const dispatchClauses = async (clauses: string[], context: SkillContext, skills: Skill[]): Promise<SkillResult> => {
+  const clauseContext = { ...context, onChunk: undefined };
+  const parts: SkillResult[] = [];
+  const handledBy: Skill[] = [];
+  for (const clause of clauses) {
+    const [skill] = rankSkills(clause, clauseContext, skills);
+    if (!skill) {
+      parts.push({ kind: 'text', text: `I didn't understand "${clause}", so I skipped it.` });
+      continue;
+    }
+    handledBy.push(skill);
+    try {
+      parts.push(await skill.handle(clause, clauseContext));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Skill ${skill.id} failed on "${clause}":`, error);
+      parts.push({ kind: 'text', text: `Something went wrong with "${clause}".` });
+    }
+  }
+  notifyOthers(handledBy, skills);
+  return { kind: 'multi', text: parts.map(part => endSentence(part.text)).join(' '), parts };
+};
+
+export const dispatchUtterance = async (
+  utterance: string,
+  context: SkillContext,
+  skills: Skill[]
+): Promise<DispatchResult | null> => {
+  // Only worth splitting when at least one clause is a command we know
+  const clauses = splitCommandClauses(utterance);
+  if (clauses.length > 1 && clauses.some(clause => isCommand(clause, context, skills))) {
+    const result = await dispatchClauses(clauses, context, skills);
+    context.onChunk?.(result.text);
+    return { skillId: MULTI_COMMAND_SKILL_ID, result };
+  }
+
+  const [skill] = rankSkills(utterance, context, skills);
+  if (!skill) return null;
+
+  let streamed = false;
+  const onChunk = context.onChunk && ((chunk: string) => {
+    streamed = true;
+    context.onChunk?.(chunk);
+  });
+
+  const result = await skill.handle(utterance, { ...context, onChunk });
+  notifyOthers([skill], skills);
+
+  // Skills that answer in one go still reach streaming callers
+  if (!streamed) context.onChunk?.(result.text);
+
+  return { skillId: skill.id, result };
+};
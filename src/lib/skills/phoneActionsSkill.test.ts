@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PhoneAction, PhoneActionResult } from '@/hooks/usePhoneActions';
+import { createPhoneActionsSkill } from './phoneActionsSkill';
+import type { SkillContext } from './types';
+
+const context: SkillContext = { isVoiceMode: false, history: [] };
+
+// Every message gets the read-back question; confirmed ones are "sent"
+const execute = vi.fn(async (action: PhoneAction): Promise<PhoneActionResult> =>
+  action.confirmed
+    ? { response: 'Sent.' }
+    : { response: `Send "hi" to Alex?`, followUp: { ...action, confirmed: true } });
+
+describe('phone actions follow-up questions', () => {
+  beforeEach(() => {
+    execute.mockClear();
+    // Clears the question left open by the previous test
+    createPhoneActionsSkill(execute).onOtherSkillHandled?.();
+  });
+
+  it('takes a spoken yes as the answer', async () => {
+    const skill = createPhoneActionsSkill(execute);
+    await skill.handle('text Alex saying hi', context);
+
+    expect(skill.canHandle('yes please', context)).toBeGreaterThan(0.9);
+    expect((await skill.handle('yes please', context)).text).toBe('Sent.');
+  });
+
+  it("doesn't take please or call for a yes", async () => {
+    const skill = createPhoneActionsSkill(execute);
+    await skill.handle('text Alex saying hi', context);
+
+    expect(skill.canHandle('please', context)).toBe(0);
+    expect(skill.canHandle('call', context)).toBe(0);
+  });
+
+  it('forgets the question once another skill answers a turn', async () => {
+    const skill = createPhoneActionsSkill(execute);
+    await skill.handle('text Alex saying hi', context);
+
+    skill.onOtherSkillHandled?.();
+
+    expect(skill.canHandle('yes', context)).toBe(0);
+  });
+});
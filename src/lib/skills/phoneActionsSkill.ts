@@ -0,0 +1,89 @@
+/**
+ * Phone actions - alarms, timers, reminders, apps, music, messages and calls.
+ * Execution needs native capabilities, so the hook that owns them is injected.
+ */
+
+import { parsePhoneAction, type PhoneAction, type PhoneActionResult } from '@/hooks/usePhoneActions';
+import type { Skill, SkillResult } from './types';
+
+// Above the conversational fallback, below anything more specific added later
+const PHONE_ACTION_SCORE = 0.8;
+// Answering our own question beats everything else
+const FOLLOW_UP_SCORE = 0.95;
+// Spoken answers only count for a while; taps on the card always do
+const FOLLOW_UP_TTL_MS = 2 * 60 * 1000;
+
+const YES_PATTERN = /^(?:yes|yeah|yep|yup|sure|ok(?:ay)?|do it|open it|send it|go ahead|that's it|that one)\b[\s,.!]*(?:please|thanks)?[\s.!]*$/i;
+const NO_PATTERN = /^(?:no|nope|nah|never\s?mind|cancel|don't)\b[\s,.!]*(?:thanks)?[\s.!]*$/i;
+
+interface Question {
+  // What to do if the answer is yes
+  action: PhoneAction;
+  askedAt: number;
+  answered: boolean;
+}
+
+// The question a spoken "yes" answers - shared across skill instances,
+// since the registry is rebuilt whenever its dependencies change
+let openQuestion: Question | null = null;
+
+const activeQuestion = (): Question | null => {
+  if (openQuestion && (openQuestion.answered || Date.now() - openQuestion.askedAt > FOLLOW_UP_TTL_MS)) openQuestion = null;
+  return openQuestion;
+};
+
+const isAnswer = (utterance: string): boolean => YES_PATTERN.test(utterance.trim()) || NO_PATTERN.test(utterance.trim());
+
+export const createPhoneActionsSkill = (execute: (action: PhoneAction) => Promise<PhoneActionResult>): Skill => {
+  const answer = async (question: Question, yes: boolean): Promise<SkillResult> => {
+    if (question.answered) return { kind: 'text', text: 'That one is already taken care of.' };
+    question.answered = true;
+    if (openQuestion === question) openQuestion = null;
+    if (!yes) return { kind: 'text', text: 'Okay, cancelled.' };
+
+    const { response, undo } = await execute(question.action);
+    return { kind: 'action', text: response, action: question.action, undo };
+  };
+
+  return {
+    id: 'phone-actions',
+    label: 'Phone actions',
+    canHandle: (utterance) => {
+      if (activeQuestion() && isAnswer(utterance)) return FOLLOW_UP_SCORE;
+      return parsePhoneAction(utterance) ? PHONE_ACTION_SCORE : 0;
+    },
+    handle: async (utterance) => {
+      const question = activeQuestion();
+      if (question && isAnswer(utterance)) {
+        return answer(question, YES_PATTERN.test(utterance.trim()));
+      }
+
+      const action = parsePhoneAction(utterance);
+      if (!action) {
+        return { kind: 'text', text: "I couldn't work out what to do on your phone." };
+      }
+      // A new command moves on from whatever we last asked
+      openQuestion = null;
+      const { response, undo, followUp } = await execute(action);
+      if (followUp) {
+        // Asking, not acting yet - the card shows what yes would do
+        const asked: Question = { action: followUp, askedAt: Date.now(), answered: false };
+        openQuestion = asked;
+        return {
+          kind: 'action',
+          text: response,
+          action: followUp,
+          confirm: {
+            accept: async () => (await answer(asked, true)).text,
+            decline: async () => (await answer(asked, false)).text,
+          },
+        };
+      }
+      return { kind: 'action', text: response, action, undo };
+    },
+    // A spoken "yes" after talking about something else isn't an answer to us
+    onOtherSkillHandled: () => {
+      openQuestion = null;
+    },
+  };
+};
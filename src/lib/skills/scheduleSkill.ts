@@ -0,0 +1,114 @@
+/**
+ * Works on timers, alarms and reminders the assistant already created:
+ * list, cancel, snooze and add time. Storage and notifications are injected.
+ */
+
+import {
+  describeItemList,
+  describeItemName,
+  findItems,
+  formatSpan,
+  parseScheduleCommand,
+  upcomingItems,
+  type ScheduledItem,
+} from '@/lib/ai/scheduledItems';
+import { describeReminderTime } from '@/lib/ai/reminderTime';
+import type { Skill } from './types';
+
+// Beats phone actions - "cancel the pasta timer" mentions a timer too
+const SCHEDULE_SCORE = 0.9;
+
+interface ScheduleStore {
+  // Current items, with anything that already went off marked as fired
+  refresh: () => Promise<ScheduledItem[]>;
+  cancel: (id: number) => Promise<boolean>;
+  reschedule: (id: number, at: Date) => Promise<ScheduledItem | null>;
+  // Repeating items snooze as a one-off copy
+  snooze: (id: number, seconds: number) => Promise<ScheduledItem | null>;
+}
+
+const capitalize = (text: string): string => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+// Repeating items never fire for good, so they only count for a while
+const RECENT_REPEAT_MS = 60 * 60 * 1000;
+
+const firedAt = (item: ScheduledItem): number =>
+  item.firedAt ?? (item.lastFiredAt && Date.now() - item.lastFiredAt < RECENT_REPEAT_MS ? item.lastFiredAt : 0);
+
+// The one that most recently went off
+const lastFired = (items: ScheduledItem[]): ScheduledItem | undefined =>
+  items.filter(item => firedAt(item)).sort((a, b) => firedAt(b) - firedAt(a))[0];
+
+export const createScheduleSkill = (store: ScheduleStore): Skill => ({
+  id: 'schedule',
+  label: 'Timers and reminders',
+  canHandle: (utterance) => (parseScheduleCommand(utterance) ? SCHEDULE_SCORE : 0),
+  handle: async (utterance) => {
+    const command = parseScheduleCommand(utterance);
+    if (!command) return { kind: 'text', text: "I'm not sure which timer you mean." };
+
+    const items = await store.refresh();
+
+    switch (command.kind) {
+      case 'list':
+        return { kind: 'text', text: describeItemList(upcomingItems(items, command.filter), command.filter) };
+
+      case 'cancel': {
+        const pending = upcomingItems(items, command.filter);
+        const matches = findItems(command.target, pending);
+        const noun = command.filter ?? 'timer, alarm or reminder';
+        if (matches.length === 0) {
+          return {
+            kind: 'text',
+            text: pending.length === 0
+              ? `You don't have any ${command.filter ? `${command.filter}s` : 'timers, alarms or reminders'} to cancel.`
+              : `I couldn't find that ${noun}. ${describeItemList(pending, command.filter)}`,
+          };
+        }
+        if (matches.length > 1 && !command.all) {
+          return {
+            kind: 'text',
+            text: `Which one? ${describeItemList(matches, command.filter)} Say "cancel all ${command.filter ?? 'of them'}s" to cancel every one.`
+              .replace(/of thems\b/, 'of them'),
+          };
+        }
+        const cancelled: ScheduledItem[] = [];
+        for (const item of matches) {
+          if (await store.cancel(item.id)) cancelled.push(item);
+        }
+        if (cancelled.length === 0) return { kind: 'text', text: "I couldn't cancel that on this device." };
+        return {
+          kind: 'text',
+          text: cancelled.length === 1
+            ? `Okay, I cancelled ${describeItemName(cancelled[0])}.`
+            : `Okay, I cancelled ${cancelled.length} ${command.filter ? `${command.filter}s` : 'items'}.`,
+        };
+      }
+
+      case 'snooze': {
+        const item = lastFired(items);
+        if (!item) return { kind: 'text', text: "Nothing has gone off recently, so there's nothing to snooze." };
+        const snoozed = await store.snooze(item.id, command.seconds);
+        if (!snoozed) return { kind: 'text', text: "I couldn't snooze that on this device." };
+        return { kind: 'text', text: `Snoozed ${describeItemName(item)} for ${formatSpan(command.seconds)}.` };
+      }
+
+      case 'addTime': {
+        // A running timer first, otherwise one that just finished gets restarted
+        const running = findItems(command.target, upcomingItems(items, command.filter ?? 'timer'));
+        const item = running[0] ?? (command.target ? undefined : lastFired(items.filter(i => i.kind === 'timer' && !i.recurrence)));
+        if (!item) {
+          return { kind: 'text', text: command.target ? "I couldn't find that timer." : "You don't have a timer running." };
+        }
+        const base = item.firedAt ? Date.now() : item.at;
+        const moved = await store.reschedule(item.id, new Date(base + command.seconds * 1000));
+        if (!moved) return { kind: 'text', text: "I couldn't change that on this device." };
+        const name = describeItemName(moved).replace(/^(?:the|your) /, '');
+        const detail = moved.kind === 'timer'
+          ? `${name} now has ${formatSpan((moved.at - Date.now()) / 1000)} left`
+          : `${name} now goes off ${describeReminderTime(new Date(moved.at))}`;
+        return { kind: 'text', text: `Added ${formatSpan(command.seconds)}. ${capitalize(detail)}.` };
+      }
+    }
+  },
+});
@@ -0,0 +1,46 @@
+/**
+ * Shared types for assistant skills.
+ * A skill is an isolated capability (phone actions, the conversational engine, ...)
+ * that scores how well it can handle an utterance and then handles it.
+ */
+
+import type { ChatTurn } from '@/lib/ai/types';
+import type { PhoneAction } from '@/hooks/usePhoneActions';
+
+export interface SkillContext {
+  isVoiceMode: boolean;
+  history: ChatTurn[];
+  signal?: AbortSignal;
+  // Set when the caller can show the answer as it's produced
+  onChunk?: (chunk: string) => void;
+}
+
+// Structured details for answers that read better as a card than as prose
+export interface SkillCard {
+  title: string;
+  lines: string[];
+}
+
+// A yes/no question about an action - answerable by tapping as well as by saying so
+export interface ActionConfirmation {
+  accept: () => Promise<string>;
+  decline: () => Promise<string>;
+}
+
+// `text` is always present - it's what gets spoken and saved to history
+export type SkillResult =
+  | { kind: 'text'; text: string }
+  | { kind: 'card'; text: string; card: SkillCard }
+  | { kind: 'action'; text: string; action: PhoneAction; undo?: () => Promise<string>; confirm?: ActionConfirmation }
+  // Several commands in one utterance - one part per clause, in the order they ran
+  | { kind: 'multi'; text: string; parts: SkillResult[] };
+
+export interface Skill {
+  id: string;
+  label: string;
+  // 0 means "not mine"; the highest score wins, ties go to the earlier skill
+  canHandle: (utterance: string, context: SkillContext) => number;
+  handle: (utterance: string, context: SkillContext) => Promise<SkillResult>;
+  // Another skill answered the turn - drop anything waiting on the next one
+  onOtherSkillHandled?: () => void;
+}
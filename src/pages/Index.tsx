@@ -1,12 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Capacitor } from "@capacitor/core";
 import ModeToggle from "@/components/ModeToggle";
 import TextMode from "@/components/TextMode";
 import VoiceMode from "@/components/VoiceMode";
+import SettingsSheet from "@/components/SettingsSheet";
+import RemindersSheet from "@/components/RemindersSheet";
+import { useNotificationActions } from "@/hooks/useNotificationActions";
 
 const Index = () => {
   const [mode, setMode] = useState<"text" | "voice">("text");
   const [isNative, setIsNative] = useState(false);
+  // Typed into a notification's reply box - text mode sends it
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+
+  const handleNotificationReply = useCallback((text: string) => {
+    setMode("text");
+    setPendingMessage(text);
+  }, []);
+
+  useNotificationActions({ onReply: handleNotificationReply });
 
   useEffect(() => {
     setIsNative(Capacitor.isNativePlatform());
@@ -22,12 +34,20 @@ const Index = () => {
         <h1 className="text-lg font-semibold text-primary glow-text tracking-wide select-none">
           Warm AI
         </h1>
-        <ModeToggle mode={mode} onModeChange={setMode} />
+        <div className="flex items-center gap-1">
+          <ModeToggle mode={mode} onModeChange={setMode} />
+          <RemindersSheet />
+          <SettingsSheet />
+        </div>
       </header>
 
       {/* Main content */}
       <main className="flex-1 overflow-hidden">
-        {mode === "text" ? <TextMode /> : <VoiceMode />}
+        {mode === "text" ? (
+          <TextMode pendingMessage={pendingMessage} onPendingMessageSent={() => setPendingMessage(null)} />
+        ) : (
+          <VoiceMode />
+        )}
       </main>
       
       {/* Native-style navigation bar spacer for Android */}
@@ -10,6 +10,8 @@ const MAX_MESSAGES = 50;
 const MAX_MESSAGE_LENGTH = 10000;
 const MAX_HISTORY_LENGTH = 100;
 const ALLOWED_ROLES = ['user', 'assistant', 'system'];
+const MAX_USER_FACTS = 20;
+const MAX_FACT_LENGTH = 500;
 
 // Validate a single message object
 const isValidMessage = (msg: unknown): msg is { role: string; content: string } => {
@@ -21,6 +23,13 @@ const isValidMessage = (msg: unknown): msg is { role: string; content: string }
   return true;
 };
 
+// Validate remembered facts the user chose to share
+const validateUserFacts = (facts: unknown): facts is string[] | undefined => {
+  if (facts === undefined || facts === null) return true;
+  if (!Array.isArray(facts) || facts.length > MAX_USER_FACTS) return false;
+  return facts.every(fact => typeof fact === 'string' && fact.length <= MAX_FACT_LENGTH);
+};
+
 // Validate messages array
 const validateMessages = (messages: unknown): boolean => {
   if (!Array.isArray(messages)) return false;
@@ -52,7 +61,7 @@ serve(async (req) => {
       });
     }
 
-    const { messages, webEnabled, isVoiceMode, conversationHistory } = body;
+    const { messages, webEnabled, isVoiceMode, conversationHistory, userFacts } = body;
 
     // Validate messages array
     if (!validateMessages(messages)) {
@@ -74,6 +83,14 @@ serve(async (req) => {
       });
     }
 
+    // Validate shared memories
+    if (!validateUserFacts(userFacts)) {
+      return new Response(JSON.stringify({ error: "Invalid user facts format" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     
     if (!LOVABLE_API_KEY) {
@@ -147,7 +164,15 @@ HONESTY:
 - Recommend reliable sources when appropriate`;
     }
 
-    console.log("Chat request - webEnabled:", validWebEnabled, "isVoiceMode:", validIsVoiceMode, "historyLength:", conversationHistory?.length || 0);
+    // Only present when the user opted in to sharing their memories
+    if (userFacts && userFacts.length > 0) {
+      systemPrompt += `
+
+THINGS THE USER ASKED YOU TO REMEMBER (in their words - use them only when relevant):
+${userFacts.map(fact => `- ${fact}`).join("\n")}`;
+    }
+
+    console.log("Chat request - webEnabled:", validWebEnabled, "isVoiceMode:", validIsVoiceMode, "historyLength:", conversationHistory?.length || 0, "userFacts:", userFacts?.length || 0);
 
     // Filter and sanitize validated messages
     const sanitizedHistory = (conversationHistory || []).map((msg: { role: string; content: string }) => ({